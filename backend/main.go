@@ -1,13 +1,19 @@
 package main
 
 import (
+	"crypto/subtle"
+	"encoding/csv"
 	"encoding/json"
+	"errors"
 	"fmt"
+	"io"
 	"log"
+	"math"
 	"math/rand"
 	"net/http"
 	"os"
 	"sort"
+	"strconv"
 	"strings"
 	"sync"
 	"time"
@@ -19,8 +25,82 @@ const (
 	BucketSize  = MaxRating + 1
 	SearchLimit = 50
 	Port        = "8080"
+
+	// DefaultNeighbors is how many players above and below a profile we return
+	// when the caller doesn't ask for a specific window.
+	DefaultNeighbors = 3
+	MaxNeighbors     = 10
+
+	// StreamBuffer is how many rating changes a /stream subscriber may fall
+	// behind before we start dropping events for it. StreamHeartbeat keeps idle
+	// connections alive through proxies that close silent sockets.
+	StreamBuffer    = 256
+	StreamHeartbeat = 15 * time.Second
+
+	// Leaderboard paging. Pages are read from a frozen snapshot so ratings
+	// changing underneath can't shift rows between pages. Snapshots are kept
+	// for SnapshotTTL after creation, and at most MaxSnapshots at a time.
+	DefaultPageSize = 100
+	MaxPageSize     = 1000
+	SnapshotTTL     = 5 * time.Minute
+	MaxSnapshots    = 32
+
+	// Window queries return the target row plus up to radius rows on each side.
+	DefaultWindowRadius = 25
+	MaxWindowRadius     = 500
+
+	// MaxBatchLookup caps how many usernames one /users request may ask for.
+	MaxBatchLookup = 100
+
+	// A /compare request names MinComparePlayers..MaxComparePlayers players.
+	MinComparePlayers = 2
+	MaxComparePlayers = 4
+
+	// Per-user history: every rating change is recorded, plus a rank sample for
+	// every user each HistorySampleInterval (ranks move when *others* change).
+	// Only the newest HistoryLimit points are kept, about two hours at the
+	// simulated traffic rate.
+	HistoryLimit          = 120
+	HistorySampleInterval = time.Minute
+
+	// /stats histogram bucket width (in rating points) and percentile cutoffs
+	// used when the caller doesn't specify their own.
+	DefaultStatsBucketWidth = 100
+	MaxStatsBucketWidth     = 1000
+	MaxStatsPercentiles     = 20
+
+	// Search modes for /search. Fuzzy allows up to MaxFuzzyDistance edits
+	// (fewer for short queries, see fuzzyDistanceFor).
+	SearchModePrefix    = "prefix"
+	SearchModeSubstring = "substring"
+	SearchModeFuzzy     = "fuzzy"
+	MaxFuzzyDistance    = 2
+
+	// SeedUsers is how many random players each board starts with.
+	SeedUsers = 10000
+
+	// Admin writes. Usernames are 1..MaxUsernameLength characters with no
+	// surrounding whitespace. One import may carry at most MaxImportRows rows in a
+	// body of at most MaxAdminBodyBytes.
+	MaxUsernameLength = 32
+	MaxImportRows     = 10000
+	MaxAdminBodyBytes = 1 << 20
+
+	// Elo match ingestion. DefaultKFactor is the most a player can gain or lose
+	// in one game unless a request sets its own k_factor (1..MaxKFactor). One
+	// request may carry at most MaxMatchGames games.
+	DefaultKFactor = 32
+	MaxKFactor     = 100
+	MaxMatchGames  = 100
+
+	// Exports stream the whole snapshot, flushing every ExportFlushRows rows so
+	// the client sees progress and the server never buffers the full file.
+	ExportFlushRows = 1000
 )
 
+// DefaultStatsPercentiles are the cutoffs /stats reports when none are requested.
+var DefaultStatsPercentiles = []float64{10, 25, 50, 75, 90, 99}
+
 // User represents a leaderboard user. Simple, immutable record
 // that we pair with bucket counts to avoid expensive data structure
 // operations during rank computation.
@@ -40,13 +120,74 @@ type Leaderboard struct {
 	mu           sync.RWMutex
 	users        map[string]*User
 	scoreBuckets [BucketSize]int // Index = rating, Value = count of users at that rating
+
+	// Live subscribers (one per open /stream connection). Guarded by its own
+	// mutex so publishing never contends with rank reads on mu.
+	subMu       sync.Mutex
+	subscribers map[chan RatingChange]struct{}
+
+	// version increments on every write (under mu), so a snapshot can tell
+	// whether the live data has moved on since it was taken.
+	version uint64
+
+	snapMu    sync.Mutex
+	snapSeq   uint64
+	snapshots map[string]*leaderboardSnapshot
+
+	// history holds each user's recent rating/rank points, oldest first.
+	// Guarded by mu, like users.
+	history map[string][]HistoryPoint
+}
+
+// HistoryPoint is a user's rating and rank at one moment (unix ms).
+type HistoryPoint struct {
+	Timestamp int64 `json:"timestamp"`
+	Rating    int   `json:"rating"`
+	Rank      int   `json:"rank"`
+}
+
+// leaderboardSnapshot is a frozen, fully ordered copy of the leaderboard that
+// paging clients read from. Rows keep the ranks they had when it was taken.
+type leaderboardSnapshot struct {
+	id        string
+	version   uint64
+	createdAt time.Time
+	rows      []LeaderboardRow
+}
+
+// BoardRegistry holds every named leaderboard (game modes, seasons). Each board
+// is a fully independent Leaderboard with its own users, buckets, snapshots and
+// stream. The set is fixed at startup, so lookups need no lock.
+type BoardRegistry struct {
+	boards    map[string]*Leaderboard
+	infos     []BoardInfo
+	defaultID string
+}
+
+// BoardInfo describes one board for /boards.
+type BoardInfo struct {
+	ID         string `json:"id"`
+	Name       string `json:"name"`
+	TotalUsers int    `json:"total_users"`
+}
+
+// BoardList is the response for /boards.
+type BoardList struct {
+	Boards  []BoardInfo `json:"boards"`
+	Default string      `json:"default"`
 }
 
 // Response types
+// Score is the match relevance in (0, 1]: 1 for an exact match, then prefix,
+// substring and fuzzy matches in that order. Matches lists the matched parts of
+// the username as [start, end) rune offsets, for highlighting. Both are omitted
+// where a SearchResult isn't a search hit (e.g. /users).
 type SearchResult struct {
-	Username   string `json:"username"`
-	Rating     int    `json:"rating"`
-	GlobalRank int    `json:"global_rank"`
+	Username   string   `json:"username"`
+	Rating     int      `json:"rating"`
+	GlobalRank int      `json:"global_rank"`
+	Score      float64  `json:"score,omitempty"`
+	Matches    [][2]int `json:"matches,omitempty"`
 }
 
 type LeaderboardRow struct {
@@ -55,12 +196,210 @@ type LeaderboardRow struct {
 	Rating   int    `json:"rating"`
 }
 
+// LeaderboardPage is one page of a leaderboard snapshot. Clients pass Snapshot
+// and NextOffset back to get the following page from the same frozen ordering.
+type LeaderboardPage struct {
+	Entries    []LeaderboardRow `json:"entries"`
+	Snapshot   string           `json:"snapshot"`
+	CreatedAt  int64            `json:"created_at"`
+	Offset     int              `json:"offset"`
+	NextOffset int              `json:"next_offset"`
+	HasMore    bool             `json:"has_more"`
+	Total      int              `json:"total"`
+}
+
+// LeaderboardWindow is a page centered on one row (a rank or a player).
+// TargetIndex is that row's index within Entries, so the client can scroll to
+// it directly. It's a normal page otherwise: keep paging with Snapshot.
+type LeaderboardWindow struct {
+	LeaderboardPage
+	TargetIndex int `json:"target_index"`
+}
+
+// UserHistory is the response for /history, points oldest first.
+type UserHistory struct {
+	Username string         `json:"username"`
+	Points   []HistoryPoint `json:"points"`
+}
+
+// BatchLookup is the result of looking up several players by exact username.
+// Players keep the order they were requested in; unknown names go to Missing.
+// History is only filled in when the caller asks for it (for sparklines).
+type BatchLookup struct {
+	Players    []SearchResult            `json:"players"`
+	Missing    []string                  `json:"missing"`
+	TotalUsers int                       `json:"total_users"`
+	History    map[string][]HistoryPoint `json:"history,omitempty"`
+}
+
+// Comparison is the response for /compare: a few players read under one lock,
+// in the order they were requested, with the gap between every pair of them.
+// History is only filled in when the caller asks for it.
+type Comparison struct {
+	Players    []SearchResult            `json:"players"`
+	Gaps       []ComparisonGap           `json:"gaps"`
+	TotalUsers int                       `json:"total_users"`
+	History    map[string][]HistoryPoint `json:"history,omitempty"`
+}
+
+// ComparisonGap is the distance between two compared players. Higher is the
+// better rated of the two (the one requested first, on a tie). PlayersBetween
+// counts players rated strictly between them, so players tied with either one
+// are not counted.
+type ComparisonGap struct {
+	Higher         string `json:"higher"`
+	Lower          string `json:"lower"`
+	RatingGap      int    `json:"rating_gap"`
+	PlayersBetween int    `json:"players_between"`
+}
+
+// UserUpdate sets one player's rating through the admin API.
+type UserUpdate struct {
+	Username string `json:"username"`
+	Rating   int    `json:"rating"`
+}
+
+// ImportRowError explains why one row of an import was skipped. Row is 1-based
+// and counts data rows only (a CSV header row is not counted).
+type ImportRowError struct {
+	Row      int    `json:"row"`
+	Username string `json:"username,omitempty"`
+	Error    string `json:"error"`
+}
+
+// ImportResult is the response for /admin/import: how many rows were written,
+// and why each of the others was skipped.
+type ImportResult struct {
+	Imported int              `json:"imported"`
+	Errors   []ImportRowError `json:"errors"`
+}
+
+// MatchGame is one game between two players. With Draw set, Winner and Loser
+// are simply the two players.
+type MatchGame struct {
+	Winner string `json:"winner"`
+	Loser  string `json:"loser"`
+	Draw   bool   `json:"draw,omitempty"`
+}
+
+// MatchReport is the body of POST /matches. KFactor 0 means DefaultKFactor.
+type MatchReport struct {
+	Games   []MatchGame `json:"games"`
+	KFactor float64     `json:"k_factor,omitempty"`
+}
+
+// RatingDelta is one player's rating change from a match report. GlobalRank is
+// the rank after the change, and only set when the report was applied.
+type RatingDelta struct {
+	Username   string `json:"username"`
+	OldRating  int    `json:"old_rating"`
+	Rating     int    `json:"rating"`
+	Delta      int    `json:"delta"`
+	GlobalRank int    `json:"global_rank,omitempty"`
+}
+
+// MatchOutcome is the response for POST /matches: every affected player's
+// change, in the order they first appear in the report.
+type MatchOutcome struct {
+	KFactor float64       `json:"k_factor"`
+	Applied bool          `json:"applied"`
+	Changes []RatingDelta `json:"changes"`
+}
+
+// DistributionBucket counts the players rated MinRating..MaxRating (inclusive).
+type DistributionBucket struct {
+	MinRating int `json:"min_rating"`
+	MaxRating int `json:"max_rating"`
+	Count     int `json:"count"`
+}
+
+// PercentileCutoff is the rating at or below which Percentile% of players sit.
+type PercentileCutoff struct {
+	Percentile float64 `json:"percentile"`
+	Rating     int     `json:"rating"`
+}
+
+// LeaderboardStats summarizes the rating distribution. Everything comes from one
+// pass over scoreBuckets, which already is the histogram at 1-point resolution.
+type LeaderboardStats struct {
+	TotalUsers   int                  `json:"total_users"`
+	Mean         float64              `json:"mean"`
+	Median       float64              `json:"median"`
+	BucketWidth  int                  `json:"bucket_width"`
+	Distribution []DistributionBucket `json:"distribution"`
+	Percentiles  []PercentileCutoff   `json:"percentiles"`
+}
+
+// RatingChange is pushed to /stream subscribers whenever a rating changes.
+// GlobalRank is computed under the same write lock as the update, so it's the
+// player's exact rank at the instant of the change. OldRating is 0 for new users.
+type RatingChange struct {
+	Username   string `json:"username"`
+	OldRating  int    `json:"old_rating"`
+	Rating     int    `json:"rating"`
+	GlobalRank int    `json:"global_rank"`
+	Timestamp  int64  `json:"timestamp"`
+}
+
+// PlayerProfile is a single player's live standing plus the players ranked
+// directly around them. Everything is read under one lock, so the neighbors
+// and the player's own rank always agree with each other.
+type PlayerProfile struct {
+	Username   string           `json:"username"`
+	Rating     int              `json:"rating"`
+	GlobalRank int              `json:"global_rank"`
+	Percentile float64          `json:"percentile"`
+	TotalUsers int              `json:"total_users"`
+	Above      []LeaderboardRow `json:"above"`
+	Below      []LeaderboardRow `json:"below"`
+}
+
 // NewLeaderboard initializes a new leaderboard system
 func NewLeaderboard() *Leaderboard {
 	return &Leaderboard{
 		users:        make(map[string]*User),
 		scoreBuckets: [BucketSize]int{},
+		subscribers:  make(map[chan RatingChange]struct{}),
+		snapshots:    make(map[string]*leaderboardSnapshot),
+		history:      make(map[string][]HistoryPoint),
+	}
+}
+
+// NewBoardRegistry creates an empty registry. The first board added becomes the
+// default, used by requests that don't name one.
+func NewBoardRegistry() *BoardRegistry {
+	return &BoardRegistry{boards: make(map[string]*Leaderboard)}
+}
+
+// Add registers a board under id.
+func (reg *BoardRegistry) Add(id, name string, lb *Leaderboard) {
+	if reg.defaultID == "" {
+		reg.defaultID = id
+	}
+	reg.boards[id] = lb
+	reg.infos = append(reg.infos, BoardInfo{ID: id, Name: name})
+}
+
+// Get returns the board with the given id, or the default board for "".
+func (reg *BoardRegistry) Get(id string) (*Leaderboard, bool) {
+	if id == "" {
+		id = reg.defaultID
+	}
+	lb, exists := reg.boards[id]
+	return lb, exists
+}
+
+// List returns every board in registration order, with its current size.
+func (reg *BoardRegistry) List() BoardList {
+	list := BoardList{Boards: make([]BoardInfo, len(reg.infos)), Default: reg.defaultID}
+	for i, info := range reg.infos {
+		lb := reg.boards[info.ID]
+		lb.mu.RLock()
+		info.TotalUsers = len(lb.users)
+		lb.mu.RUnlock()
+		list.Boards[i] = info
 	}
+	return list
 }
 
 // CalculateRank computes rank at request time. This is how we ensure no stale data:
@@ -93,8 +432,18 @@ func (lb *Leaderboard) AddOrUpdateUser(username string, rating int) error {
 	lb.mu.Lock()
 	defer lb.mu.Unlock()
 
+	lb.setRatingLocked(username, rating, time.Now().UnixMilli())
+	return nil
+}
+
+// setRatingLocked moves a user (new or existing) to rating, records the change in
+// their history and publishes it. Returns the user's new rank. Caller must hold
+// the write lock and have validated rating.
+func (lb *Leaderboard) setRatingLocked(username string, rating int, now int64) int {
 	// If user exists, decrement old bucket
+	oldRating := 0
 	if user, exists := lb.users[username]; exists {
+		oldRating = user.Rating
 		lb.scoreBuckets[user.Rating]--
 	}
 
@@ -104,150 +453,236 @@ func (lb *Leaderboard) AddOrUpdateUser(username string, rating int) error {
 		Username: username,
 		Rating:   rating,
 	}
+	lb.version++
 
-	return nil
+	rank := lb.CalculateRank(rating)
+	lb.recordHistoryLocked(username, HistoryPoint{Timestamp: now, Rating: rating, Rank: rank})
+
+	lb.publish(RatingChange{
+		Username:   username,
+		OldRating:  oldRating,
+		Rating:     rating,
+		GlobalRank: rank,
+		Timestamp:  now,
+	})
+
+	return rank
 }
 
-// SearchUsers searches for users by prefix (case-insensitive) and returns their
-// *current* global ranks. We recompute the rank on each search request because
-// the alternative (cached ranks) creates stale data if any user was updated between
-// search queries. Correctness > optimization.
-func (lb *Leaderboard) SearchUsers(query string) []SearchResult {
-	if query == "" {
-		return []SearchResult{}
+// validateUserUpdate checks an admin write before it touches the board.
+func validateUserUpdate(update UserUpdate) error {
+	switch {
+	case update.Username == "":
+		return errors.New("username is required")
+	case strings.TrimSpace(update.Username) != update.Username:
+		return errors.New("username has leading or trailing whitespace")
+	case len([]rune(update.Username)) > MaxUsernameLength:
+		return fmt.Errorf("username is longer than %d characters", MaxUsernameLength)
+	case update.Rating < MinRating || update.Rating > MaxRating:
+		return fmt.Errorf("rating must be between %d and %d", MinRating, MaxRating)
 	}
+	return nil
+}
 
-	lb.mu.RLock()
-	defer lb.mu.RUnlock()
+// SetUser applies one admin edit and returns the player's new standing.
+func (lb *Leaderboard) SetUser(update UserUpdate) (SearchResult, error) {
+	if err := validateUserUpdate(update); err != nil {
+		return SearchResult{}, err
+	}
 
-	query = strings.ToLower(query)
-	var matches []SearchResult
+	lb.mu.Lock()
+	defer lb.mu.Unlock()
 
-	// Find all matching users
-	for username, user := range lb.users {
-		if strings.HasPrefix(strings.ToLower(username), query) {
-			rank := lb.CalculateRank(user.Rating)
-			matches = append(matches, SearchResult{
-				Username:   username,
-				Rating:     user.Rating,
-				GlobalRank: rank,
-			})
-		}
-	}
+	rank := lb.setRatingLocked(update.Username, update.Rating, time.Now().UnixMilli())
+	return SearchResult{Username: update.Username, Rating: update.Rating, GlobalRank: rank}, nil
+}
 
-	// Sort by rating descending to show top matches first
-	sort.Slice(matches, func(i, j int) bool {
-		return matches[i].Rating > matches[j].Rating
-	})
+// RemoveUser deletes a player and their history. Returns false if there was no
+// such player. Nothing is published to /stream: clients drop the row on their
+// next fetch.
+func (lb *Leaderboard) RemoveUser(username string) bool {
+	lb.mu.Lock()
+	defer lb.mu.Unlock()
 
-	// Limit results
-	if len(matches) > SearchLimit {
-		matches = matches[:SearchLimit]
+	user, exists := lb.users[username]
+	if !exists {
+		return false
 	}
 
-	return matches
+	lb.scoreBuckets[user.Rating]--
+	delete(lb.users, username)
+	delete(lb.history, username)
+	lb.version++
+	return true
 }
 
-// GetLeaderboard returns the top leaderboard entries
-// Reconstructs by iterating buckets from MaxRating down to MinRating
-// Does NOT use global sorting to maintain O(K) complexity
-func (lb *Leaderboard) GetLeaderboard(limit int) []LeaderboardRow {
-	lb.mu.RLock()
-	defer lb.mu.RUnlock()
+// RecordMatches rates a batch of games with Elo. Every game is scored against
+// the ratings from before the batch (one "rating period"), so the order of games
+// doesn't matter: each player's deltas are summed, rounded and clamped to
+// MinRating..MaxRating. Validation, computation and the writes happen under one
+// write lock, so nothing can change a rating in between and readers see the
+// whole batch or none of it. With dryRun the changes are computed but not applied.
+func (lb *Leaderboard) RecordMatches(report MatchReport, dryRun bool) (MatchOutcome, error) {
+	kFactor := report.KFactor
+	if kFactor == 0 {
+		kFactor = DefaultKFactor
+	}
+	switch {
+	case kFactor < 1 || kFactor > MaxKFactor:
+		return MatchOutcome{}, fmt.Errorf("k_factor must be between 1 and %d", MaxKFactor)
+	case len(report.Games) == 0:
+		return MatchOutcome{}, errors.New("at least one game required")
+	case len(report.Games) > MaxMatchGames:
+		return MatchOutcome{}, fmt.Errorf("at most %d games per request", MaxMatchGames)
+	}
 
-	var leaderboard []LeaderboardRow
-	rank := 1
-
-	// Iterate from highest rating down to lowest
-	for rating := MaxRating; rating >= MinRating && len(leaderboard) < limit; rating-- {
-		userCount := lb.scoreBuckets[rating]
-
-		// For each user at this rating, add to leaderboard
-		for i := 0; i < userCount; i++ {
-			// Find a user with this rating (for display purposes)
-			var username string
-			for u, data := range lb.users {
-				if data.Rating == rating {
-					username = u
-					delete(lb.users, u) // Temporary removal to find next user at same rating
-					break
-				}
-			}
+	lb.mu.Lock()
+	defer lb.mu.Unlock()
 
-			if username != "" {
-				leaderboard = append(leaderboard, LeaderboardRow{
-					Rank:     rank,
-					Username: username,
-					Rating:   rating,
-				})
-				// Restore user
-				lb.users[username] = &User{Username: username, Rating: rating}
+	var order []string
+	shifts := make(map[string]float64)
+	for i, game := range report.Games {
+		if game.Winner == game.Loser {
+			return MatchOutcome{}, fmt.Errorf("game %d: a player can't play themselves", i+1)
+		}
+		for _, username := range []string{game.Winner, game.Loser} {
+			if _, exists := lb.users[username]; !exists {
+				return MatchOutcome{}, fmt.Errorf("game %d: unknown player %q", i+1, username)
 			}
-
-			if len(leaderboard) >= limit {
-				break
+			if _, seen := shifts[username]; !seen {
+				shifts[username] = 0
+				order = append(order, username)
 			}
 		}
 
-		// All users with this rating share the same rank
-		rank += userCount
+		// Expected score: the chance the winner had of winning, from the gap
+		winner, loser := lb.users[game.Winner].Rating, lb.users[game.Loser].Rating
+		expected := 1 / (1 + math.Pow(10, float64(loser-winner)/400))
+		score := 1.0
+		if game.Draw {
+			score = 0.5
+		}
+		shift := kFactor * (score - expected)
+		shifts[game.Winner] += shift
+		shifts[game.Loser] -= shift
+	}
+
+	outcome := MatchOutcome{KFactor: kFactor, Applied: !dryRun, Changes: make([]RatingDelta, len(order))}
+	for i, username := range order {
+		oldRating := lb.users[username].Rating
+		rating := clampRating(oldRating + int(math.Round(shifts[username])))
+		outcome.Changes[i] = RatingDelta{
+			Username:  username,
+			OldRating: oldRating,
+			Rating:    rating,
+			Delta:     rating - oldRating,
+		}
+	}
+	if dryRun {
+		return outcome, nil
 	}
 
-	return leaderboard
+	now := time.Now().UnixMilli()
+	for _, change := range outcome.Changes {
+		if change.Delta != 0 {
+			lb.setRatingLocked(change.Username, change.Rating, now)
+		}
+	}
+	// Ranks only after every write, so they reflect the whole batch
+	for i := range outcome.Changes {
+		outcome.Changes[i].GlobalRank = lb.CalculateRank(outcome.Changes[i].Rating)
+	}
+	return outcome, nil
 }
 
-// GetTopLeaderboard returns the top N users by iterating buckets from highest
-// rating down, rather than sorting the entire user list. We chose this because:
-// - Sorting is O(N log N), scales with user count
-// - Bucket iteration is O(K) where K=5000, independent of user count
-// At scale, this difference is massive (10M users: 230M comparisons vs. 5K iterations).
-func (lb *Leaderboard) GetTopLeaderboard(limit int) []LeaderboardRow {
-	lb.mu.RLock()
+// importRow is one row of an import as parsed. err is set when the row couldn't
+// be read at all (e.g. a CSV rating that isn't a number).
+type importRow struct {
+	update UserUpdate
+	err    error
+}
 
-	// Create a temporary map of users at each rating
-	usersByRating := make(map[int][]string)
-	for username, user := range lb.users {
-		usersByRating[user.Rating] = append(usersByRating[user.Rating], username)
+// ImportUsers validates every row, then writes the valid ones under a single
+// write lock, so readers see either none of the import or all of it. Invalid
+// rows, and repeats of a username already in the import, are skipped and
+// reported.
+func (lb *Leaderboard) ImportUsers(rows []importRow) ImportResult {
+	result := ImportResult{Errors: []ImportRowError{}}
+	valid := make([]UserUpdate, 0, len(rows))
+	firstRow := make(map[string]int, len(rows))
+
+	for i, parsed := range rows {
+		row, update := i+1, parsed.update
+		err := parsed.err
+		if err == nil {
+			err = validateUserUpdate(update)
+		}
+		if err != nil {
+			result.Errors = append(result.Errors, ImportRowError{Row: row, Username: update.Username, Error: err.Error()})
+			continue
+		}
+		if first, seen := firstRow[update.Username]; seen {
+			result.Errors = append(result.Errors, ImportRowError{
+				Row:      row,
+				Username: update.Username,
+				Error:    fmt.Sprintf("duplicate of row %d", first),
+			})
+			continue
+		}
+		firstRow[update.Username] = row
+		valid = append(valid, update)
 	}
 
-	lb.mu.RUnlock()
+	lb.mu.Lock()
+	defer lb.mu.Unlock()
 
-	var leaderboard []LeaderboardRow
-	rank := 1
+	now := time.Now().UnixMilli()
+	for _, update := range valid {
+		lb.setRatingLocked(update.Username, update.Rating, now)
+	}
+	result.Imported = len(valid)
+	return result
+}
 
-	// Iterate from highest rating down
-	for rating := MaxRating; rating >= MinRating && len(leaderboard) < limit; rating-- {
-		if users, exists := usersByRating[rating]; exists {
-			// Sort users at this rating alphabetically for consistency
-			sort.Strings(users)
+// recordHistoryLocked appends a point to a user's history, dropping the oldest
+// once there are more than HistoryLimit. Caller must hold the write lock.
+func (lb *Leaderboard) recordHistoryLocked(username string, point HistoryPoint) {
+	points := append(lb.history[username], point)
+	if len(points) > HistoryLimit {
+		points = points[len(points)-HistoryLimit:]
+	}
+	lb.history[username] = points
+}
 
-			for _, username := range users {
-				if len(leaderboard) >= limit {
-					break
-				}
-				leaderboard = append(leaderboard, LeaderboardRow{
-					Rank:     rank,
-					Username: username,
-					Rating:   rating,
-				})
-			}
+// GetHistory returns a copy of a user's history, optionally only points at or
+// after `since` (unix ms; 0 means everything we have).
+func (lb *Leaderboard) GetHistory(username string, since int64) (UserHistory, bool) {
+	lb.mu.RLock()
+	defer lb.mu.RUnlock()
 
-			// This is where tie-breaking happens naturally: all users at this rating
-			// get the same rank, and we skip ahead by the count of tied users.
-			// E.g., if 3 users at rating 5000: they all get rank 1, next gets rank 4.
-			rank += len(users)
-		}
+	if _, exists := lb.users[username]; !exists {
+		return UserHistory{}, false
 	}
+	return UserHistory{
+		Username: username,
+		Points:   lb.historySinceLocked(username, since),
+	}, true
+}
 
-	return leaderboard
+// historySinceLocked copies the points at or after `since`. Caller must hold mu.
+func (lb *Leaderboard) historySinceLocked(username string, since int64) []HistoryPoint {
+	points := lb.history[username]
+	start := sort.Search(len(points), func(i int) bool {
+		return points[i].Timestamp >= since
+	})
+	return append([]HistoryPoint{}, points[start:]...)
 }
 
-// SimulateTraffic simulates live user activity (~10 random skill updates per second).
-// This runs in the background while the frontend is hammering /search and /leaderboard.
-// The mutex-protected algorithm must remain correct under this concurrent load—it's
-// not just a "nice to have," it's mandatory for production correctness.
-func (lb *Leaderboard) SimulateTraffic(stopChan <-chan struct{}) {
-	ticker := time.NewTicker(1 * time.Second)
+// SampleRanks records every user's current rank once per HistorySampleInterval.
+// A player's rank drifts whenever anyone else moves past them, and without these
+// samples their history would only show the moments *they* changed.
+func (lb *Leaderboard) SampleRanks(stopChan <-chan struct{}) {
+	ticker := time.NewTicker(HistorySampleInterval)
 	defer ticker.Stop()
 
 	for {
@@ -255,133 +690,1479 @@ func (lb *Leaderboard) SimulateTraffic(stopChan <-chan struct{}) {
 		case <-stopChan:
 			return
 		case <-ticker.C:
-			// Snapshot the user list under read lock, then release immediately
-			// so we don't hold the lock during random number generation.
-			lb.mu.RLock()
-			if len(lb.users) == 0 {
-				lb.mu.RUnlock()
-				continue
-			}
-
-			users := make([]string, 0, len(lb.users))
-			for username := range lb.users {
-				users = append(users, username)
-			}
-			lb.mu.RUnlock()
-
-			// Pick ~10 random users and give them new ratings. Each update
-			// acquires its own write lock—fine-grained locking keeps contention low.
-			updateCount := 10
-			if len(users) < updateCount {
-				updateCount = len(users)
-			}
-
-			for i := 0; i < updateCount; i++ {
-				idx := rand.Intn(len(users))
-				username := users[idx]
-				newRating := MinRating + rand.Intn(MaxRating-MinRating+1)
-				lb.AddOrUpdateUser(username, newRating)
-			}
+			lb.mu.Lock()
+			lb.recordRankSampleLocked()
+			lb.mu.Unlock()
 		}
 	}
 }
 
-// HTTP Handlers
+// ResetHistory discards all history and starts every user off with one rank
+// sample. main calls this after seeding: ranks recorded while the board was
+// half-populated are meaningless.
+func (lb *Leaderboard) ResetHistory() {
+	lb.mu.Lock()
+	defer lb.mu.Unlock()
 
-// handleSearch handles GET /search?username={query}. We return each match with
-// its *global* rank computed at request time. Frontend never caches or guesses ranks.
-func (lb *Leaderboard) handleSearch(w http.ResponseWriter, r *http.Request) {
-	w.Header().Set("Content-Type", "application/json")
+	lb.history = make(map[string][]HistoryPoint)
+	lb.recordRankSampleLocked()
+}
 
-	if r.Method == http.MethodOptions {
-		w.WriteHeader(http.StatusOK)
-		return
+// recordRankSampleLocked appends a point for every user. One O(K) prefix sum
+// over the buckets gives every rank, so the pass is O(K + N) rather than
+// O(K) per user. Caller must hold the write lock.
+func (lb *Leaderboard) recordRankSampleLocked() {
+	var above [BucketSize]int // above[r] = users rated higher than r
+	for rating := MaxRating - 1; rating >= MinRating; rating-- {
+		above[rating] = above[rating+1] + lb.scoreBuckets[rating+1]
 	}
 
-	query := r.URL.Query().Get("username")
-	if query == "" {
-		http.Error(w, "username query parameter required", http.StatusBadRequest)
-		return
+	now := time.Now().UnixMilli()
+	for username, user := range lb.users {
+		lb.recordHistoryLocked(username, HistoryPoint{
+			Timestamp: now,
+			Rating:    user.Rating,
+			Rank:      above[user.Rating] + 1,
+		})
 	}
-
-	results := lb.SearchUsers(query)
-	json.NewEncoder(w).Encode(results)
 }
 
-// handleLeaderboard handles GET /leaderboard?limit={n}. We clamp the limit to
-// prevent abuse (1 to 1000), default to 100. This ensures we never iterate over
-// more buckets than necessary.
-func (lb *Leaderboard) handleLeaderboard(w http.ResponseWriter, r *http.Request) {
-	w.Header().Set("Content-Type", "application/json")
+// Subscribe registers a listener for rating changes. The returned cancel func must
+// be called when the listener goes away, otherwise we keep publishing into a
+// channel nobody reads.
+func (lb *Leaderboard) Subscribe() (<-chan RatingChange, func()) {
+	ch := make(chan RatingChange, StreamBuffer)
 
-	if r.Method == http.MethodOptions {
-		w.WriteHeader(http.StatusOK)
-		return
+	lb.subMu.Lock()
+	lb.subscribers[ch] = struct{}{}
+	lb.subMu.Unlock()
+
+	cancel := func() {
+		lb.subMu.Lock()
+		delete(lb.subscribers, ch)
+		lb.subMu.Unlock()
 	}
+	return ch, cancel
+}
 
-	limit := 100
-	if limitStr := r.URL.Query().Get("limit"); limitStr != "" {
-		fmt.Sscanf(limitStr, "%d", &limit)
-		if limit <= 0 || limit > 1000 {
-			limit = 100
+// publish fans a change out to every subscriber without blocking. A slow client
+// loses events rather than stalling AddOrUpdateUser, which runs under the write
+// lock; its next fetch brings it back in line.
+func (lb *Leaderboard) publish(change RatingChange) {
+	lb.subMu.Lock()
+	defer lb.subMu.Unlock()
+
+	for ch := range lb.subscribers {
+		select {
+		case ch <- change:
+		default:
 		}
 	}
-
-	leaderboard := lb.GetTopLeaderboard(limit)
-	json.NewEncoder(w).Encode(leaderboard)
 }
 
-// handleStats handles GET /stats. Simple endpoint to report system state (useful during development).
-func (lb *Leaderboard) handleStats(w http.ResponseWriter, r *http.Request) {
-	w.Header().Set("Content-Type", "application/json")
-
-	if r.Method == http.MethodOptions {
-		w.WriteHeader(http.StatusOK)
-		return
+// SearchUsers searches for users by username (case-insensitive) and returns
+// their *current* global ranks. We recompute the rank on each search request
+// because the alternative (cached ranks) creates stale data if any user was
+// updated between search queries. Correctness > optimization.
+//
+// mode is SearchModePrefix, SearchModeSubstring or SearchModeFuzzy. Results are
+// ordered by relevance score, then rating, so an exact match always comes first.
+func (lb *Leaderboard) SearchUsers(query, mode string) []SearchResult {
+	if query == "" {
+		return []SearchResult{}
 	}
 
 	lb.mu.RLock()
 	defer lb.mu.RUnlock()
 
-	stats := map[string]interface{}{
-		"total_users": len(lb.users),
+	pattern := []rune(strings.ToLower(query))
+	var matches []SearchResult
+
+	// Find all matching users
+	for username, user := range lb.users {
+		score, ranges, ok := matchUsername(pattern, []rune(strings.ToLower(username)), mode)
+		if !ok {
+			continue
+		}
+		rank := lb.CalculateRank(user.Rating)
+		matches = append(matches, SearchResult{
+			Username:   username,
+			Rating:     user.Rating,
+			GlobalRank: rank,
+			Score:      score,
+			Matches:    ranges,
+		})
 	}
-	json.NewEncoder(w).Encode(stats)
-}
 
-// Main initializes and starts the leaderboard server.
-func main() {
-	rand.Seed(time.Now().UnixNano())
+	// Most relevant first; among equally good matches, top-rated first
+	sort.Slice(matches, func(i, j int) bool {
+		if matches[i].Score != matches[j].Score {
+			return matches[i].Score > matches[j].Score
+		}
+		return matches[i].Rating > matches[j].Rating
+	})
+
+	// Limit results
+	if len(matches) > SearchLimit {
+		matches = matches[:SearchLimit]
+	}
 
-	lb := NewLeaderboard()
+	return matches
+}
 
-	// Pre-populate the system with 10,000 users at random skill levels.
-	fmt.Println("Seeding 10,000 users...")
-	for i := 0; i < 10000; i++ {
-		username := fmt.Sprintf("user_%d", i)
-		rating := MinRating + rand.Intn(MaxRating-MinRating+1)
-		lb.AddOrUpdateUser(username, rating)
+// matchUsername scores one (lowercased) username against the pattern. Every mode
+// accepts the matches of the stricter modes, with their higher scores:
+//
+//	exact      1.0
+//	prefix     0.9
+//	substring  0.7
+//	fuzzy      0.5 * (1 - distance/(maxDistance+1))
+func matchUsername(pattern, name []rune, mode string) (float64, [][2]int, bool) {
+	if len(pattern) <= len(name) && string(name[:len(pattern)]) == string(pattern) {
+		if len(pattern) == len(name) {
+			return 1, [][2]int{{0, len(name)}}, true
+		}
+		return 0.9, [][2]int{{0, len(pattern)}}, true
+	}
+	if mode == SearchModePrefix {
+		return 0, nil, false
 	}
-	fmt.Printf("Seeded %d users\n", 10000)
 
-	// Start background traffic simulation (live user activity)
-	stopChan := make(chan struct{})
-	go lb.SimulateTraffic(stopChan)
+	if i := strings.Index(string(name), string(pattern)); i >= 0 {
+		start := len([]rune(string(name)[:i]))
+		return 0.7, [][2]int{{start, start + len(pattern)}}, true
+	}
+	if mode == SearchModeSubstring {
+		return 0, nil, false
+	}
 
-	// CORS Middleware - Allow all origins for development. In production, restrict to known domains.
-	corsMiddleware := func(next http.HandlerFunc) http.HandlerFunc {
-		return func(w http.ResponseWriter, r *http.Request) {
-			origin := r.Header.Get("Origin")
+	maxDistance := fuzzyDistanceFor(len(pattern))
+	distance, ranges := fuzzySubstringMatch(pattern, name, maxDistance)
+	if distance > maxDistance {
+		return 0, nil, false
+	}
+	score := 0.5 * (1 - float64(distance)/float64(maxDistance+1))
+	return math.Round(score*100) / 100, ranges, true
+}
 
-			// Allow all origins. For production, whitelist specific domains:
-			// allowedOrigins := map[string]bool{"https://sage-blini-5bb0f7.netlify.app": true, "http://localhost:3000": true}
+// fuzzyDistanceFor is how many edits a fuzzy query of n characters tolerates.
+// One typo in a two-letter query would match nearly every username.
+func fuzzyDistanceFor(n int) int {
+	switch {
+	case n <= 2:
+		return 0
+	case n <= 5:
+		return 1
+	default:
+		return MaxFuzzyDistance
+	}
+}
+
+// fuzzySubstringMatch finds the part of name closest to pattern by Levenshtein
+// distance (Sellers' algorithm: the match may start and end anywhere in name).
+// It returns that distance and the rune ranges of name that the alignment
+// matched exactly. O(len(pattern) * len(name)); gives up early, returning
+// maxDistance+1, once no alignment can stay within maxDistance.
+func fuzzySubstringMatch(pattern, name []rune, maxDistance int) (int, [][2]int) {
+	m, n := len(pattern), len(name)
+	// dist[i][j]: edits to turn pattern[:i] into some substring of name ending at j
+	dist := make([][]int, m+1)
+	for i := range dist {
+		dist[i] = make([]int, n+1)
+		dist[i][0] = i
+	}
+
+	for i := 1; i <= m; i++ {
+		rowMin := dist[i][0]
+		for j := 1; j <= n; j++ {
+			cost := 1
+			if pattern[i-1] == name[j-1] {
+				cost = 0
+			}
+			best := dist[i-1][j-1] + cost
+			if d := dist[i-1][j] + 1; d < best {
+				best = d
+			}
+			if d := dist[i][j-1] + 1; d < best {
+				best = d
+			}
+			dist[i][j] = best
+			if best < rowMin {
+				rowMin = best
+			}
+		}
+		if rowMin > maxDistance {
+			return maxDistance + 1, nil
+		}
+	}
+
+	end := 0
+	for j := 1; j <= n; j++ {
+		if dist[m][j] < dist[m][end] {
+			end = j
+		}
+	}
+
+	// Walk the alignment back, collecting positions where characters matched
+	var matched []int
+	i, j := m, end
+	for i > 0 && j > 0 {
+		switch {
+		case pattern[i-1] == name[j-1] && dist[i][j] == dist[i-1][j-1]:
+			matched = append(matched, j-1)
+			i, j = i-1, j-1
+		case dist[i][j] == dist[i-1][j-1]+1:
+			i, j = i-1, j-1
+		case dist[i][j] == dist[i-1][j]+1:
+			i--
+		default:
+			j--
+		}
+	}
+
+	// matched is in reverse order; merge adjacent positions into ranges
+	var ranges [][2]int
+	for k := len(matched) - 1; k >= 0; k-- {
+		pos := matched[k]
+		if len(ranges) > 0 && ranges[len(ranges)-1][1] == pos {
+			ranges[len(ranges)-1][1] = pos + 1
+		} else {
+			ranges = append(ranges, [2]int{pos, pos + 1})
+		}
+	}
+	return dist[m][end], ranges
+}
+
+// rowsAtLocked returns the rows at positions [offset, offset+count) in leaderboard
+// order (rating descending, ties alphabetical). Bucket counts tell us which rating
+// band covers those positions, so we only collect usernames inside that band
+// instead of ordering every user. Caller must hold lb.mu.
+func (lb *Leaderboard) rowsAtLocked(offset, count int) []LeaderboardRow {
+	if offset < 0 {
+		count += offset
+		offset = 0
+	}
+	if count <= 0 {
+		return []LeaderboardRow{}
+	}
+
+	// Walk buckets from the top to find the highest and lowest rating we need.
+	end := offset + count
+	seen := 0
+	hi, lo := -1, MinRating
+	for rating := MaxRating; rating >= MinRating; rating-- {
+		n := lb.scoreBuckets[rating]
+		if n == 0 {
+			continue
+		}
+		if hi == -1 && seen+n > offset {
+			hi = rating
+		}
+		seen += n
+		if seen >= end {
+			lo = rating
+			break
+		}
+	}
+	if hi == -1 {
+		return []LeaderboardRow{}
+	}
+
+	usersByRating := make(map[int][]string)
+	for username, user := range lb.users {
+		if user.Rating >= lo && user.Rating <= hi {
+			usersByRating[user.Rating] = append(usersByRating[user.Rating], username)
+		}
+	}
+
+	rows := make([]LeaderboardRow, 0, count)
+	pos := lb.CalculateRank(hi) - 1 // players ranked above the band
+	for rating := hi; rating >= lo && len(rows) < count; rating-- {
+		users := usersByRating[rating]
+		sort.Strings(users)
+		rank := pos + 1
+		for _, username := range users {
+			if pos >= offset && len(rows) < count {
+				rows = append(rows, LeaderboardRow{
+					Rank:     rank,
+					Username: username,
+					Rating:   rating,
+				})
+			}
+			pos++
+		}
+	}
+
+	return rows
+}
+
+// positionLocked returns the zero-based position of a user in leaderboard order.
+// Rank alone isn't enough here: tied players share a rank, so we also count the
+// tied players that sort before this one alphabetically. Caller must hold lb.mu.
+func (lb *Leaderboard) positionLocked(user *User) int {
+	pos := lb.CalculateRank(user.Rating) - 1
+	for username, other := range lb.users {
+		if other.Rating == user.Rating && username < user.Username {
+			pos++
+		}
+	}
+	return pos
+}
+
+// GetPlayerProfile looks up a single user by exact username and returns their live
+// rank, percentile and up to `neighbors` players on either side. Percentile is the
+// share of the field this player ranks at or above, so rank #1 is always 100.
+func (lb *Leaderboard) GetPlayerProfile(username string, neighbors int) (PlayerProfile, bool) {
+	lb.mu.RLock()
+	defer lb.mu.RUnlock()
+
+	user, exists := lb.users[username]
+	if !exists {
+		return PlayerProfile{}, false
+	}
+
+	total := len(lb.users)
+	rank := lb.CalculateRank(user.Rating)
+	percentile := float64(total-rank+1) / float64(total) * 100
+
+	pos := lb.positionLocked(user)
+	aboveStart := pos - neighbors
+	if aboveStart < 0 {
+		aboveStart = 0
+	}
+
+	return PlayerProfile{
+		Username:   user.Username,
+		Rating:     user.Rating,
+		GlobalRank: rank,
+		Percentile: math.Round(percentile*100) / 100,
+		TotalUsers: total,
+		Above:      lb.rowsAtLocked(aboveStart, pos-aboveStart),
+		Below:      lb.rowsAtLocked(pos+1, neighbors),
+	}, true
+}
+
+// TakeSnapshot freezes the current leaderboard ordering for paging. If nothing
+// has changed since the newest snapshot, that one is reused instead of copying
+// every row again. Expired snapshots are dropped here, and if we're still over
+// MaxSnapshots the oldest go first.
+func (lb *Leaderboard) TakeSnapshot() *leaderboardSnapshot {
+	lb.mu.RLock()
+	version := lb.version
+	lb.snapMu.Lock()
+	for _, snap := range lb.snapshots {
+		if snap.version == version && time.Since(snap.createdAt) < SnapshotTTL {
+			lb.snapMu.Unlock()
+			lb.mu.RUnlock()
+			return snap
+		}
+	}
+	lb.snapMu.Unlock()
+
+	rows := lb.rowsAtLocked(0, len(lb.users))
+	lb.mu.RUnlock()
+
+	lb.snapMu.Lock()
+	defer lb.snapMu.Unlock()
+
+	lb.snapSeq++
+	snap := &leaderboardSnapshot{
+		id:        fmt.Sprintf("%d.%d", lb.snapSeq, version),
+		version:   version,
+		createdAt: time.Now(),
+		rows:      rows,
+	}
+
+	for id, old := range lb.snapshots {
+		if time.Since(old.createdAt) >= SnapshotTTL {
+			delete(lb.snapshots, id)
+		}
+	}
+	for len(lb.snapshots) >= MaxSnapshots {
+		var oldest *leaderboardSnapshot
+		for _, old := range lb.snapshots {
+			if oldest == nil || old.createdAt.Before(oldest.createdAt) {
+				oldest = old
+			}
+		}
+		delete(lb.snapshots, oldest.id)
+	}
+
+	lb.snapshots[snap.id] = snap
+	return snap
+}
+
+// GetSnapshot returns a previously taken snapshot, or false once it has expired.
+func (lb *Leaderboard) GetSnapshot(id string) (*leaderboardSnapshot, bool) {
+	lb.snapMu.Lock()
+	defer lb.snapMu.Unlock()
+
+	snap, exists := lb.snapshots[id]
+	if !exists || time.Since(snap.createdAt) >= SnapshotTTL {
+		return nil, false
+	}
+	return snap, true
+}
+
+// Page slices [offset, offset+limit) out of the snapshot.
+func (snap *leaderboardSnapshot) Page(offset, limit int) LeaderboardPage {
+	total := len(snap.rows)
+	if offset > total {
+		offset = total
+	}
+	end := offset + limit
+	if end > total {
+		end = total
+	}
+
+	return LeaderboardPage{
+		Entries:    snap.rows[offset:end],
+		Snapshot:   snap.id,
+		CreatedAt:  snap.createdAt.UnixMilli(),
+		Offset:     offset,
+		NextOffset: end,
+		HasMore:    end < total,
+		Total:      total,
+	}
+}
+
+// Filter narrows the snapshot to players rated minRating..maxRating (inclusive).
+// Rows are sorted by rating, so the band is one contiguous run found by binary
+// search, and the result shares the snapshot's rows, id and global ranks: paging,
+// IndexOfRank and Window then work within the band.
+func (snap *leaderboardSnapshot) Filter(minRating, maxRating int) *leaderboardSnapshot {
+	if minRating <= MinRating && maxRating >= MaxRating {
+		return snap
+	}
+
+	start := sort.Search(len(snap.rows), func(i int) bool {
+		return snap.rows[i].Rating <= maxRating
+	})
+	end := sort.Search(len(snap.rows), func(i int) bool {
+		return snap.rows[i].Rating < minRating
+	})
+	if end < start {
+		end = start
+	}
+
+	filtered := *snap
+	filtered.rows = snap.rows[start:end]
+	return &filtered
+}
+
+// IndexOfRank returns the index of the first row ranked at or below `rank`. Ranks
+// are non-decreasing down the snapshot, so this is a binary search. Asking for a
+// rank past the bottom lands on the last row.
+func (snap *leaderboardSnapshot) IndexOfRank(rank int) int {
+	idx := sort.Search(len(snap.rows), func(i int) bool {
+		return snap.rows[i].Rank >= rank
+	})
+	if idx == len(snap.rows) && idx > 0 {
+		idx--
+	}
+	return idx
+}
+
+// IndexOfUser returns the row index of a username in the snapshot.
+func (snap *leaderboardSnapshot) IndexOfUser(username string) (int, bool) {
+	for i, row := range snap.rows {
+		if row.Username == username {
+			return i, true
+		}
+	}
+	return 0, false
+}
+
+// Window returns the rows within `radius` of index, clipped at both ends.
+func (snap *leaderboardSnapshot) Window(index, radius int) LeaderboardWindow {
+	start := index - radius
+	if start < 0 {
+		start = 0
+	}
+
+	return LeaderboardWindow{
+		LeaderboardPage: snap.Page(start, index-start+radius+1),
+		TargetIndex:     index - start,
+	}
+}
+
+// LookupUsers resolves a list of exact usernames in one read, so every rank in the
+// result is taken at the same moment. This replaces firing one prefix search per
+// name, which costs N requests and can match unrelated players.
+//
+// With historySince > 0, each found player's history points at or after that
+// time (unix ms) are included too.
+func (lb *Leaderboard) LookupUsers(usernames []string, historySince int64) BatchLookup {
+	lb.mu.RLock()
+	defer lb.mu.RUnlock()
+
+	result := BatchLookup{
+		Players:    []SearchResult{},
+		Missing:    []string{},
+		TotalUsers: len(lb.users),
+	}
+
+	seen := make(map[string]bool, len(usernames))
+	for _, username := range usernames {
+		if seen[username] {
+			continue
+		}
+		seen[username] = true
+
+		user, exists := lb.users[username]
+		if !exists {
+			result.Missing = append(result.Missing, username)
+			continue
+		}
+		result.Players = append(result.Players, SearchResult{
+			Username:   user.Username,
+			Rating:     user.Rating,
+			GlobalRank: lb.CalculateRank(user.Rating),
+		})
+
+		if historySince > 0 {
+			if result.History == nil {
+				result.History = make(map[string][]HistoryPoint)
+			}
+			result.History[username] = lb.historySinceLocked(username, historySince)
+		}
+	}
+
+	return result
+}
+
+// ComparePlayers reads several players and the gaps between them in one go, so
+// every rank and gap describes the same moment. Usernames must be distinct.
+// Unknown usernames are returned in missing (and the comparison left empty).
+//
+// With historySince > 0, each player's history points at or after that time
+// (unix ms) are included too.
+func (lb *Leaderboard) ComparePlayers(usernames []string, historySince int64) (Comparison, []string) {
+	lb.mu.RLock()
+	defer lb.mu.RUnlock()
+
+	users := make([]*User, 0, len(usernames))
+	missing := []string{}
+	for _, username := range usernames {
+		user, exists := lb.users[username]
+		if !exists {
+			missing = append(missing, username)
+			continue
+		}
+		users = append(users, user)
+	}
+	if len(missing) > 0 {
+		return Comparison{}, missing
+	}
+
+	result := Comparison{
+		Players:    make([]SearchResult, 0, len(users)),
+		Gaps:       []ComparisonGap{},
+		TotalUsers: len(lb.users),
+	}
+	for i, user := range users {
+		result.Players = append(result.Players, SearchResult{
+			Username:   user.Username,
+			Rating:     user.Rating,
+			GlobalRank: lb.CalculateRank(user.Rating),
+		})
+
+		for _, other := range users[i+1:] {
+			higher, lower := user, other
+			if other.Rating > user.Rating {
+				higher, lower = other, user
+			}
+			result.Gaps = append(result.Gaps, ComparisonGap{
+				Higher:         higher.Username,
+				Lower:          lower.Username,
+				RatingGap:      higher.Rating - lower.Rating,
+				PlayersBetween: lb.countBetweenLocked(lower.Rating, higher.Rating),
+			})
+		}
+
+		if historySince > 0 {
+			if result.History == nil {
+				result.History = make(map[string][]HistoryPoint)
+			}
+			result.History[user.Username] = lb.historySinceLocked(user.Username, historySince)
+		}
+	}
+
+	return result, nil
+}
+
+// countBetweenLocked counts players rated strictly between low and high. Like
+// CalculateRank it walks the buckets, so it's O(K) however many players there
+// are. Caller must hold lb.mu.
+func (lb *Leaderboard) countBetweenLocked(low, high int) int {
+	count := 0
+	for rating := low + 1; rating < high; rating++ {
+		count += lb.scoreBuckets[rating]
+	}
+	return count
+}
+
+// GetStats builds the rating histogram (grouped into bucketWidth-point bins), the
+// mean and median, and the rating cutoff for each requested percentile. Percentiles
+// use the nearest-rank method: the cutoff for p is the rating of the player at
+// position ceil(p/100 * N) counting from the lowest rating up.
+func (lb *Leaderboard) GetStats(bucketWidth int, percentiles []float64) LeaderboardStats {
+	lb.mu.RLock()
+	defer lb.mu.RUnlock()
+
+	total := len(lb.users)
+	stats := LeaderboardStats{
+		TotalUsers:   total,
+		BucketWidth:  bucketWidth,
+		Distribution: []DistributionBucket{},
+		Percentiles:  []PercentileCutoff{},
+	}
+
+	sum := 0
+	for start := MinRating; start <= MaxRating; start += bucketWidth {
+		end := start + bucketWidth - 1
+		if end > MaxRating {
+			end = MaxRating
+		}
+
+		bucket := DistributionBucket{MinRating: start, MaxRating: end}
+		for rating := start; rating <= end; rating++ {
+			bucket.Count += lb.scoreBuckets[rating]
+			sum += rating * lb.scoreBuckets[rating]
+		}
+		stats.Distribution = append(stats.Distribution, bucket)
+	}
+
+	if total == 0 {
+		return stats
+	}
+
+	stats.Mean = math.Round(float64(sum)/float64(total)*100) / 100
+
+	// Rating of the player at 1-based position `pos`, lowest rating first.
+	ratingAt := func(pos int) int {
+		seen := 0
+		for rating := MinRating; rating <= MaxRating; rating++ {
+			seen += lb.scoreBuckets[rating]
+			if seen >= pos {
+				return rating
+			}
+		}
+		return MaxRating
+	}
+
+	if total%2 == 1 {
+		stats.Median = float64(ratingAt(total/2 + 1))
+	} else {
+		stats.Median = float64(ratingAt(total/2)+ratingAt(total/2+1)) / 2
+	}
+
+	for _, p := range percentiles {
+		pos := int(math.Ceil(p / 100 * float64(total)))
+		if pos < 1 {
+			pos = 1
+		}
+		stats.Percentiles = append(stats.Percentiles, PercentileCutoff{
+			Percentile: p,
+			Rating:     ratingAt(pos),
+		})
+	}
+
+	return stats
+}
+
+// SimulateTraffic simulates live user activity (~10 random skill updates per second).
+// This runs in the background while the frontend is hammering /search and /leaderboard.
+// The mutex-protected algorithm must remain correct under this concurrent load—it's
+// not just a "nice to have," it's mandatory for production correctness.
+func (lb *Leaderboard) SimulateTraffic(stopChan <-chan struct{}) {
+	ticker := time.NewTicker(1 * time.Second)
+	defer ticker.Stop()
+
+	for {
+		select {
+		case <-stopChan:
+			return
+		case <-ticker.C:
+			// Snapshot the user list under read lock, then release immediately
+			// so we don't hold the lock during random number generation.
+			lb.mu.RLock()
+			if len(lb.users) == 0 {
+				lb.mu.RUnlock()
+				continue
+			}
+
+			users := make([]string, 0, len(lb.users))
+			for username := range lb.users {
+				users = append(users, username)
+			}
+			lb.mu.RUnlock()
+
+			// Pick ~10 random users and give them new ratings. Each update
+			// acquires its own write lock—fine-grained locking keeps contention low.
+			updateCount := 10
+			if len(users) < updateCount {
+				updateCount = len(users)
+			}
+
+			for i := 0; i < updateCount; i++ {
+				idx := rand.Intn(len(users))
+				username := users[idx]
+				newRating := MinRating + rand.Intn(MaxRating-MinRating+1)
+				lb.AddOrUpdateUser(username, newRating)
+			}
+		}
+	}
+}
+
+// HTTP Handlers
+
+// route adapts a per-board handler into one that serves every board: it picks the
+// board named by ?board={id} (the default board if absent) and 404s on unknown ids.
+// The handlers themselves stay methods on *Leaderboard and know nothing of boards.
+func (reg *BoardRegistry) route(handler func(*Leaderboard, http.ResponseWriter, *http.Request)) http.HandlerFunc {
+	return func(w http.ResponseWriter, r *http.Request) {
+		lb, exists := reg.Get(r.URL.Query().Get("board"))
+		if !exists {
+			http.Error(w, "unknown board", http.StatusNotFound)
+			return
+		}
+		handler(lb, w, r)
+	}
+}
+
+// handleBoards handles GET /boards: every board's id, display name and size, plus
+// which one requests without ?board= get.
+func (reg *BoardRegistry) handleBoards(w http.ResponseWriter, r *http.Request) {
+	w.Header().Set("Content-Type", "application/json")
+
+	if r.Method == http.MethodOptions {
+		w.WriteHeader(http.StatusOK)
+		return
+	}
+
+	json.NewEncoder(w).Encode(reg.List())
+}
+
+// handleSearch handles GET /search?username={query}&mode={prefix|substring|fuzzy}.
+// We return each match with its *global* rank computed at request time. Frontend
+// never caches or guesses ranks. mode defaults to prefix.
+func (lb *Leaderboard) handleSearch(w http.ResponseWriter, r *http.Request) {
+	w.Header().Set("Content-Type", "application/json")
+
+	if r.Method == http.MethodOptions {
+		w.WriteHeader(http.StatusOK)
+		return
+	}
+
+	query := r.URL.Query().Get("username")
+	if query == "" {
+		http.Error(w, "username query parameter required", http.StatusBadRequest)
+		return
+	}
+
+	mode := r.URL.Query().Get("mode")
+	switch mode {
+	case "":
+		mode = SearchModePrefix
+	case SearchModePrefix, SearchModeSubstring, SearchModeFuzzy:
+	default:
+		http.Error(w, "mode must be prefix, substring or fuzzy", http.StatusBadRequest)
+		return
+	}
+
+	results := lb.SearchUsers(query, mode)
+	json.NewEncoder(w).Encode(results)
+}
+
+// parseRatingRange reads the optional min_rating/max_rating filter shared by the
+// leaderboard endpoints. Missing bounds default to the full rating range, and
+// bounds outside it are clamped.
+func parseRatingRange(r *http.Request) (int, int, error) {
+	query := r.URL.Query()
+	minRating, maxRating := MinRating, MaxRating
+
+	if minStr := query.Get("min_rating"); minStr != "" {
+		if _, err := fmt.Sscanf(minStr, "%d", &minRating); err != nil {
+			return 0, 0, fmt.Errorf("min_rating must be an integer")
+		}
+	}
+	if maxStr := query.Get("max_rating"); maxStr != "" {
+		if _, err := fmt.Sscanf(maxStr, "%d", &maxRating); err != nil {
+			return 0, 0, fmt.Errorf("max_rating must be an integer")
+		}
+	}
+	minRating = clampRating(minRating)
+	maxRating = clampRating(maxRating)
+	if minRating > maxRating {
+		return 0, 0, fmt.Errorf("min_rating must not exceed max_rating")
+	}
+
+	return minRating, maxRating, nil
+}
+
+func clampRating(rating int) int {
+	if rating < MinRating {
+		return MinRating
+	}
+	if rating > MaxRating {
+		return MaxRating
+	}
+	return rating
+}
+
+// handleLeaderboard handles GET /leaderboard?limit={n}&offset={o}&snapshot={id}.
+// The first request (no snapshot) freezes the current ordering and returns its id;
+// later pages pass that id back so rows can't shift between pages while ratings
+// change underneath. An expired snapshot is 410 Gone: start over from the top.
+// Limit is clamped to 1..1000 per page (default 100), but offset is unbounded, so
+// every rank is reachable.
+//
+// min_rating/max_rating restrict the board to a rating band. Ranks stay global
+// (the top of the 2000-2500 band might be #3120), while offset, next_offset and
+// total count rows within the band. Send the same filter with every page.
+func (lb *Leaderboard) handleLeaderboard(w http.ResponseWriter, r *http.Request) {
+	w.Header().Set("Content-Type", "application/json")
+
+	if r.Method == http.MethodOptions {
+		w.WriteHeader(http.StatusOK)
+		return
+	}
+
+	query := r.URL.Query()
+
+	limit := DefaultPageSize
+	if limitStr := query.Get("limit"); limitStr != "" {
+		fmt.Sscanf(limitStr, "%d", &limit)
+		if limit <= 0 || limit > MaxPageSize {
+			limit = DefaultPageSize
+		}
+	}
+
+	offset := 0
+	if offsetStr := query.Get("offset"); offsetStr != "" {
+		fmt.Sscanf(offsetStr, "%d", &offset)
+		if offset < 0 {
+			offset = 0
+		}
+	}
+
+	minRating, maxRating, err := parseRatingRange(r)
+	if err != nil {
+		http.Error(w, err.Error(), http.StatusBadRequest)
+		return
+	}
+
+	var snap *leaderboardSnapshot
+	if id := query.Get("snapshot"); id != "" {
+		var found bool
+		if snap, found = lb.GetSnapshot(id); !found {
+			http.Error(w, "snapshot expired", http.StatusGone)
+			return
+		}
+	} else {
+		snap = lb.TakeSnapshot()
+	}
+
+	json.NewEncoder(w).Encode(snap.Filter(minRating, maxRating).Page(offset, limit))
+}
+
+// csvSafe keeps a spreadsheet from running a CSV field as a formula: text that
+// starts with =, +, -, @, tab or CR gets a leading ' so it opens as plain text.
+// Only player-supplied text needs it; the numbers are written by us.
+func csvSafe(field string) string {
+	if field != "" && strings.ContainsRune("=+-@\t\r", rune(field[0])) {
+		return "'" + field
+	}
+	return field
+}
+
+// handleLeaderboardExport handles GET /leaderboard/export?format={csv|json}: the
+// whole board (or the min_rating/max_rating band) as a file download, for
+// spreadsheets and reports. Unlike /leaderboard there is no page cap. Rows come
+// from one fresh snapshot and are streamed as they're encoded, so a million-row
+// board costs the same memory as a ten-row one. Every row carries exported_at,
+// the moment the snapshot was taken.
+func (lb *Leaderboard) handleLeaderboardExport(w http.ResponseWriter, r *http.Request) {
+	format := r.URL.Query().Get("format")
+	if format == "" {
+		format = "csv"
+	}
+	if format != "csv" && format != "json" {
+		http.Error(w, "format must be csv or json", http.StatusBadRequest)
+		return
+	}
+
+	minRating, maxRating, err := parseRatingRange(r)
+	if err != nil {
+		http.Error(w, err.Error(), http.StatusBadRequest)
+		return
+	}
+
+	snap := lb.TakeSnapshot().Filter(minRating, maxRating)
+	exportedAt := snap.createdAt.UTC().Format(time.RFC3339)
+
+	name := "leaderboard"
+	if board := r.URL.Query().Get("board"); board != "" {
+		name += "-" + board
+	}
+	name += "-" + snap.createdAt.UTC().Format("20060102-150405") + "." + format
+
+	if format == "csv" {
+		w.Header().Set("Content-Type", "text/csv; charset=utf-8")
+	} else {
+		w.Header().Set("Content-Type", "application/json")
+	}
+	w.Header().Set("Content-Disposition", fmt.Sprintf("attachment; filename=%q", name))
+
+	// Push what's been encoded so far to the client
+	flusher, _ := w.(http.Flusher)
+	flush := func() {
+		if flusher != nil {
+			flusher.Flush()
+		}
+	}
+
+	// A write error means the client went away; there is no one left to tell
+	if format == "csv" {
+		out := csv.NewWriter(w)
+		out.Write([]string{"rank", "username", "rating", "exported_at"})
+		for i, row := range snap.rows {
+			out.Write([]string{strconv.Itoa(row.Rank), csvSafe(row.Username), strconv.Itoa(row.Rating), exportedAt})
+			if (i+1)%ExportFlushRows == 0 {
+				out.Flush()
+				flush()
+			}
+		}
+		out.Flush()
+		return
+	}
+
+	// {"exported_at": ..., "total": N, "entries": [...]}, written row by row
+	fmt.Fprintf(w, "{\"exported_at\":%q,\"total\":%d,\"entries\":[", exportedAt, len(snap.rows))
+	for i, row := range snap.rows {
+		if i > 0 {
+			io.WriteString(w, ",")
+		}
+		entry, _ := json.Marshal(row)
+		w.Write(entry)
+		if (i+1)%ExportFlushRows == 0 {
+			flush()
+		}
+	}
+	io.WriteString(w, "]}\n")
+}
+
+// handleLeaderboardAround handles GET /leaderboard/around?rank={n}&radius={k} or
+// ?username={name}&radius={k}. It returns ranks N-k..N+k (or the rows around a
+// player) so the client can show a slice far below the top without paging down
+// to it. Like /leaderboard it reads from a snapshot (pass snapshot={id} to reuse
+// one), and the result can be paged further in either direction.
+//
+// min_rating/max_rating work as on /leaderboard: the window is taken from within
+// the band, and a player outside it is 404.
+func (lb *Leaderboard) handleLeaderboardAround(w http.ResponseWriter, r *http.Request) {
+	w.Header().Set("Content-Type", "application/json")
+
+	if r.Method == http.MethodOptions {
+		w.WriteHeader(http.StatusOK)
+		return
+	}
+
+	query := r.URL.Query()
+	rankStr, username := query.Get("rank"), query.Get("username")
+	if rankStr == "" && username == "" {
+		http.Error(w, "rank or username query parameter required", http.StatusBadRequest)
+		return
+	}
+
+	radius := DefaultWindowRadius
+	if radiusStr := query.Get("radius"); radiusStr != "" {
+		fmt.Sscanf(radiusStr, "%d", &radius)
+		if radius < 0 || radius > MaxWindowRadius {
+			radius = DefaultWindowRadius
+		}
+	}
+
+	minRating, maxRating, err := parseRatingRange(r)
+	if err != nil {
+		http.Error(w, err.Error(), http.StatusBadRequest)
+		return
+	}
+
+	var snap *leaderboardSnapshot
+	if id := query.Get("snapshot"); id != "" {
+		var found bool
+		if snap, found = lb.GetSnapshot(id); !found {
+			http.Error(w, "snapshot expired", http.StatusGone)
+			return
+		}
+	} else {
+		snap = lb.TakeSnapshot()
+	}
+	snap = snap.Filter(minRating, maxRating)
+
+	var index int
+	if username != "" {
+		var found bool
+		if index, found = snap.IndexOfUser(username); !found {
+			http.Error(w, "user not found", http.StatusNotFound)
+			return
+		}
+	} else {
+		rank := 0
+		fmt.Sscanf(rankStr, "%d", &rank)
+		if rank < 1 {
+			http.Error(w, "rank must be a positive integer", http.StatusBadRequest)
+			return
+		}
+		index = snap.IndexOfRank(rank)
+	}
+
+	json.NewEncoder(w).Encode(snap.Window(index, radius))
+}
+
+// handleUser handles GET /user?username={name}&neighbors={n}. Unlike /search this is
+// an exact, case-sensitive match: support staff paste a handle and want that player,
+// not everyone who shares a prefix with them.
+func (lb *Leaderboard) handleUser(w http.ResponseWriter, r *http.Request) {
+	w.Header().Set("Content-Type", "application/json")
+
+	if r.Method == http.MethodOptions {
+		w.WriteHeader(http.StatusOK)
+		return
+	}
+
+	username := r.URL.Query().Get("username")
+	if username == "" {
+		http.Error(w, "username query parameter required", http.StatusBadRequest)
+		return
+	}
+
+	neighbors := DefaultNeighbors
+	if neighborsStr := r.URL.Query().Get("neighbors"); neighborsStr != "" {
+		fmt.Sscanf(neighborsStr, "%d", &neighbors)
+		if neighbors < 0 || neighbors > MaxNeighbors {
+			neighbors = DefaultNeighbors
+		}
+	}
+
+	profile, found := lb.GetPlayerProfile(username, neighbors)
+	if !found {
+		http.Error(w, "user not found", http.StatusNotFound)
+		return
+	}
+
+	json.NewEncoder(w).Encode(profile)
+}
+
+// handleUsers handles GET /users?username={a}&username={b}... (up to 100 names).
+// Batch version of /user without neighbors, for clients that track a fixed set of
+// players (like a watchlist) and want all their live ranks in one round trip.
+// history_since={unix ms} also returns each player's recent history.
+func (lb *Leaderboard) handleUsers(w http.ResponseWriter, r *http.Request) {
+	w.Header().Set("Content-Type", "application/json")
+
+	if r.Method == http.MethodOptions {
+		w.WriteHeader(http.StatusOK)
+		return
+	}
+
+	usernames := r.URL.Query()["username"]
+	if len(usernames) == 0 {
+		http.Error(w, "at least one username query parameter required", http.StatusBadRequest)
+		return
+	}
+	if len(usernames) > MaxBatchLookup {
+		http.Error(w, fmt.Sprintf("at most %d usernames per request", MaxBatchLookup), http.StatusBadRequest)
+		return
+	}
+
+	var historySince int64
+	if sinceStr := r.URL.Query().Get("history_since"); sinceStr != "" {
+		fmt.Sscanf(sinceStr, "%d", &historySince)
+	}
+
+	json.NewEncoder(w).Encode(lb.LookupUsers(usernames, historySince))
+}
+
+// handleCompare handles GET /compare?username={a}&username={b}... (2 to 4 distinct
+// names). Returns the players' live ratings and ranks with the rating gap and the
+// number of players between every pair, all from one read, so no rank is taken
+// at a different moment from the others. history_since={unix ms} also returns
+// each player's recent history. An unknown player is a 404 naming them.
+func (lb *Leaderboard) handleCompare(w http.ResponseWriter, r *http.Request) {
+	w.Header().Set("Content-Type", "application/json")
+
+	if r.Method == http.MethodOptions {
+		w.WriteHeader(http.StatusOK)
+		return
+	}
+
+	usernames := r.URL.Query()["username"]
+	if len(usernames) < MinComparePlayers || len(usernames) > MaxComparePlayers {
+		http.Error(w, fmt.Sprintf("between %d and %d username query parameters required", MinComparePlayers, MaxComparePlayers), http.StatusBadRequest)
+		return
+	}
+	seen := make(map[string]bool, len(usernames))
+	for _, username := range usernames {
+		if seen[username] {
+			http.Error(w, "usernames must be distinct", http.StatusBadRequest)
+			return
+		}
+		seen[username] = true
+	}
+
+	var historySince int64
+	if sinceStr := r.URL.Query().Get("history_since"); sinceStr != "" {
+		fmt.Sscanf(sinceStr, "%d", &historySince)
+	}
+
+	comparison, missing := lb.ComparePlayers(usernames, historySince)
+	if len(missing) > 0 {
+		http.Error(w, "user not found: "+strings.Join(missing, ", "), http.StatusNotFound)
+		return
+	}
+
+	json.NewEncoder(w).Encode(comparison)
+}
+
+// handleHistory handles GET /history?username={name}&since={unix ms}. Returns the
+// player's recorded rating changes and periodic rank samples, oldest first.
+func (lb *Leaderboard) handleHistory(w http.ResponseWriter, r *http.Request) {
+	w.Header().Set("Content-Type", "application/json")
+
+	if r.Method == http.MethodOptions {
+		w.WriteHeader(http.StatusOK)
+		return
+	}
+
+	username := r.URL.Query().Get("username")
+	if username == "" {
+		http.Error(w, "username query parameter required", http.StatusBadRequest)
+		return
+	}
+
+	var since int64
+	if sinceStr := r.URL.Query().Get("since"); sinceStr != "" {
+		fmt.Sscanf(sinceStr, "%d", &since)
+	}
+
+	history, found := lb.GetHistory(username, since)
+	if !found {
+		http.Error(w, "user not found", http.StatusNotFound)
+		return
+	}
+
+	json.NewEncoder(w).Encode(history)
+}
+
+// handleStream handles GET /stream, a Server-Sent Events feed of rating changes.
+// We use SSE rather than WebSocket because it's one-way (server → client), works
+// through the existing CORS middleware, and needs nothing beyond net/http.
+func (lb *Leaderboard) handleStream(w http.ResponseWriter, r *http.Request) {
+	flusher, ok := w.(http.Flusher)
+	if !ok {
+		http.Error(w, "streaming unsupported", http.StatusInternalServerError)
+		return
+	}
+
+	w.Header().Set("Content-Type", "text/event-stream")
+	w.Header().Set("Cache-Control", "no-cache")
+	w.Header().Set("Connection", "keep-alive")
+	w.Header().Set("X-Accel-Buffering", "no") // stop reverse proxies from buffering
+
+	changes, cancel := lb.Subscribe()
+	defer cancel()
+
+	// Open the stream immediately so clients know the connection is live
+	fmt.Fprint(w, ": connected\n\n")
+	flusher.Flush()
+
+	heartbeat := time.NewTicker(StreamHeartbeat)
+	defer heartbeat.Stop()
+
+	for {
+		select {
+		case <-r.Context().Done():
+			return
+		case <-heartbeat.C:
+			fmt.Fprint(w, ": ping\n\n")
+			flusher.Flush()
+		case change := <-changes:
+			payload, err := json.Marshal(change)
+			if err != nil {
+				continue
+			}
+			fmt.Fprintf(w, "event: rating\ndata: %s\n\n", payload)
+			flusher.Flush()
+		}
+	}
+}
+
+// handleStats handles GET /stats?bucket_width={w}&percentiles={p1,p2,...}. Reports
+// the player count plus the rating distribution: a histogram in w-point bins
+// (default 100), mean, median and the requested percentile cutoffs (each in
+// (0, 100], default 10,25,50,75,90,99).
+func (lb *Leaderboard) handleStats(w http.ResponseWriter, r *http.Request) {
+	w.Header().Set("Content-Type", "application/json")
+
+	if r.Method == http.MethodOptions {
+		w.WriteHeader(http.StatusOK)
+		return
+	}
+
+	query := r.URL.Query()
+
+	bucketWidth := DefaultStatsBucketWidth
+	if widthStr := query.Get("bucket_width"); widthStr != "" {
+		fmt.Sscanf(widthStr, "%d", &bucketWidth)
+		if bucketWidth <= 0 || bucketWidth > MaxStatsBucketWidth {
+			bucketWidth = DefaultStatsBucketWidth
+		}
+	}
+
+	percentiles := DefaultStatsPercentiles
+	if percentilesStr := query.Get("percentiles"); percentilesStr != "" {
+		parts := strings.Split(percentilesStr, ",")
+		if len(parts) > MaxStatsPercentiles {
+			http.Error(w, fmt.Sprintf("at most %d percentiles allowed", MaxStatsPercentiles), http.StatusBadRequest)
+			return
+		}
+
+		percentiles = make([]float64, 0, len(parts))
+		for _, part := range parts {
+			p, err := strconv.ParseFloat(strings.TrimSpace(part), 64)
+			if err != nil || p <= 0 || p > 100 {
+				http.Error(w, "percentiles must be numbers in (0, 100]", http.StatusBadRequest)
+				return
+			}
+			percentiles = append(percentiles, p)
+		}
+	}
+
+	json.NewEncoder(w).Encode(lb.GetStats(bucketWidth, percentiles))
+}
+
+// requireAdmin guards the admin routes with a bearer token: requests must send
+// "Authorization: Bearer {ADMIN_TOKEN}". With no token configured the admin API
+// is off entirely, so a deployment can't end up writable by accident.
+func requireAdmin(token string, next http.HandlerFunc) http.HandlerFunc {
+	return func(w http.ResponseWriter, r *http.Request) {
+		if token == "" {
+			http.Error(w, "admin API disabled: set ADMIN_TOKEN on the server", http.StatusForbidden)
+			return
+		}
+
+		given, found := strings.CutPrefix(r.Header.Get("Authorization"), "Bearer ")
+		if !found || subtle.ConstantTimeCompare([]byte(given), []byte(token)) != 1 {
+			w.Header().Set("WWW-Authenticate", "Bearer")
+			http.Error(w, "invalid admin token", http.StatusUnauthorized)
+			return
+		}
+
+		next(w, r)
+	}
+}
+
+// handleAdminSession handles GET /admin/session. It does nothing itself; a 204
+// tells the client its token is good before it offers any write controls.
+func handleAdminSession(w http.ResponseWriter, r *http.Request) {
+	w.WriteHeader(http.StatusNoContent)
+}
+
+// handleAdminUser handles POST /admin/user ({"username", "rating"} body: create
+// the player or set their rating) and DELETE /admin/user?username={name}.
+func (lb *Leaderboard) handleAdminUser(w http.ResponseWriter, r *http.Request) {
+	w.Header().Set("Content-Type", "application/json")
+
+	switch r.Method {
+	case http.MethodPost:
+		var update UserUpdate
+		if err := json.NewDecoder(http.MaxBytesReader(w, r.Body, MaxAdminBodyBytes)).Decode(&update); err != nil {
+			http.Error(w, "body must be JSON like {\"username\": \"alice\", \"rating\": 2400}", http.StatusBadRequest)
+			return
+		}
+
+		player, err := lb.SetUser(update)
+		if err != nil {
+			http.Error(w, err.Error(), http.StatusBadRequest)
+			return
+		}
+		json.NewEncoder(w).Encode(player)
+
+	case http.MethodDelete:
+		username := r.URL.Query().Get("username")
+		if username == "" {
+			http.Error(w, "username query parameter required", http.StatusBadRequest)
+			return
+		}
+		if !lb.RemoveUser(username) {
+			http.Error(w, "user not found", http.StatusNotFound)
+			return
+		}
+		w.WriteHeader(http.StatusNoContent)
+
+	default:
+		w.Header().Set("Allow", "POST, DELETE, OPTIONS")
+		http.Error(w, "method not allowed", http.StatusMethodNotAllowed)
+	}
+}
+
+// handleAdminImport handles POST /admin/import: bulk upserts from a JSON array of
+// {"username", "rating"} objects, or from CSV (Content-Type: text/csv) with
+// username,rating columns and an optional header row. Valid rows are written
+// atomically; the response lists the ones that were skipped and why.
+func (lb *Leaderboard) handleAdminImport(w http.ResponseWriter, r *http.Request) {
+	w.Header().Set("Content-Type", "application/json")
+
+	if r.Method != http.MethodPost {
+		w.Header().Set("Allow", "POST, OPTIONS")
+		http.Error(w, "method not allowed", http.StatusMethodNotAllowed)
+		return
+	}
+
+	body := http.MaxBytesReader(w, r.Body, MaxAdminBodyBytes)
+	var rows []importRow
+	var err error
+	if strings.HasPrefix(r.Header.Get("Content-Type"), "text/csv") {
+		rows, err = parseImportCSV(body)
+	} else {
+		var updates []UserUpdate
+		err = json.NewDecoder(body).Decode(&updates)
+		for _, update := range updates {
+			rows = append(rows, importRow{update: update})
+		}
+	}
+
+	var tooLarge *http.MaxBytesError
+	switch {
+	case errors.As(err, &tooLarge):
+		http.Error(w, fmt.Sprintf("import body exceeds %d bytes", MaxAdminBodyBytes), http.StatusRequestEntityTooLarge)
+		return
+	case err != nil:
+		http.Error(w, fmt.Sprintf("could not parse import: %v", err), http.StatusBadRequest)
+		return
+	case len(rows) == 0:
+		http.Error(w, "import has no rows", http.StatusBadRequest)
+		return
+	case len(rows) > MaxImportRows:
+		http.Error(w, fmt.Sprintf("import has more than %d rows", MaxImportRows), http.StatusBadRequest)
+		return
+	}
+
+	json.NewEncoder(w).Encode(lb.ImportUsers(rows))
+}
+
+// parseImportCSV reads username,rating rows, skipping a leading header row. A
+// row with the wrong number of fields or a rating that isn't a number is
+// reported for that row, with its line in the file, rather than failing the
+// whole import. Only CSV that can't be read at all (a stray quote) fails it.
+func parseImportCSV(body io.Reader) ([]importRow, error) {
+	reader := csv.NewReader(body)
+	reader.FieldsPerRecord = -1
+	reader.TrimLeadingSpace = true
+
+	var rows []importRow
+	for first := true; ; first = false {
+		record, err := reader.Read()
+		if err == io.EOF {
+			break
+		}
+		if err != nil {
+			return nil, err
+		}
+		if first && len(record) == 2 && strings.EqualFold(strings.TrimSpace(record[1]), "rating") {
+			continue
+		}
+
+		line, _ := reader.FieldPos(0)
+		row := importRow{update: UserUpdate{Username: record[0]}}
+		if len(record) != 2 {
+			row.err = fmt.Errorf("line %d: expected 2 fields (username,rating), got %d", line, len(record))
+		} else if rating, err := strconv.Atoi(strings.TrimSpace(record[1])); err != nil {
+			row.err = fmt.Errorf("line %d: rating %q is not a whole number", line, record[1])
+		} else {
+			row.update.Rating = rating
+		}
+		rows = append(rows, row)
+	}
+	return rows, nil
+}
+
+// handleMatches handles POST /matches: rate a batch of games (see MatchReport and
+// RecordMatches). With ?dry_run=true nothing is written, so clients can show the
+// rating changes before submitting.
+func (lb *Leaderboard) handleMatches(w http.ResponseWriter, r *http.Request) {
+	w.Header().Set("Content-Type", "application/json")
+
+	if r.Method != http.MethodPost {
+		w.Header().Set("Allow", "POST, OPTIONS")
+		http.Error(w, "method not allowed", http.StatusMethodNotAllowed)
+		return
+	}
+
+	var report MatchReport
+	if err := json.NewDecoder(http.MaxBytesReader(w, r.Body, MaxAdminBodyBytes)).Decode(&report); err != nil {
+		http.Error(w, "body must be JSON like {\"games\": [{\"winner\": \"alice\", \"loser\": \"bob\"}]}", http.StatusBadRequest)
+		return
+	}
+
+	dryRun := r.URL.Query().Get("dry_run") == "true"
+	outcome, err := lb.RecordMatches(report, dryRun)
+	if err != nil {
+		http.Error(w, err.Error(), http.StatusBadRequest)
+		return
+	}
+
+	json.NewEncoder(w).Encode(outcome)
+}
+
+// Main initializes and starts the leaderboard server.
+func main() {
+	rand.Seed(time.Now().UnixNano())
+
+	// One board per game mode plus the current season. The same players appear on
+	// every board, each with an independent rating. The first is the default.
+	registry := NewBoardRegistry()
+	stopChan := make(chan struct{})
+	for _, board := range []struct{ id, name string }{
+		{"classic", "Classic"},
+		{"blitz", "Blitz"},
+		{"season-4", "Season 4"},
+	} {
+		lb := NewLeaderboard()
+
+		// Pre-populate the board with 10,000 users at random skill levels.
+		fmt.Printf("Seeding %d users on %s...\n", SeedUsers, board.id)
+		for i := 0; i < SeedUsers; i++ {
+			username := fmt.Sprintf("user_%d", i)
+			rating := MinRating + rand.Intn(MaxRating-MinRating+1)
+			lb.AddOrUpdateUser(username, rating)
+		}
+		lb.ResetHistory()
+
+		// Start background traffic simulation (live user activity)
+		go lb.SimulateTraffic(stopChan)
+		go lb.SampleRanks(stopChan)
+
+		registry.Add(board.id, board.name, lb)
+	}
+
+	// CORS Middleware - Allow all origins for development. In production, restrict to known domains.
+	corsMiddleware := func(next http.HandlerFunc) http.HandlerFunc {
+		return func(w http.ResponseWriter, r *http.Request) {
+			origin := r.Header.Get("Origin")
+
+			// Allow all origins. For production, whitelist specific domains:
+			// allowedOrigins := map[string]bool{"https://sage-blini-5bb0f7.netlify.app": true, "http://localhost:3000": true}
 			if origin != "" {
 				w.Header().Set("Access-Control-Allow-Origin", origin)
 			} else {
 				w.Header().Set("Access-Control-Allow-Origin", "*")
 			}
 
-			w.Header().Set("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+			w.Header().Set("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS")
 			w.Header().Set("Access-Control-Allow-Headers", "Content-Type, Authorization")
 			w.Header().Set("Access-Control-Max-Age", "86400")
 
@@ -394,10 +2175,28 @@ func main() {
 		}
 	}
 
-	// Wrap handlers with CORS middleware
-	http.HandleFunc("/search", corsMiddleware(lb.handleSearch))
-	http.HandleFunc("/leaderboard", corsMiddleware(lb.handleLeaderboard))
-	http.HandleFunc("/stats", corsMiddleware(lb.handleStats))
+	// Wrap handlers with CORS middleware. Every board-scoped route takes ?board={id}.
+	http.HandleFunc("/boards", corsMiddleware(registry.handleBoards))
+	http.HandleFunc("/search", corsMiddleware(registry.route((*Leaderboard).handleSearch)))
+	http.HandleFunc("/leaderboard", corsMiddleware(registry.route((*Leaderboard).handleLeaderboard)))
+	http.HandleFunc("/leaderboard/around", corsMiddleware(registry.route((*Leaderboard).handleLeaderboardAround)))
+	http.HandleFunc("/leaderboard/export", corsMiddleware(registry.route((*Leaderboard).handleLeaderboardExport)))
+	http.HandleFunc("/stats", corsMiddleware(registry.route((*Leaderboard).handleStats)))
+	http.HandleFunc("/user", corsMiddleware(registry.route((*Leaderboard).handleUser)))
+	http.HandleFunc("/users", corsMiddleware(registry.route((*Leaderboard).handleUsers)))
+	http.HandleFunc("/compare", corsMiddleware(registry.route((*Leaderboard).handleCompare)))
+	http.HandleFunc("/history", corsMiddleware(registry.route((*Leaderboard).handleHistory)))
+	http.HandleFunc("/stream", corsMiddleware(registry.route((*Leaderboard).handleStream)))
+
+	// Admin writes, behind the ADMIN_TOKEN bearer token (disabled when unset)
+	adminToken := os.Getenv("ADMIN_TOKEN")
+	if adminToken == "" {
+		fmt.Println("ADMIN_TOKEN not set: admin endpoints are disabled")
+	}
+	http.HandleFunc("/admin/session", corsMiddleware(requireAdmin(adminToken, handleAdminSession)))
+	http.HandleFunc("/admin/user", corsMiddleware(requireAdmin(adminToken, registry.route((*Leaderboard).handleAdminUser))))
+	http.HandleFunc("/admin/import", corsMiddleware(requireAdmin(adminToken, registry.route((*Leaderboard).handleAdminImport))))
+	http.HandleFunc("/matches", corsMiddleware(requireAdmin(adminToken, registry.route((*Leaderboard).handleMatches))))
 
 	// Fallback for unmapped routes
 	http.HandleFunc("/", func(w http.ResponseWriter, r *http.Request) {
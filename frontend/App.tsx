@@ -1,20 +1,78 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   NavigationContainer,
+  NavigationState,
   DefaultTheme,
+  DarkTheme,
+  Theme,
 } from '@react-navigation/native';
-import {
-  createBottomTabNavigator,
-  BottomTabNavigationProp,
-} from '@react-navigation/bottom-tabs';
+import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { Text, View, StyleSheet } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
 import LeaderboardScreen from './src/screens/LeaderboardScreen';
 import SearchScreen from './src/screens/SearchScreen';
-import { Colors } from './src/theme';
+import WatchlistScreen from './src/screens/WatchlistScreen';
+import StatsScreen from './src/screens/StatsScreen';
+import AdminScreen from './src/screens/AdminScreen';
+import RecordMatchScreen from './src/screens/RecordMatchScreen';
+import PlayerProfileScreen from './src/screens/PlayerProfileScreen';
+import CompareScreen from './src/screens/CompareScreen';
+import DeveloperSettingsScreen from './src/screens/DeveloperSettingsScreen';
+import { RootStackParamList, RootTabParamList } from './src/navigation/types';
+import { linking } from './src/navigation/linking';
+import { WatchlistProvider } from './src/context/WatchlistContext';
+import { CompareProvider } from './src/context/CompareContext';
+import { TierProvider } from './src/context/TierContext';
+import { BoardProvider, useBoard } from './src/context/BoardContext';
+import { ThemeProvider, useTheme } from './src/context/ThemeContext';
+import { LocaleProvider, useLocale } from './src/context/LocaleContext';
+import { ConfigProvider, applyRuntimeConfig, useConfig } from './src/context/ConfigContext';
+import { RefreshProvider } from './src/context/RefreshContext';
+import BoardSwitcher from './src/components/BoardSwitcher';
+import ThemeSwitcher from './src/components/ThemeSwitcher';
+import LanguageSwitcher from './src/components/LanguageSwitcher';
+import DeveloperSettingsButton from './src/components/DeveloperSettingsButton';
+import { LoadedConfig, loadRuntimeConfig } from './src/services/config';
+import { Palette } from './src/theme';
 
 // ErrorBoundary catches and displays errors gracefully. This might look like
 // boilerplate, but in production, crashing silently is worse than showing a friendly
 // error. Users need to know what went wrong.
+//
+// The boundary sits inside ThemeProvider and LocaleProvider, so the fallback
+// matches the palette and language the app was showing when it crashed.
+function ErrorFallback({ error }: { error: Error | null }) {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+
+  return (
+    <View
+      style={{
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        backgroundColor: colors.background,
+        padding: 20,
+      }}
+    >
+      <Text
+        style={{
+          fontSize: 18,
+          fontWeight: 'bold',
+          marginBottom: 10,
+          color: colors.textPrimary,
+        }}
+      >
+        {t('app.errorTitle')}
+      </Text>
+      <Text style={{ color: colors.textSecondary, textAlign: 'center' }}>
+        {error?.message || t('app.errorUnknown')}
+      </Text>
+    </View>
+  );
+}
+
 class ErrorBoundary extends React.Component<
   { children: React.ReactNode },
   { hasError: boolean; error: Error | null }
@@ -34,71 +92,272 @@ class ErrorBoundary extends React.Component<
 
   render() {
     if (this.state.hasError) {
-      return (
-        <View
-          style={{
-            flex: 1,
-            justifyContent: 'center',
-            alignItems: 'center',
-            backgroundColor: '#fff',
-            padding: 20,
-          }}
-        >
-          <Text style={{ fontSize: 18, fontWeight: 'bold', marginBottom: 10 }}>
-            App Error
-          </Text>
-          <Text style={{ color: '#666', textAlign: 'center' }}>
-            {this.state.error?.message || 'An unknown error occurred'}
-          </Text>
-        </View>
-      );
+      return <ErrorFallback error={this.state.error} />;
     }
 
     return this.props.children;
   }
 }
 
-type RootTabParamList = {
-  Leaderboard: undefined;
-  Search: undefined;
-};
+// Tabs: Leaderboard (global rankings), Search (live rank lookup), Watchlist
+// (starred players), Stats (rating distribution analytics) and Admin (token-gated
+// rating edits and imports).
+const Tab = createBottomTabNavigator<RootTabParamList>();
 
-type TabNavigationProp = BottomTabNavigationProp<RootTabParamList>;
+// Root stack: the tab bar is the base screen, detail screens push on top.
+const Stack = createNativeStackNavigator<RootStackParamList>();
 
-// Two tabs: Leaderboard (global rankings) and Search (live rank lookup).
-const Tab = createBottomTabNavigator<RootTabParamList>();
+const headerStyle = (colors: Palette) => ({
+  backgroundColor: colors.cardBackground,
+});
 
-// Navigation theme uses our design tokens (Colors). Centralized design tokens
-// prevent magic numbers scattered everywhere. If we need to rebrand, one change
-// updates the entire app.
-const navigationTheme = {
-  ...DefaultTheme,
-  colors: {
-    ...DefaultTheme.colors,
-    primary: Colors.accentColor,
-    background: Colors.background,
-    card: Colors.cardBackground,
-  },
+const headerTitleStyle = (colors: Palette) => ({
+  color: colors.textPrimary,
+  fontWeight: '600' as const,
+});
+
+// Navigation theme uses our design tokens (the active palette). Centralized design
+// tokens prevent magic numbers scattered everywhere. If we need to rebrand, one
+// change updates the entire app.
+const navigationTheme = (colors: Palette, dark: boolean): Theme => {
+  const base = dark ? DarkTheme : DefaultTheme;
+  return {
+    ...base,
+    colors: {
+      ...base.colors,
+      primary: colors.accentColor,
+      background: colors.background,
+      card: colors.cardBackground,
+      text: colors.textPrimary,
+      border: colors.borderLight,
+    },
+  };
 };
 
+// Language, color scheme and board controls, on every tab's header, plus the
+// developer settings when the runtime config enables them
+function HeaderControls() {
+  const { config } = useConfig();
+
+  return (
+    <View style={styles.headerControls}>
+      {config.features.developerSettings && <DeveloperSettingsButton />}
+      <LanguageSwitcher />
+      <ThemeSwitcher />
+      <BoardSwitcher />
+    </View>
+  );
+}
+
+/**
+ * Tab bar: Leaderboard, Search, Watchlist, Stats and Admin. Rendered as the base screen of the root stack
+ * so any tab can push a player profile without owning its own stack. The Admin
+ * tab can be turned off in the runtime config (features.admin).
+ */
+function MainTabs() {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const { config } = useConfig();
+
+  return (
+    <Tab.Navigator
+      screenOptions={{
+        // Tab styling: accent color when active, gray when inactive.
+        // This gives users clear visual feedback about which tab they're on.
+        tabBarActiveTintColor: colors.accentColor,
+        tabBarInactiveTintColor: colors.textSecondary,
+        tabBarStyle: {
+          backgroundColor: colors.cardBackground,
+          borderTopColor: colors.borderLight,
+          borderTopWidth: 1,
+        },
+        headerStyle: {
+          ...headerStyle(colors),
+          borderBottomColor: colors.borderLight,
+          borderBottomWidth: 1,
+        },
+        headerTitleStyle: headerTitleStyle(colors),
+        // Light/dark override, and the current board (classic, blitz, season...)
+        // that every tab follows
+        headerRight: () => <HeaderControls />,
+      }}
+    >
+      <Tab.Screen
+        name="Leaderboard"
+        component={LeaderboardScreen}
+        options={{
+          title: t('tab.leaderboardTitle'),
+          // FlatList with fixed row height = smooth scrolling for thousands of users
+          tabBarLabel: t('tab.leaderboard'),
+        }}
+      />
+      <Tab.Screen
+        name="Search"
+        component={SearchScreen}
+        options={{
+          title: t('tab.searchTitle'),
+          // Frontend never caches ranks. We fetch fresh rank with each search.
+          // Users see live data, not stale guesses.
+          tabBarLabel: t('tab.search'),
+        }}
+      />
+      <Tab.Screen
+        name="Watchlist"
+        component={WatchlistScreen}
+        options={{
+          title: t('tab.watchlistTitle'),
+          // One batch lookup refreshes every starred player's live rank
+          tabBarLabel: t('tab.watchlist'),
+        }}
+      />
+      <Tab.Screen
+        name="Stats"
+        component={StatsScreen}
+        options={{
+          title: t('tab.statsTitle'),
+          tabBarLabel: t('tab.stats'),
+        }}
+      />
+      {config.features.admin && (
+        <Tab.Screen
+          name="Admin"
+          component={AdminScreen}
+          options={{
+            title: t('tab.adminTitle'),
+            // Locked until the backend accepts an ADMIN_TOKEN
+            tabBarLabel: t('tab.admin'),
+          }}
+        />
+      )}
+    </Tab.Navigator>
+  );
+}
+
+/**
+ * Everything that shows board data, keyed on the selected board: switching
+ * boards remounts every screen (and the tier resolver) so each one re-fetches
+ * from the new board without having to watch for the change itself. The
+ * navigation state is carried over, so the user stays on the same tab.
+ *
+ * The first mount takes its screen from the URL (or the deep link that opened
+ * the app; see navigation/linking), and the URL follows navigation from then on.
+ */
+function BoardScope() {
+  const { boardId } = useBoard();
+  const { colors, scheme } = useTheme();
+  const { locale, t } = useLocale();
+  const { config } = useConfig();
+  const navigationState = useRef<NavigationState | undefined>();
+
+  return (
+    <React.Fragment key={boardId ?? 'default'}>
+      <TierProvider>
+        <StatusBar style={scheme === 'dark' ? 'light' : 'dark'} />
+        {/* Laying the tree out in the locale's direction mirrors rows, bars and
+            the tab order for right-to-left languages without a restart */}
+        <View style={[styles.root, { direction: locale.direction }]}>
+          <NavigationContainer
+            theme={navigationTheme(colors, scheme === 'dark')}
+            linking={linking}
+            initialState={navigationState.current}
+            onStateChange={(state) => {
+              navigationState.current = state;
+            }}
+          >
+            <Stack.Navigator
+              screenOptions={{
+                headerStyle: headerStyle(colors),
+                headerTitleStyle: headerTitleStyle(colors),
+                headerTintColor: colors.accentColor,
+              }}
+            >
+              <Stack.Screen
+                name="Main"
+                component={MainTabs}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen
+                name="PlayerProfile"
+                component={PlayerProfileScreen}
+                options={{ title: t('screen.player') }}
+              />
+              <Stack.Screen
+                name="Compare"
+                component={CompareScreen}
+                options={{ title: t('screen.compare') }}
+              />
+              {config.features.admin && (
+                <Stack.Screen
+                  name="RecordMatch"
+                  component={RecordMatchScreen}
+                  options={{ title: t('screen.recordMatch') }}
+                />
+              )}
+              {config.features.developerSettings && (
+                <Stack.Screen
+                  name="DeveloperSettings"
+                  component={DeveloperSettingsScreen}
+                  options={{ title: t('screen.developerSettings') }}
+                />
+              )}
+            </Stack.Navigator>
+          </NavigationContainer>
+        </View>
+      </TierProvider>
+    </React.Fragment>
+  );
+}
+
+/**
+ * Everything that talks to the backend, keyed on its URL (or demo mode):
+ * switching backends in the developer settings remounts the board list, the
+ * watchlist and every screen, so nothing keeps showing data from the old
+ * server.
+ */
+function BackendScope() {
+  const { config } = useConfig();
+
+  return (
+    <React.Fragment key={config.demo ? 'demo' : config.apiBaseUrl}>
+      <BoardProvider>
+        <WatchlistProvider>
+          <CompareProvider>
+            <BoardScope />
+          </CompareProvider>
+        </WatchlistProvider>
+      </BoardProvider>
+    </React.Fragment>
+  );
+}
+
 /**
  * App (Root Navigator)
  *
  * We chose tab-based navigation for simplicity: Leaderboard and Search are
  * independent features that users flip between. No complex state threading.
- * Each tab re-fetches data on focus (handled in screen components).
+ * Each tab re-fetches data when it regains focus or the app returns to the
+ * foreground, and lists can poll at the interval picked in their header
+ * (useAutoRefresh, RefreshContext).
+ *
+ * Tapping a player anywhere pushes PlayerProfile onto the root stack, above
+ * the tab bar, so the back button returns to whichever tab the user came from.
+ * Compare (long-press players to pick them) opens the same way.
+ *
+ * Startup loads the runtime config (backend URL or demo mode, timeouts,
+ * feature flags; see services/config) and applies it before anything renders,
+ * so the very first request already goes to the right server.
  */
 export default function App() {
-  const [loading, setLoading] = useState(false);
+  const [config, setConfig] = useState<LoadedConfig | null>(null);
 
-  // Placeholder for initialization logic. In production, this would be app startup
-  // checks (permissions, auth, feature flags, etc.).
   useEffect(() => {
-    // Can add initialization logic here (auth, config fetch, etc.)
-    setLoading(false);
+    loadRuntimeConfig().then((loaded) => {
+      applyRuntimeConfig(loaded.config);
+      setConfig(loaded);
+    });
   }, []);
 
-  if (loading) {
+  if (!config) {
     return (
       <View style={styles.centerContainer}>
         <Text>Loading...</Text>
@@ -107,50 +366,17 @@ export default function App() {
   }
 
   return (
-    <ErrorBoundary>
-      <NavigationContainer theme={navigationTheme}>
-        <Tab.Navigator
-          screenOptions={{          // Tab styling: accent color when active, gray when inactive.
-          // This gives users clear visual feedback about which tab they're on.            tabBarActiveTintColor: Colors.accentColor,
-            tabBarInactiveTintColor: Colors.textSecondary,
-            tabBarStyle: {
-              backgroundColor: Colors.cardBackground,
-              borderTopColor: Colors.borderLight,
-              borderTopWidth: 1,
-            },
-            headerStyle: {
-              backgroundColor: Colors.cardBackground,
-              borderBottomColor: Colors.borderLight,
-              borderBottomWidth: 1,
-            },
-            headerTitleStyle: {
-              color: Colors.textPrimary,
-              fontWeight: '600',
-            },
-          }}
-        >
-          <Tab.Screen
-            name="Leaderboard"
-            component={LeaderboardScreen}
-            options={{
-              title: 'Leaderboard',
-              // FlatList with fixed row height = smooth scrolling for thousands of users
-              tabBarLabel: 'Rankings',
-            }}
-          />
-          <Tab.Screen
-            name="Search"
-            component={SearchScreen}
-            options={{
-              title: 'Search Players',
-              // Frontend never caches ranks. We fetch fresh rank with each search.
-              // Users see live data, not stale guesses.
-              tabBarLabel: 'Search',
-            }}
-          />
-        </Tab.Navigator>
-      </NavigationContainer>
-    </ErrorBoundary>
+    <ConfigProvider initialConfig={config}>
+      <ThemeProvider>
+        <LocaleProvider>
+          <RefreshProvider>
+            <ErrorBoundary>
+              <BackendScope />
+            </ErrorBoundary>
+          </RefreshProvider>
+        </LocaleProvider>
+      </ThemeProvider>
+    </ConfigProvider>
   );
 }
 
@@ -160,4 +386,11 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  root: {
+    flex: 1,
+  },
+  headerControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
 });
@@ -1,39 +1,47 @@
 #!/usr/bin/env node
 /**
- * Build script that injects the API URL into api.ts before building
- * This ensures the correct API endpoint is used in production
+ * Web build: exports the app, then writes the backend URL into dist/config.json.
+ * The app reads that file at startup (see src/services/config.ts), so no
+ * source is rewritten and the same bundle can be repointed after deploying by
+ * editing config.json alone.
+ *
+ * REACT_APP_API_BASE_URL sets apiBaseUrl. The other fields (timeouts, feature
+ * flags, environments) can be added to dist/config.json by hand after the
+ * build; fields already in the file are kept when it is rewritten.
  */
 
 const fs = require('fs');
 const path = require('path');
+const { execSync } = require('child_process');
 
-const apiUrl = process.env.REACT_APP_API_BASE_URL || 'http://localhost:8080';
-const apiFilePath = path.join(__dirname, 'src', 'services', 'api.ts');
-
-console.log(`[Build] Injecting API URL: ${apiUrl}`);
-
-// Read the api.ts file
-let content = fs.readFileSync(apiFilePath, 'utf-8');
-
-// Replace the hardcoded API_BASE_URL line with the env var value
-const oldLine = `const API_BASE_URL = (process.env.REACT_APP_API_BASE_URL as string) || 'http://localhost:8080';`;
-const newLine = `const API_BASE_URL = '${apiUrl}'; // Injected at build time`;
-
-if (content.includes(oldLine)) {
-  content = content.replace(oldLine, newLine);
-  fs.writeFileSync(apiFilePath, content, 'utf-8');
-  console.log(`[Build] ✓ Updated API_BASE_URL to: ${apiUrl}`);
-} else {
-  console.warn(`[Build] ⚠ Could not find API_BASE_URL line to replace`);
-}
+const apiUrl = process.env.REACT_APP_API_BASE_URL;
+const configPath = path.join(__dirname, 'dist', 'config.json');
 
-// Now run the actual expo export
-const { execSync } = require('child_process');
 try {
   console.log('[Build] Running expo export...');
   execSync('npx expo export --platform web --output-dir dist', { stdio: 'inherit' });
-  console.log('[Build] ✓ Build complete!');
 } catch (error) {
   console.error('[Build] ✗ Expo export failed');
   process.exit(1);
 }
+
+let config = {};
+if (fs.existsSync(configPath)) {
+  try {
+    config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    console.error(`[Build] ✗ ${configPath} is not valid JSON: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+if (apiUrl) {
+  config.apiBaseUrl = apiUrl;
+  console.log(`[Build] API URL: ${apiUrl}`);
+} else if (!config.apiBaseUrl) {
+  console.warn('[Build] ⚠ REACT_APP_API_BASE_URL is not set; the app will use its default backend');
+}
+
+fs.writeFileSync(configPath, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+console.log(`[Build] ✓ Wrote ${path.relative(__dirname, configPath)}`);
+console.log('[Build] ✓ Build complete!');
@@ -1,4 +1,5 @@
 #!/bin/bash
 # Build script that sets API URL for production deployment
+# (written to dist/config.json, read by the app at startup)
 export REACT_APP_API_BASE_URL=https://matiks-assignment-intern.onrender.com
-npx expo export --platform web --output-dir dist
+node build-inject.js
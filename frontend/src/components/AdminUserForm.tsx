@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet } from 'react-native';
+import ErrorState from './ErrorState';
+import apiService from '../services/api';
+import { isClientError } from '../services/errors';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography, Layout, RatingScale } from '../theme';
+
+type Status =
+  | { kind: 'idle' }
+  | { kind: 'busy' }
+  | { kind: 'done'; message: string }
+  | { kind: 'failed'; error: unknown };
+
+/**
+ * Single-player editor for the admin tab: look a player up to see their
+ * current rating, then set a new one (creating the player if they don't
+ * exist) or delete them. Delete asks for a second tap instead of an Alert,
+ * which react-native-web doesn't implement.
+ */
+const AdminUserForm: React.FC = () => {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const [username, setUsername] = useState('');
+  const [ratingText, setRatingText] = useState('');
+  const [status, setStatus] = useState<Status>({ kind: 'idle' });
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  const name = username.trim();
+  const rating = /^\d+$/.test(ratingText.trim()) ? Number(ratingText.trim()) : NaN;
+  const ratingValid = rating >= RatingScale.min && rating <= RatingScale.max;
+  const isBusy = status.kind === 'busy';
+
+  const styles = StyleSheet.create({
+    inputRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: Spacing.md,
+    },
+    input: {
+      flex: 1,
+      height: Layout.searchInputHeight - Spacing.sm,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      paddingHorizontal: Spacing.sm,
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    button: {
+      marginStart: Spacing.sm,
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.sm,
+      borderRadius: 8,
+      backgroundColor: colors.accentColor,
+    },
+    buttonDanger: {
+      backgroundColor: colors.negative,
+    },
+    buttonDisabled: {
+      opacity: 0.4,
+    },
+    buttonText: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.cardBackground,
+    },
+    hint: {
+      fontSize: Typography.fontSize.xs,
+      color: colors.negative,
+      marginTop: -Spacing.sm,
+      marginBottom: Spacing.md,
+    },
+    message: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+  });
+
+  const run = async (action: () => Promise<string>) => {
+    setConfirmingDelete(false);
+    setStatus({ kind: 'busy' });
+    try {
+      setStatus({ kind: 'done', message: await action() });
+    } catch (error) {
+      setStatus({ kind: 'failed', error });
+    }
+  };
+
+  const lookUp = () =>
+    run(async () => {
+      try {
+        const player = await apiService.getUser(name, 0);
+        setRatingText(String(player.rating));
+        return t('adminUser.found', {
+          username: player.username,
+          rating: player.rating,
+          rank: player.global_rank,
+        });
+      } catch (error) {
+        if (isClientError(error, 404)) {
+          return t('adminUser.notFound', { username: name });
+        }
+        throw error;
+      }
+    });
+
+  const save = () =>
+    run(async () => {
+      const player = await apiService.upsertUser({ username: name, rating });
+      return t('adminUser.saved', {
+        username: player.username,
+        rating: player.rating,
+        rank: player.global_rank,
+      });
+    });
+
+  const remove = () => {
+    if (!confirmingDelete) {
+      setConfirmingDelete(true);
+      return;
+    }
+    run(async () => {
+      await apiService.deleteUser(name);
+      setRatingText('');
+      return t('adminUser.deleted', { username: name });
+    });
+  };
+
+  const button = (label: string, onPress: () => void, enabled: boolean, danger = false) => (
+    <Pressable
+      style={[styles.button, danger && styles.buttonDanger, !enabled && styles.buttonDisabled]}
+      onPress={onPress}
+      disabled={!enabled}
+    >
+      <Text style={styles.buttonText}>{label}</Text>
+    </Pressable>
+  );
+
+  return (
+    <View>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          placeholder={t('adminUser.usernamePlaceholder')}
+          placeholderTextColor={colors.textSecondary}
+          value={username}
+          onChangeText={(text) => {
+            setUsername(text);
+            setConfirmingDelete(false);
+          }}
+          onSubmitEditing={() => name && lookUp()}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {button(t('adminUser.lookUp'), lookUp, !!name && !isBusy)}
+      </View>
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          placeholder={t('adminUser.ratingPlaceholder', {
+            min: RatingScale.min,
+            max: RatingScale.max,
+          })}
+          placeholderTextColor={colors.textSecondary}
+          value={ratingText}
+          onChangeText={setRatingText}
+          keyboardType="number-pad"
+        />
+        {button(t('adminUser.save'), save, !!name && ratingValid && !isBusy)}
+        {button(
+          confirmingDelete ? t('adminUser.confirm') : t('adminUser.delete'),
+          remove,
+          !!name && !isBusy,
+          true
+        )}
+      </View>
+      {ratingText.trim() !== '' && !ratingValid && (
+        <Text style={styles.hint}>
+          {t('adminUser.ratingInvalid', { min: RatingScale.min, max: RatingScale.max })}
+        </Text>
+      )}
+
+      {status.kind === 'done' && <Text style={styles.message}>{status.message}</Text>}
+      {status.kind === 'failed' && <ErrorState error={status.error} compact />}
+    </View>
+  );
+};
+
+export default AdminUserForm;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { View, Text, Pressable, Modal, StyleSheet } from 'react-native';
+import { useBoard } from '../context/BoardContext';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography } from '../theme';
+
+/**
+ * Header control naming the current board. Tapping it opens a list of every
+ * board with its player count; picking one switches the whole app over.
+ * Hidden while the list is loading and when the backend serves a single board.
+ */
+const BoardSwitcher: React.FC = () => {
+  const { colors } = useTheme();
+  const { locale, t } = useLocale();
+  const { boards, board, setBoard } = useBoard();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const styles = StyleSheet.create({
+    trigger: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: Spacing.md,
+    },
+    triggerText: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.accentColor,
+    },
+    backdrop: {
+      flex: 1,
+      justifyContent: 'center',
+      padding: Spacing.xl,
+      backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    },
+    sheet: {
+      borderRadius: 12,
+      backgroundColor: colors.cardBackground,
+      overflow: 'hidden',
+      direction: locale.direction,
+    },
+    title: {
+      fontSize: Typography.fontSize.base,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textPrimary,
+      padding: Spacing.lg,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    option: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: Spacing.lg,
+      paddingVertical: Spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    optionName: {
+      fontSize: Typography.fontSize.base,
+      color: colors.textPrimary,
+    },
+    optionNameActive: {
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.accentColor,
+    },
+    optionMeta: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+    },
+  });
+
+  if (boards.length < 2 || !board) {
+    return null;
+  }
+
+  return (
+    <>
+      <Pressable style={styles.trigger} onPress={() => setIsOpen(true)} hitSlop={8}>
+        <Text style={styles.triggerText}>{board.name} ▾</Text>
+      </Pressable>
+
+      <Modal
+        visible={isOpen}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setIsOpen(false)}
+      >
+        <Pressable style={styles.backdrop} onPress={() => setIsOpen(false)}>
+          <View style={styles.sheet}>
+            <Text style={styles.title}>{t('board.title')}</Text>
+            {boards.map((option) => {
+              const isActive = option.id === board.id;
+              return (
+                <Pressable
+                  key={option.id}
+                  style={styles.option}
+                  onPress={() => {
+                    setIsOpen(false);
+                    if (!isActive) setBoard(option.id);
+                  }}
+                >
+                  <Text style={[styles.optionName, isActive && styles.optionNameActive]}>
+                    {option.name}
+                  </Text>
+                  <Text style={styles.optionMeta}>
+                    {t('board.playerCount', { count: option.total_users })}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </Pressable>
+      </Modal>
+    </>
+  );
+};
+
+export default BoardSwitcher;
@@ -0,0 +1,140 @@
+import React from 'react';
+import { View, Text, Pressable, ScrollView, StyleSheet } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MIN_COMPARE_PLAYERS, useCompare } from '../context/CompareContext';
+import { RootStackParamList } from '../navigation/types';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography } from '../theme';
+
+/**
+ * Tray under a list showing the players picked for a comparison, each in
+ * their comparison color with a button to drop them, plus Compare (once two
+ * are picked) and Clear. Renders nothing until someone is picked, so it costs
+ * the list no space until it's in use.
+ */
+const CompareBar: React.FC = () => {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const { usernames, toggle, clear } = useCompare();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const styles = StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.sm,
+      backgroundColor: colors.cardBackground,
+      borderTopWidth: 1,
+      borderTopColor: colors.borderLight,
+    },
+    chipList: {
+      flex: 1,
+    },
+    chips: {
+      flexGrow: 1,
+      flexShrink: 1,
+      alignItems: 'center',
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: Spacing.sm,
+      paddingVertical: Spacing.xs,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      marginEnd: Spacing.sm,
+    },
+    dot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      marginEnd: Spacing.xs,
+    },
+    chipText: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    chipRemove: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+      marginStart: Spacing.xs,
+    },
+    hint: {
+      fontSize: Typography.fontSize.xs,
+      color: colors.textSecondary,
+    },
+    action: {
+      paddingHorizontal: Spacing.sm,
+      paddingVertical: Spacing.xs,
+    },
+    compareButton: {
+      backgroundColor: colors.accentColor,
+      borderRadius: 8,
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.xs,
+      marginStart: Spacing.sm,
+    },
+    compareText: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.cardBackground,
+    },
+    clearText: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.accentColor,
+    },
+  });
+
+  if (usernames.length === 0) {
+    return null;
+  }
+
+  const canCompare = usernames.length >= MIN_COMPARE_PLAYERS;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.chipList}
+        contentContainerStyle={styles.chips}
+      >
+        {usernames.map((username, index) => (
+          <Pressable
+            key={username}
+            style={styles.chip}
+            onPress={() => toggle(username)}
+            accessibilityRole="button"
+            accessibilityLabel={t('compare.removePlayer', { username })}
+          >
+            <View style={[styles.dot, { backgroundColor: colors.comparison[index] }]} />
+            <Text style={styles.chipText} numberOfLines={1}>
+              {username}
+            </Text>
+            <Text style={styles.chipRemove}>✕</Text>
+          </Pressable>
+        ))}
+        {!canCompare && <Text style={styles.hint}>{t('compare.pickHint')}</Text>}
+      </ScrollView>
+
+      <Pressable style={styles.action} onPress={clear} accessibilityRole="button">
+        <Text style={styles.clearText}>{t('compare.clear')}</Text>
+      </Pressable>
+      {canCompare && (
+        <Pressable
+          style={styles.compareButton}
+          onPress={() => navigation.navigate('Compare', { players: usernames })}
+          accessibilityRole="button"
+        >
+          <Text style={styles.compareText}>{t('compare.open')}</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+};
+
+export default CompareBar;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Polyline } from 'react-native-svg';
+import { HistoryPoint } from '../types';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography } from '../theme';
+
+export interface ComparisonSeries {
+  username: string;
+  color: string;
+  points: HistoryPoint[];
+}
+
+interface ComparisonChartProps {
+  series: ComparisonSeries[];
+}
+
+const CHART_HEIGHT = 160;
+const STROKE_WIDTH = 2;
+
+/**
+ * Rating lines for the compared players drawn over each other. Unlike a
+ * Sparkline, every line shares one time axis and one rating range, so where
+ * the lines cross is where the players swapped places. A player with fewer
+ * than two points simply has no line.
+ *
+ * The width isn't known until layout, so the lines are only drawn after the
+ * first onLayout.
+ */
+const ComparisonChart: React.FC<ComparisonChartProps> = ({ series }) => {
+  const { colors } = useTheme();
+  const { t, formatNumber, formatTime } = useLocale();
+  const [width, setWidth] = useState(0);
+
+  const styles = StyleSheet.create({
+    chartRow: {
+      flexDirection: 'row',
+    },
+    yAxis: {
+      height: CHART_HEIGHT,
+      justifyContent: 'space-between',
+      marginEnd: Spacing.sm,
+    },
+    chart: {
+      flex: 1,
+      height: CHART_HEIGHT,
+      borderLeftWidth: 1,
+      borderBottomWidth: 1,
+      borderColor: colors.borderLight,
+    },
+    xAxis: {
+      // Time runs left to right like the lines, even in right-to-left languages
+      direction: 'ltr',
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginTop: Spacing.xs,
+    },
+    axisLabel: {
+      fontSize: Typography.fontSize.xs,
+      color: colors.textSecondary,
+    },
+    emptyText: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+    },
+  });
+
+  const drawn = series.filter((line) => line.points.length >= 2);
+  if (drawn.length === 0) {
+    return <Text style={styles.emptyText}>{t('compare.historyEmpty')}</Text>;
+  }
+
+  const all = drawn.flatMap((line) => line.points);
+  const ratings = all.map((point) => point.rating);
+  const times = all.map((point) => point.timestamp);
+  const minRating = Math.min(...ratings);
+  const maxRating = Math.max(...ratings);
+  const start = Math.min(...times);
+  const end = Math.max(...times);
+  const ratingRange = maxRating - minRating || 1;
+  const timeRange = end - start || 1;
+  // Keep the strokes inside the viewport at the extremes
+  const innerHeight = CHART_HEIGHT - STROKE_WIDTH * 2;
+
+  const toPoints = (points: HistoryPoint[]) =>
+    points
+      .map((point) => {
+        const x = ((point.timestamp - start) / timeRange) * width;
+        const y = STROKE_WIDTH + (1 - (point.rating - minRating) / ratingRange) * innerHeight;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  return (
+    <View>
+      <View style={styles.chartRow}>
+        <View style={styles.yAxis}>
+          <Text style={styles.axisLabel}>{formatNumber(maxRating)}</Text>
+          <Text style={styles.axisLabel}>{formatNumber(minRating)}</Text>
+        </View>
+        <View style={styles.chart} onLayout={handleLayout}>
+          {width > 0 && (
+            <Svg width={width} height={CHART_HEIGHT}>
+              {drawn.map((line) => (
+                <Polyline
+                  key={line.username}
+                  points={toPoints(line.points)}
+                  fill="none"
+                  stroke={line.color}
+                  strokeWidth={STROKE_WIDTH}
+                  strokeLinejoin="round"
+                  strokeLinecap="round"
+                />
+              ))}
+            </Svg>
+          )}
+        </View>
+      </View>
+      <View style={styles.xAxis}>
+        <Text style={styles.axisLabel}>{formatTime(start)}</Text>
+        <Text style={styles.axisLabel}>{formatTime(end)}</Text>
+      </View>
+    </View>
+  );
+};
+
+export default ComparisonChart;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Text, Pressable, StyleSheet } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/types';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography } from '../theme';
+
+/**
+ * Header shortcut to the developer settings (backend switcher). App only
+ * renders it when the runtime config enables features.developerSettings.
+ */
+const DeveloperSettingsButton: React.FC = () => {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const styles = StyleSheet.create({
+    trigger: {
+      paddingHorizontal: Spacing.sm,
+    },
+    triggerText: {
+      fontSize: Typography.fontSize.base,
+      color: colors.textSecondary,
+    },
+  });
+
+  return (
+    <Pressable
+      style={styles.trigger}
+      onPress={() => navigation.navigate('DeveloperSettings')}
+      hitSlop={8}
+      accessibilityRole="button"
+      accessibilityLabel={t('dev.open')}
+    >
+      <Text style={styles.triggerText}>⚙</Text>
+    </Pressable>
+  );
+};
+
+export default DeveloperSettingsButton;
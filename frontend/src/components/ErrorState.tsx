@@ -0,0 +1,140 @@
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import {
+  ApiError,
+  ClientError,
+  MalformedResponseError,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+} from '../services/errors';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { MessageKey, MessageParams } from '../i18n';
+import { Spacing, Typography } from '../theme';
+
+interface ErrorStateProps {
+  error: unknown;
+  onRetry?: () => void;
+  // A one-line banner instead of a centered block, for failures below data
+  // that's still worth showing (e.g. loading the next page)
+  compact?: boolean;
+}
+
+// Short headline per failure kind. On-call reads these, so they name the cause.
+// Details are the error's own message, which comes from the server or the
+// client library and stays untranslated.
+function describe(
+  error: unknown,
+  t: (key: MessageKey, params?: MessageParams) => string
+): { title: string; detail: string } {
+  if (error instanceof NetworkError) {
+    return { title: t('error.network'), detail: t('error.networkDetail') };
+  }
+  if (error instanceof TimeoutError) {
+    return { title: t('error.timeout'), detail: error.message };
+  }
+  if (error instanceof ServerError) {
+    return { title: t('error.server', { status: String(error.status) }), detail: error.message };
+  }
+  if (error instanceof ClientError) {
+    return { title: t('error.client', { status: String(error.status) }), detail: error.message };
+  }
+  if (error instanceof MalformedResponseError) {
+    return { title: t('error.malformed'), detail: error.message };
+  }
+  return {
+    title: t('error.unknown'),
+    detail: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * What a screen shows instead of its content when a request failed. Distinct
+ * from the empty state on purpose: "no players" and "the backend is down" must
+ * never look alike.
+ *
+ * The retry button only appears when retrying could help: a 4xx or a malformed
+ * payload will fail the same way again.
+ */
+const ErrorState: React.FC<ErrorStateProps> = ({ error, onRetry, compact = false }) => {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const { title, detail } = describe(error, t);
+  const canRetry = onRetry && (!(error instanceof ApiError) || error.retryable);
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: Spacing.xl,
+      backgroundColor: colors.background,
+    },
+    banner: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginHorizontal: Spacing.md,
+      marginVertical: Spacing.sm,
+      padding: Spacing.md,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.negative,
+      backgroundColor: colors.cardBackground,
+    },
+    title: {
+      fontSize: compact ? Typography.fontSize.sm : Typography.fontSize.lg,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.negative,
+      textAlign: compact ? 'auto' : 'center',
+      flexShrink: 1,
+    },
+    detail: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginTop: Spacing.sm,
+    },
+    button: {
+      marginTop: compact ? 0 : Spacing.lg,
+      marginStart: compact ? Spacing.sm : 0,
+      paddingHorizontal: Spacing.lg,
+      paddingVertical: Spacing.sm,
+      borderRadius: 8,
+      backgroundColor: colors.accentColor,
+    },
+    buttonText: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.cardBackground,
+    },
+  });
+
+  const retryButton = canRetry && (
+    <Pressable style={styles.button} onPress={onRetry}>
+      <Text style={styles.buttonText}>{t('error.retry')}</Text>
+    </Pressable>
+  );
+
+  if (compact) {
+    return (
+      <View style={styles.banner}>
+        <Text style={styles.title} numberOfLines={2}>
+          {title}
+        </Text>
+        {retryButton}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+      <Text style={styles.detail}>{detail}</Text>
+      {retryButton}
+    </View>
+  );
+};
+
+export default ErrorState;
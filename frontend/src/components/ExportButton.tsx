@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import ErrorState from './ErrorState';
+import { ExportFormat } from '../types';
+import { MessageKey } from '../i18n';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { useConfig } from '../context/ConfigContext';
+import { Spacing, Typography } from '../theme';
+
+interface ExportButtonProps {
+  // Sheet heading, e.g. "Export leaderboard"
+  title: string;
+  // What will be exported, e.g. "All 10,000 players rated 2000–2500"
+  description: string;
+  onExport: (format: ExportFormat) => Promise<void>;
+  disabled?: boolean;
+}
+
+const FORMATS: { format: ExportFormat; label: string; hint: MessageKey }[] = [
+  { format: 'csv', label: 'CSV', hint: 'export.csvHint' },
+  { format: 'json', label: 'JSON', hint: 'export.jsonHint' },
+];
+
+/**
+ * "Export" link that opens a format picker. The sheet stays open while the
+ * export runs and shows any failure, so a slow or failed download isn't
+ * silent; it closes once the file has been handed off.
+ *
+ * Renders nothing when the runtime config turns exports off (features.export).
+ */
+const ExportButton: React.FC<ExportButtonProps> = ({
+  title,
+  description,
+  onExport,
+  disabled = false,
+}) => {
+  const { colors } = useTheme();
+  const { locale, t } = useLocale();
+  const [isOpen, setIsOpen] = useState(false);
+  const [running, setRunning] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const { config } = useConfig();
+
+  const styles = StyleSheet.create({
+    trigger: {
+      fontSize: Typography.fontSize.sm,
+      color: disabled ? colors.textSecondary : colors.accentColor,
+      marginStart: Spacing.md,
+    },
+    backdrop: {
+      flex: 1,
+      justifyContent: 'center',
+      padding: Spacing.xl,
+      backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    },
+    sheet: {
+      borderRadius: 12,
+      backgroundColor: colors.cardBackground,
+      overflow: 'hidden',
+      direction: locale.direction,
+    },
+    header: {
+      padding: Spacing.lg,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    title: {
+      fontSize: Typography.fontSize.base,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textPrimary,
+    },
+    description: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+      marginTop: Spacing.xs,
+    },
+    option: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: Spacing.lg,
+      paddingVertical: Spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    optionLabel: {
+      fontSize: Typography.fontSize.base,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.textPrimary,
+    },
+    optionHint: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+    },
+    error: {
+      paddingVertical: Spacing.sm,
+    },
+  });
+
+  const close = () => {
+    if (running) return;
+    setIsOpen(false);
+    setError(null);
+  };
+
+  const run = async (format: ExportFormat) => {
+    setRunning(format);
+    setError(null);
+    try {
+      await onExport(format);
+      setIsOpen(false);
+    } catch (exportError) {
+      console.error('Export failed:', exportError);
+      setError(exportError);
+    }
+    setRunning(null);
+  };
+
+  if (!config.features.export) {
+    return null;
+  }
+
+  return (
+    <>
+      <Pressable onPress={() => setIsOpen(true)} disabled={disabled} hitSlop={8}>
+        <Text style={styles.trigger}>{t('export.open')}</Text>
+      </Pressable>
+
+      <Modal visible={isOpen} transparent animationType="fade" onRequestClose={close}>
+        <Pressable style={styles.backdrop} onPress={close}>
+          <View style={styles.sheet}>
+            <View style={styles.header}>
+              <Text style={styles.title}>{title}</Text>
+              <Text style={styles.description}>{description}</Text>
+            </View>
+            {FORMATS.map((option) => (
+              <Pressable
+                key={option.format}
+                style={styles.option}
+                onPress={() => run(option.format)}
+                disabled={running !== null}
+              >
+                <Text style={styles.optionLabel}>{option.label}</Text>
+                {running === option.format ? (
+                  <ActivityIndicator size="small" color={colors.accentColor} />
+                ) : (
+                  <Text style={styles.optionHint}>{t(option.hint)}</Text>
+                )}
+              </Pressable>
+            ))}
+            {error !== null && (
+              <View style={styles.error}>
+                <ErrorState error={error} compact />
+              </View>
+            )}
+          </View>
+        </Pressable>
+      </Modal>
+    </>
+  );
+};
+
+export default ExportButton;
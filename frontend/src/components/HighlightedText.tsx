@@ -0,0 +1,55 @@
+import React from 'react';
+import { Text, TextProps, StyleProp, TextStyle } from 'react-native';
+
+interface HighlightedTextProps extends TextProps {
+  text: string;
+  // [start, end) ranges in code points, as /search returns them
+  ranges?: [number, number][];
+  highlightStyle: StyleProp<TextStyle>;
+}
+
+/**
+ * Text with some ranges styled differently, used to show which characters of a
+ * username matched the search. Offsets count code points (Array.from), not
+ * UTF-16 units, to line up with the backend's rune offsets.
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  ranges,
+  highlightStyle,
+  ...textProps
+}) => {
+  if (!ranges || ranges.length === 0) {
+    return <Text {...textProps}>{text}</Text>;
+  }
+
+  const chars = Array.from(text);
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([rawStart, rawEnd]) => {
+      const start = Math.max(cursor, Math.min(rawStart, chars.length));
+      const end = Math.min(rawEnd, chars.length);
+      if (end <= start) return;
+
+      if (start > cursor) {
+        parts.push(chars.slice(cursor, start).join(''));
+      }
+      parts.push(
+        <Text key={start} style={highlightStyle}>
+          {chars.slice(start, end).join('')}
+        </Text>
+      );
+      cursor = end;
+    });
+
+  if (cursor < chars.length) {
+    parts.push(chars.slice(cursor).join(''));
+  }
+
+  return <Text {...textProps}>{parts}</Text>;
+};
+
+export default HighlightedText;
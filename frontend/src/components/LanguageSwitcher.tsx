@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { View, Text, Pressable, Modal, StyleSheet } from 'react-native';
+import { Locales } from '../i18n';
+import { LocalePreference, useLocale } from '../context/LocaleContext';
+import { useTheme } from '../context/ThemeContext';
+import { Spacing, Typography } from '../theme';
+
+/**
+ * Header control showing the display language's code. Tapping it opens a list
+ * of every supported language, each in its own script, plus "System default"
+ * to follow the device again.
+ */
+const LanguageSwitcher: React.FC = () => {
+  const { colors } = useTheme();
+  const { locale, preference, setPreference, t } = useLocale();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const styles = StyleSheet.create({
+    trigger: {
+      paddingHorizontal: Spacing.md,
+    },
+    triggerText: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.textSecondary,
+    },
+    backdrop: {
+      flex: 1,
+      justifyContent: 'center',
+      padding: Spacing.xl,
+      backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    },
+    sheet: {
+      borderRadius: 12,
+      backgroundColor: colors.cardBackground,
+      overflow: 'hidden',
+      // Modals render outside App's root view, so they need the direction too
+      direction: locale.direction,
+    },
+    title: {
+      fontSize: Typography.fontSize.base,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textPrimary,
+      padding: Spacing.lg,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    option: {
+      paddingHorizontal: Spacing.lg,
+      paddingVertical: Spacing.md,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    optionName: {
+      fontSize: Typography.fontSize.base,
+      color: colors.textPrimary,
+    },
+    optionNameActive: {
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.accentColor,
+    },
+  });
+
+  const options: { preference: LocalePreference; name: string }[] = [
+    { preference: 'system', name: t('language.system') },
+    ...Locales.map((option) => ({ preference: option.code, name: option.name })),
+  ];
+
+  return (
+    <>
+      <Pressable style={styles.trigger} onPress={() => setIsOpen(true)} hitSlop={8}>
+        <Text style={styles.triggerText}>{locale.code.toUpperCase()} ▾</Text>
+      </Pressable>
+
+      <Modal
+        visible={isOpen}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setIsOpen(false)}
+      >
+        <Pressable style={styles.backdrop} onPress={() => setIsOpen(false)}>
+          <View style={styles.sheet}>
+            <Text style={styles.title}>{t('language.title')}</Text>
+            {options.map((option) => {
+              const isActive = option.preference === preference;
+              return (
+                <Pressable
+                  key={option.preference}
+                  style={styles.option}
+                  onPress={() => {
+                    setIsOpen(false);
+                    setPreference(option.preference);
+                  }}
+                >
+                  <Text style={[styles.optionName, isActive && styles.optionNameActive]}>
+                    {option.name}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </Pressable>
+      </Modal>
+    </>
+  );
+};
+
+export default LanguageSwitcher;
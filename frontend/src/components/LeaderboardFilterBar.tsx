@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { View, Text, Pressable, ScrollView, StyleSheet } from 'react-native';
+import RangeSlider from './RangeSlider';
+import { RatingFilter } from '../types';
+import { useTiers } from '../context/TierContext';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography, RatingScale } from '../theme';
+
+interface LeaderboardFilterBarProps {
+  filter: RatingFilter;
+  onChange: (filter: RatingFilter) => void;
+  // Extra header links shown before Filter, e.g. an ExportButton
+  actions?: React.ReactNode;
+}
+
+const SLIDER_STEP = 50;
+
+function isSameRange(a: RatingFilter, b: RatingFilter): boolean {
+  return (
+    (a.minRating ?? RatingScale.min) === (b.minRating ?? RatingScale.min) &&
+    (a.maxRating ?? RatingScale.max) === (b.maxRating ?? RatingScale.max)
+  );
+}
+
+/**
+ * Rating filter above the leaderboard: one chip per tier plus a two-thumb
+ * slider for any custom band. Collapsed it's a single summary line, so the
+ * board keeps its height for the common unfiltered case.
+ *
+ * Tier chips come from the resolved tier config, so with percentile tiers the
+ * "Gold" chip always selects the current Gold band.
+ *
+ * Tapping a tier sets the slider to that tier's band; dragging the slider
+ * deselects the chips unless it lands exactly on a tier. Only released slider
+ * positions are reported, so a drag costs one request, not one per frame.
+ */
+const LeaderboardFilterBar: React.FC<LeaderboardFilterBarProps> = ({
+  filter,
+  onChange,
+  actions,
+}) => {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [dragging, setDragging] = useState<RatingFilter | null>(null);
+  const { tiers } = useTiers();
+
+  const low = filter.minRating ?? RatingScale.min;
+  const high = filter.maxRating ?? RatingScale.max;
+  const shown = dragging ?? { minRating: low, maxRating: high };
+  const isFiltered = low > RatingScale.min || high < RatingScale.max;
+  const showsBand = !isSameRange(shown, {});
+
+  const styles = StyleSheet.create({
+    container: {
+      backgroundColor: colors.cardBackground,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+      paddingVertical: Spacing.sm,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: Spacing.md,
+    },
+    summary: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: showsBand ? colors.accentColor : colors.textSecondary,
+    },
+    headerActions: {
+      flexDirection: 'row',
+    },
+    link: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.accentColor,
+      marginStart: Spacing.md,
+    },
+    chips: {
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.sm,
+    },
+    chip: {
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.xs,
+      borderRadius: 16,
+      borderWidth: 1,
+      marginEnd: Spacing.sm,
+    },
+    chipText: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+    },
+    slider: {
+      paddingHorizontal: Spacing.md,
+    },
+  });
+
+  const summary = showsBand
+    ? t('filter.band', { min: shown.minRating, max: shown.maxRating })
+    : t('filter.all');
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.summary}>{summary}</Text>
+        <View style={styles.headerActions}>
+          {actions}
+          {isFiltered && (
+            <Pressable onPress={() => onChange({})} hitSlop={8}>
+              <Text style={styles.link}>{t('filter.clear')}</Text>
+            </Pressable>
+          )}
+          <Pressable onPress={() => setIsExpanded(!isExpanded)} hitSlop={8}>
+            <Text style={styles.link}>{isExpanded ? t('filter.done') : t('filter.open')}</Text>
+          </Pressable>
+        </View>
+      </View>
+
+      {isExpanded && (
+        <>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.chips}
+          >
+            {tiers.map((tier) => {
+              const range = { minRating: tier.minRating, maxRating: tier.maxRating };
+              const isActive = isSameRange(filter, range);
+              return (
+                <Pressable
+                  key={tier.name}
+                  style={[
+                    styles.chip,
+                    { borderColor: tier.color },
+                    isActive && { backgroundColor: tier.color },
+                  ]}
+                  onPress={() => onChange(isActive ? {} : range)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      { color: isActive ? colors.cardBackground : tier.color },
+                    ]}
+                  >
+                    {tier.name}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+          <View style={styles.slider}>
+            <RangeSlider
+              min={RatingScale.min}
+              max={RatingScale.max}
+              step={SLIDER_STEP}
+              low={low}
+              high={high}
+              onChanging={(minRating, maxRating) => setDragging({ minRating, maxRating })}
+              onChange={(minRating, maxRating) => {
+                const band = { minRating, maxRating };
+                setDragging(null);
+                onChange(isSameRange(band, {}) ? {} : band);
+              }}
+            />
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+export default LeaderboardFilterBar;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  StyleSheet,
+} from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography, Layout } from '../theme';
+
+interface LeaderboardJumpBarProps {
+  onJumpToRank: (rank: number) => void;
+  onShowAround: (username: string) => void;
+  onBackToTop?: () => void;
+}
+
+/**
+ * Jump control above the leaderboard. One field, two meanings: a number (with
+ * or without a leading '#') jumps to that rank, anything else is treated as a
+ * username and shows the players around them. Coaches type "#4000" or a handle
+ * and land on the right slice without scrolling.
+ *
+ * "Top" only appears while the list is showing a window below rank #1.
+ */
+const LeaderboardJumpBar: React.FC<LeaderboardJumpBarProps> = ({
+  onJumpToRank,
+  onShowAround,
+  onBackToTop,
+}) => {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const [value, setValue] = useState('');
+
+  const styles = StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.sm,
+      backgroundColor: colors.cardBackground,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    input: {
+      flex: 1,
+      height: Layout.searchInputHeight - Spacing.sm,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      paddingHorizontal: Spacing.sm,
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    button: {
+      marginStart: Spacing.sm,
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.sm,
+      borderRadius: 8,
+      backgroundColor: colors.accentColor,
+    },
+    secondaryButton: {
+      backgroundColor: colors.background,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+    },
+    buttonText: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.cardBackground,
+    },
+    secondaryButtonText: {
+      color: colors.textPrimary,
+    },
+  });
+
+  const handleSubmit = () => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+
+    const rankMatch = /^#?(\d+)$/.exec(trimmed);
+    if (rankMatch) {
+      const rank = parseInt(rankMatch[1], 10);
+      if (rank > 0) {
+        onJumpToRank(rank);
+      }
+      return;
+    }
+
+    onShowAround(trimmed);
+  };
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.input}
+        placeholder={t('leaderboard.jumpPlaceholder')}
+        placeholderTextColor={colors.textSecondary}
+        value={value}
+        onChangeText={setValue}
+        onSubmitEditing={handleSubmit}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="go"
+      />
+      <Pressable style={styles.button} onPress={handleSubmit}>
+        <Text style={styles.buttonText}>{t('leaderboard.jumpGo')}</Text>
+      </Pressable>
+      {onBackToTop && (
+        <Pressable
+          style={[styles.button, styles.secondaryButton]}
+          onPress={() => {
+            setValue('');
+            onBackToTop();
+          }}
+        >
+          <Text style={[styles.buttonText, styles.secondaryButtonText]}>
+            {t('leaderboard.backToTop')}
+          </Text>
+        </Pressable>
+      )}
+    </View>
+  );
+};
+
+export default LeaderboardJumpBar;
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { forwardRef, useImperativeHandle, useMemo, useRef } from 'react';
 import {
   StyleSheet,
   View,
@@ -6,15 +6,38 @@ import {
   FlatList,
   ActivityIndicator,
   ListRenderItem,
+  Pressable,
 } from 'react-native';
-import { Colors, Spacing, Typography, Layout } from '../theme';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography } from '../theme';
 import LeaderboardRow from './LeaderboardRow';
-import { LeaderboardEntry } from '../types';
+import RefreshStatus from './RefreshStatus';
+import { LeaderboardEntry, RankMovement } from '../types';
+import { useLiveRows } from '../hooks/useLiveRows';
+import { useRowHeight } from '../hooks/useRowHeight';
+import { useWatchlist } from '../context/WatchlistContext';
+import { useCompare } from '../context/CompareContext';
+
+const EMPTY_ROWS: LeaderboardEntry[] = [];
 
 interface LeaderboardListProps {
   data: LeaderboardEntry[];
   isLoading: boolean;
   onEndReached?: () => void;
+  onSelectPlayer?: (username: string) => void;
+  onLoadEarlier?: () => void;
+  highlightedUsername?: string | null;
+  movements?: ReadonlyMap<string, RankMovement>;
+  // Pull-to-refresh, and when the rows were fetched for the header
+  isRefreshing?: boolean;
+  onRefresh?: () => void;
+  updatedAt?: number | null;
+}
+
+export interface LeaderboardListHandle {
+  // viewPosition: 0 puts the row at the top of the list, 0.5 centers it
+  scrollToIndex: (index: number, viewPosition?: number) => void;
 }
 
 /**
@@ -24,31 +47,77 @@ interface LeaderboardListProps {
  * We use fixed row height (60px). This lets FlatList skip layout calculations
  * during scrolling—critical for smooth 1000-row lists. Without it, each scroll
  * triggers re-layout for every row (jank). Trade-off: we lose flexible row heights,
- * but gain smooth UX at scale.
+ * but gain smooth UX at scale. With a larger system text size every row grows by
+ * the same factor (useRowHeight), so the offsets stay exact.
  *
  * Performance optimizations:
  * 1. getItemLayout (60px rows) - O(1) scroll position calculation
  * 2. removeClippedSubviews - memory efficient, renders only visible rows + buffer
  * 3. maxToRenderPerBatch - reduces first render time
  * 4. Sticky header - column labels always visible
- * 5. No images, animations, or dynamic heights per row
+ * 5. No images or dynamic heights per row; the only animation is the
+ *    movement flash, an opacity fade that runs on the native driver
+ *
+ * Live updates: rows are patched in place from the rating-change stream
+ * (see useLiveRows), so ratings and ranks stay current between fetches. Keys
+ * are usernames, not ranks, so a patched rank doesn't remount the row.
+ *
+ * Windows: the list doesn't have to start at rank #1. When the screen loads a
+ * slice deep in the board (jump to rank, around a player), getItemLayout lets
+ * the parent scroll straight to any row through the ref, and onLoadEarlier adds
+ * a "show higher ranks" control above the rows. It sits outside the FlatList on
+ * purpose: a ListHeaderComponent would shift every row and break the offsets
+ * getItemLayout reports.
+ *
+ * Movement: `movements` (see useRankMovements) says how rows changed since the
+ * previous reload. The parent works it out once per data change, keyed by
+ * username, so rendering a row costs one map lookup and scrolling costs
+ * nothing extra.
+ *
+ * Refresh: onRefresh turns on pull-to-refresh, and updatedAt puts "Updated
+ * N seconds ago" with the auto-refresh control (RefreshStatus) above the
+ * column labels. Both live in the fixed header, not in the FlatList.
+ *
+ * Long-pressing a row picks the player for a comparison (see CompareContext).
+ *
+ * The column labels are announced as the list's heading by screen readers.
  */
-const LeaderboardList: React.FC<LeaderboardListProps> = ({
+const LeaderboardList = forwardRef<LeaderboardListHandle, LeaderboardListProps>(({
   data,
   isLoading,
   onEndReached,
-}) => {
+  onSelectPlayer,
+  onLoadEarlier,
+  highlightedUsername,
+  movements,
+  isRefreshing = false,
+  onRefresh,
+  updatedAt,
+}, ref) => {
+  const { colors } = useTheme();
+  const { locale, t } = useLocale();
+  const listRef = useRef<FlatList<LeaderboardEntry>>(null);
+  const watchlist = useWatchlist();
+  const compare = useCompare();
+  const rowHeight = useRowHeight();
+
+  useImperativeHandle(ref, () => ({
+    scrollToIndex: (index: number, viewPosition: number = 0.5) => {
+      listRef.current?.scrollToIndex({ index, animated: false, viewPosition });
+    },
+  }));
+
   const styles = StyleSheet.create({
     container: {
       flex: 1,
-      backgroundColor: Colors.background,
+      backgroundColor: colors.background,
     },
     headerContainer: {
-      backgroundColor: Colors.cardBackground,
+      backgroundColor: colors.cardBackground,
       paddingHorizontal: Spacing.md,
       paddingVertical: Spacing.md,
       borderBottomWidth: 1,
-      borderBottomColor: Colors.borderLight,
+      borderBottomColor: colors.borderLight,
     },
     headerRow: {
       flexDirection: 'row',
@@ -57,20 +126,21 @@ const LeaderboardList: React.FC<LeaderboardListProps> = ({
     headerRank: {
       width: '20%',
       fontWeight: Typography.fontWeight.bold,
-      color: Colors.textSecondary,
+      color: colors.textSecondary,
       fontSize: Typography.fontSize.sm,
     },
     headerUsername: {
       width: '50%',
       fontWeight: Typography.fontWeight.bold,
-      color: Colors.textSecondary,
+      color: colors.textSecondary,
       fontSize: Typography.fontSize.sm,
     },
     headerRating: {
       width: '30%',
-      textAlign: 'right',
+      // Lines up with the row's rating, on the trailing edge in either direction
+      textAlign: locale.direction === 'rtl' ? 'left' : 'right',
       fontWeight: Typography.fontWeight.bold,
-      color: Colors.textSecondary,
+      color: colors.textSecondary,
       fontSize: Typography.fontSize.sm,
     },
     loadingContainer: {
@@ -85,11 +155,22 @@ const LeaderboardList: React.FC<LeaderboardListProps> = ({
     },
     emptyText: {
       fontSize: Typography.fontSize.base,
-      color: Colors.textSecondary,
+      color: colors.textSecondary,
     },
     footerLoader: {
       paddingVertical: Spacing.lg,
     },
+    loadEarlierButton: {
+      alignItems: 'center',
+      paddingVertical: Spacing.sm,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    loadEarlierText: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.accentColor,
+    },
   });
 
   const renderItem: ListRenderItem<LeaderboardEntry> = ({ item }) => (
@@ -97,25 +178,39 @@ const LeaderboardList: React.FC<LeaderboardListProps> = ({
       rank={item.rank}
       username={item.username}
       rating={item.rating}
+      onPress={onSelectPlayer ? () => onSelectPlayer(item.username) : undefined}
+      isStarred={watchlist.isWatched(item.username)}
+      onToggleStar={() => watchlist.toggle(item.username)}
+      isWatchlistFull={watchlist.isFull}
+      isHighlighted={item.username === highlightedUsername}
+      movement={movements?.get(item.username)}
+      compareColor={colors.comparison[compare.indexOf(item.username)]}
+      onToggleCompare={() => compare.toggle(item.username)}
     />
   );
 
+  // Rows re-render when a star, a comparison pick or a movement changes, not on
+  // every render
+  const extraData = useMemo(
+    () => [watchlist.usernames, compare.usernames, movements],
+    [watchlist.usernames, compare.usernames, movements]
+  );
+
   const getItemLayout = (data: ArrayLike<LeaderboardEntry> | null | undefined, index: number) => ({
-    length: Layout.leaderboardRowHeight + Spacing.xs * 2,
-    offset: (Layout.leaderboardRowHeight + Spacing.xs * 2) * index,
+    length: rowHeight + Spacing.xs * 2,
+    offset: (rowHeight + Spacing.xs * 2) * index,
     index,
   });
 
-  const keyExtractor = (item: LeaderboardEntry, index: number) =>
-    `${item.rank}-${item.username}-${index}`;
+  const keyExtractor = (item: LeaderboardEntry) => item.username;
 
   // Ensure data is always an array
-  const safeData = Array.isArray(data) ? data : [];
+  const safeData = useLiveRows(Array.isArray(data) ? data : EMPTY_ROWS, 'rank');
 
   if (isLoading && safeData.length === 0) {
     return (
       <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color={Colors.accentColor} />
+        <ActivityIndicator size="large" color={colors.accentColor} />
       </View>
     );
   }
@@ -123,7 +218,7 @@ const LeaderboardList: React.FC<LeaderboardListProps> = ({
   if (safeData.length === 0) {
     return (
       <View style={styles.emptyContainer}>
-        <Text style={styles.emptyText}>No data available</Text>
+        <Text style={styles.emptyText}>{t('leaderboard.empty')}</Text>
       </View>
     );
   }
@@ -131,15 +226,28 @@ const LeaderboardList: React.FC<LeaderboardListProps> = ({
   return (
     <View style={styles.container}>
       <View style={styles.headerContainer}>
-        <View style={styles.headerRow}>
-          <Text style={styles.headerRank}>Rank</Text>
-          <Text style={styles.headerUsername}>Username</Text>
-          <Text style={styles.headerRating}>Rating</Text>
+        {updatedAt !== undefined && <RefreshStatus updatedAt={updatedAt} />}
+        <View style={styles.headerRow} accessible accessibilityRole="header">
+          <Text style={styles.headerRank}>{t('leaderboard.columnRank')}</Text>
+          <Text style={styles.headerUsername}>{t('leaderboard.columnUsername')}</Text>
+          <Text style={styles.headerRating}>{t('leaderboard.columnRating')}</Text>
         </View>
       </View>
 
+      {onLoadEarlier && (
+        <Pressable
+          style={styles.loadEarlierButton}
+          onPress={onLoadEarlier}
+          accessibilityRole="button"
+        >
+          <Text style={styles.loadEarlierText}>{t('leaderboard.showHigherRanks')}</Text>
+        </Pressable>
+      )}
+
       <FlatList
+        ref={listRef}
         data={safeData}
+        extraData={extraData}
         renderItem={renderItem}
         keyExtractor={keyExtractor}
         getItemLayout={getItemLayout}
@@ -148,17 +256,21 @@ const LeaderboardList: React.FC<LeaderboardListProps> = ({
         updateCellsBatchingPeriod={50}
         onEndReached={onEndReached}
         onEndReachedThreshold={0.3}
+        refreshing={isRefreshing}
+        onRefresh={onRefresh}
         scrollEventThrottle={16}
         ListFooterComponent={
           isLoading ? (
             <View style={styles.footerLoader}>
-              <ActivityIndicator size="small" color={Colors.accentColor} />
+              <ActivityIndicator size="small" color={colors.accentColor} />
             </View>
           ) : null
         }
       />
     </View>
   );
-};
+});
+
+LeaderboardList.displayName = 'LeaderboardList';
 
 export default LeaderboardList;
@@ -1,48 +1,155 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
+  Pressable,
   ViewStyle,
+  Animated,
+  AccessibilityActionEvent,
 } from 'react-native';
-import { Colors, Spacing, Typography, Layout } from '../theme';
+import Sparkline from './Sparkline';
+import HighlightedText from './HighlightedText';
+import TierBadge from './TierBadge';
+import { useTiers } from '../context/TierContext';
+import { MAX_WATCHLIST_SIZE } from '../context/WatchlistContext';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { useRowHeight } from '../hooks/useRowHeight';
+import { Spacing, Typography } from '../theme';
+import { RankMovement } from '../types';
 
 interface LeaderboardRowProps {
   rank: number;
   username: string;
   rating: number;
+  onPress?: () => void;
+  isHighlighted?: boolean;
+  isStarred?: boolean;
+  onToggleStar?: () => void;
+  // The watchlist is at its limit: an unstarred row's star is shown disabled
+  isWatchlistFull?: boolean;
+  sparkline?: number[];
+  usernameMatches?: [number, number][];
+  movement?: RankMovement;
+  // Set while the player is picked for a comparison: their comparison color
+  compareColor?: string;
+  onToggleCompare?: () => void;
 }
 
+const SPARKLINE_WIDTH = 48;
+const SPARKLINE_HEIGHT = 20;
+// How long a moved row stays highlighted after the reload that moved it
+const MOVEMENT_HIGHLIGHT_MS = 2000;
+
 /**
- * Fixed-height leaderboard row (exactly 60px). This constraint is intentional:
- * fixed height enables FlatList's getItemLayout optimization, which makes scroll
- * position calculation O(1) instead of O(N). For 1000-row lists, this is the
- * difference between smooth (60fps) and janky (10fps) scrolling.
+ * Fixed-height leaderboard row (60px at the default text size). This constraint
+ * is intentional: fixed height enables FlatList's getItemLayout optimization,
+ * which makes scroll position calculation O(1) instead of O(N). For 1000-row
+ * lists, this is the difference between smooth (60fps) and janky (10fps)
+ * scrolling. Larger system text sizes scale the height (see useRowHeight), but
+ * it stays the same for every row.
  *
  * Layout: Rank (20%) | Username (50%) | Rating (30%)
- * Design: Top 3 get subtle gold left border + light accent background (no gradients).
- * No animations, no images, no dynamic heights. Performance-first.
+ * Design: Top 3 get subtle gold leading border + light accent background (no gradients).
+ * No images, no dynamic heights, one animation (below). Performance-first.
+ *
+ * Rank prints as a locale ordinal (1st, 1.º, 1er) and rating with the locale's
+ * digits and separators. Margins and borders use start/end rather than
+ * left/right, so the row mirrors cleanly in right-to-left languages.
+ *
+ * onPress is optional so the same row works in tappable lists (open the player
+ * profile) and in static contexts. isHighlighted marks "this is the player you
+ * are looking at" when the row appears among its neighbors.
+ *
+ * onToggleStar adds a watchlist star in front of the username. It lives inside
+ * the username column so the three columns still line up with the list header.
+ * With isWatchlistFull, an empty star is faded and disabled, and says why.
+ *
+ * sparkline draws the player's recent ratings (oldest first) next to the rating,
+ * for screens that have fetched history. Fixed size, so the row height holds.
+ *
+ * usernameMatches highlights the parts of the username a search matched.
+ *
+ * movement shows how the row changed since the previous reload: an arrow and
+ * the places gained or lost under the rank, the rating change under the
+ * rating, or a "new" badge. Both fit in the fixed height. The row also flashes
+ * for a moment after the reload; the flash is an opacity fade on the native
+ * driver, and a row scrolled into view later (the list mounts rows lazily)
+ * skips it, so only the rows on screen at reload time flash.
+ *
+ * Screen readers get the row as one element ("Rank 12, user_5, rating 4,321,
+ * Gold") instead of three unrelated numbers and a name. The star is exposed as
+ * a custom action on the row, since a nested button inside it can't be focused.
+ * Movement is read as the row's value ("Up 3 places, rating up 12").
+ *
+ * onToggleCompare picks or drops the player for a head-to-head comparison on a
+ * long press (a custom action for screen readers). A picked row shows a dot in
+ * compareColor before the username, the color of the player's line on the
+ * Compare screen.
+ *
+ * Every row carries its tier badge after the username, colored per the tier
+ * config (theme/tiers.ts).
  */
 const LeaderboardRow: React.FC<LeaderboardRowProps> = ({
   rank,
   username,
   rating,
+  onPress,
+  isHighlighted = false,
+  isStarred = false,
+  onToggleStar,
+  isWatchlistFull = false,
+  sparkline,
+  usernameMatches,
+  movement,
+  compareColor,
+  onToggleCompare,
 }) => {
+  const { colors } = useTheme();
+  const { formatNumber, formatRank, t } = useLocale();
+  const rowHeight = useRowHeight();
   const isTopThree = rank <= 3;
+  const tier = useTiers().tierFor(rating);
+  const flash = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    const remaining = movement ? movement.at + MOVEMENT_HIGHLIGHT_MS - Date.now() : 0;
+    if (remaining <= 0) return;
+
+    flash.setValue(1);
+    const fade = Animated.timing(flash, {
+      toValue: 0,
+      duration: remaining,
+      useNativeDriver: true,
+    });
+    fade.start();
+    return () => fade.stop();
+  }, [movement?.at, flash]);
 
   const styles = StyleSheet.create({
     container: {
-      height: Layout.leaderboardRowHeight,
+      height: rowHeight,
       flexDirection: 'row',
       alignItems: 'center',
       justifyContent: 'space-between',
-      backgroundColor: isTopThree ? Colors.accentColor + '08' : Colors.cardBackground,
+      backgroundColor: isTopThree ? colors.accentColor + '08' : colors.cardBackground,
       paddingHorizontal: Spacing.md,
       borderRadius: 8,
       marginHorizontal: Spacing.md,
       marginVertical: Spacing.xs,
-      borderLeftWidth: isTopThree ? 3 : 0,
-      borderLeftColor: isTopThree ? Colors.topThreeGold : 'transparent',
+      borderStartWidth: isTopThree ? 3 : 0,
+      borderStartColor: isTopThree ? colors.topThreeGold : 'transparent',
+      borderWidth: isHighlighted ? 1 : 0,
+      borderColor: isHighlighted ? colors.accentColor : 'transparent',
+    },
+    pressed: {
+      opacity: 0.7,
+    },
+    flash: {
+      ...StyleSheet.absoluteFillObject,
+      borderRadius: 8,
+      backgroundColor: colors.accentColor + '20',
     },
     rankSection: {
       width: '20%',
@@ -51,49 +158,238 @@ const LeaderboardRow: React.FC<LeaderboardRowProps> = ({
     rankText: {
       fontSize: Typography.fontSize.lg,
       fontWeight: Typography.fontWeight.bold,
-      color: isTopThree ? Colors.topThreeGold : Colors.textPrimary,
+      color: isTopThree ? colors.topThreeGold : colors.textPrimary,
+    },
+    movementText: {
+      fontSize: Typography.fontSize.xs,
+      fontWeight: Typography.fontWeight.bold,
+    },
+    newBadge: {
+      alignSelf: 'flex-start',
+      paddingHorizontal: Spacing.xs,
+      borderRadius: 4,
+      backgroundColor: colors.accentColor,
+      overflow: 'hidden',
+    },
+    newBadgeText: {
+      fontSize: Typography.fontSize.xs,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.cardBackground,
     },
     usernameSection: {
       width: '50%',
-      justifyContent: 'center',
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    star: {
+      fontSize: Typography.fontSize.lg,
+      color: isStarred ? colors.topThreeGold : colors.textSecondary,
+      marginEnd: Spacing.sm,
+    },
+    starDisabled: {
+      opacity: 0.4,
+    },
+    compareDot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      backgroundColor: compareColor,
+      marginEnd: Spacing.sm,
     },
     usernameText: {
+      flexShrink: 1,
       fontSize: Typography.fontSize.base,
       fontWeight: Typography.fontWeight.medium,
-      color: Colors.textPrimary,
+      color: colors.textPrimary,
+    },
+    badge: {
+      marginStart: Spacing.sm,
+    },
+    usernameMatch: {
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.accentColor,
     },
     ratingSection: {
       width: '30%',
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'flex-end',
+    },
+    sparkline: {
+      marginEnd: Spacing.sm,
+    },
+    ratingColumn: {
+      flexShrink: 1,
       alignItems: 'flex-end',
-      justifyContent: 'center',
     },
     ratingText: {
       fontSize: Typography.fontSize.base,
       fontWeight: Typography.fontWeight.bold,
-      color: Colors.accentColor,
+      color: colors.accentColor,
     },
   });
 
-  return (
-    <View style={styles.container}>
+  // Green for better (a climb, a higher rating), red for worse
+  const changeColor = (change: number) =>
+    change > 0 ? colors.positive : change < 0 ? colors.negative : colors.textSecondary;
+
+  const canStar = isStarred || !isWatchlistFull;
+  const starLabel = !canStar
+    ? t('watchlist.full', { max: MAX_WATCHLIST_SIZE })
+    : t(isStarred ? 'leaderboard.unwatch' : 'leaderboard.watch');
+  const compareLabel = t(compareColor ? 'compare.remove' : 'compare.add');
+
+  // Spoken after the row's label: "Up 3 places, rating up 12"
+  const describeMovement = (change: RankMovement): string | undefined => {
+    if (change.kind === 'new') {
+      return t('leaderboard.newEntryLabel');
+    }
+    const { rankChange, ratingChange } = change;
+    const places =
+      rankChange !== 0
+        ? t(rankChange > 0 ? 'leaderboard.movedUp' : 'leaderboard.movedDown', {
+            count: Math.abs(rankChange),
+          })
+        : undefined;
+    const points =
+      ratingChange !== 0
+        ? t(ratingChange > 0 ? 'leaderboard.ratingUp' : 'leaderboard.ratingDown', {
+            delta: Math.abs(ratingChange),
+          })
+        : undefined;
+    return places && points
+      ? t('leaderboard.movementSummary', { rank: places, rating: points })
+      : places ?? points;
+  };
+  const movementLabel = movement && describeMovement(movement);
+
+  const content = (
+    <>
+      {movement && (
+        <Animated.View pointerEvents="none" style={[styles.flash, { opacity: flash }]} />
+      )}
+
       <View style={styles.rankSection}>
-        <Text style={styles.rankText}>#{rank}</Text>
+        <Text style={styles.rankText} numberOfLines={1} adjustsFontSizeToFit>
+          {formatRank(rank)}
+        </Text>
+        {movement?.kind === 'new' && (
+          <View style={styles.newBadge}>
+            <Text style={styles.newBadgeText} numberOfLines={1}>
+              {t('leaderboard.newEntry')}
+            </Text>
+          </View>
+        )}
+        {movement?.kind === 'moved' && movement.rankChange !== 0 && (
+          <Text
+            style={[styles.movementText, { color: changeColor(movement.rankChange) }]}
+            numberOfLines={1}
+          >
+            {movement.rankChange > 0 ? '▲' : '▼'}
+            {formatNumber(Math.abs(movement.rankChange))}
+          </Text>
+        )}
       </View>
 
       <View style={styles.usernameSection}>
-        <Text
+        {onToggleStar && (
+          <Pressable
+            onPress={onToggleStar}
+            disabled={!canStar}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel={starLabel}
+            accessibilityState={{ disabled: !canStar }}
+          >
+            <Text style={[styles.star, !canStar && styles.starDisabled]}>{isStarred ? '★' : '☆'}</Text>
+          </Pressable>
+        )}
+        {compareColor && <View style={styles.compareDot} />}
+        <HighlightedText
+          text={username}
+          ranges={usernameMatches}
+          highlightStyle={styles.usernameMatch}
           numberOfLines={1}
           ellipsizeMode="tail"
           style={styles.usernameText}
-        >
-          {username}
-        </Text>
+        />
+        {tier && (
+          <View style={styles.badge}>
+            <TierBadge tier={tier} />
+          </View>
+        )}
       </View>
 
       <View style={styles.ratingSection}>
-        <Text style={styles.ratingText}>{rating}</Text>
+        {sparkline && sparkline.length > 1 && (
+          <View style={styles.sparkline}>
+            <Sparkline
+              values={sparkline}
+              width={SPARKLINE_WIDTH}
+              height={SPARKLINE_HEIGHT}
+            />
+          </View>
+        )}
+        <View style={styles.ratingColumn}>
+          <Text style={styles.ratingText} numberOfLines={1} adjustsFontSizeToFit>
+            {formatNumber(rating)}
+          </Text>
+          {movement?.kind === 'moved' && movement.ratingChange !== 0 && (
+            <Text
+              style={[styles.movementText, { color: changeColor(movement.ratingChange) }]}
+              numberOfLines={1}
+            >
+              {movement.ratingChange > 0 ? '+' : ''}
+              {formatNumber(movement.ratingChange)}
+            </Text>
+          )}
+        </View>
+      </View>
+    </>
+  );
+
+  const accessibilityProps = {
+    accessible: true,
+    accessibilityLabel: t(tier ? 'leaderboard.rowLabelTier' : 'leaderboard.rowLabel', {
+      rank,
+      username,
+      rating,
+      tier: tier?.name,
+    }),
+    accessibilityState: { selected: isHighlighted },
+    accessibilityValue: movementLabel ? { text: movementLabel } : undefined,
+    accessibilityActions: [
+      ...(onToggleStar && canStar ? [{ name: 'toggleStar', label: starLabel }] : []),
+      ...(onToggleCompare ? [{ name: 'toggleCompare', label: compareLabel }] : []),
+    ],
+    onAccessibilityAction: (event: AccessibilityActionEvent) => {
+      if (event.nativeEvent.actionName === 'toggleStar') {
+        onToggleStar?.();
+      } else if (event.nativeEvent.actionName === 'toggleCompare') {
+        onToggleCompare?.();
+      }
+    },
+  };
+
+  if (!onPress) {
+    return (
+      <View style={styles.container} {...accessibilityProps}>
+        {content}
       </View>
-    </View>
+    );
+  }
+
+  return (
+    <Pressable
+      onPress={onPress}
+      onLongPress={onToggleCompare}
+      style={({ pressed }) => [styles.container, pressed && styles.pressed]}
+      accessibilityRole="button"
+      accessibilityHint={t('leaderboard.rowHint')}
+      {...accessibilityProps}
+    >
+      {content}
+    </Pressable>
   );
 };
 
@@ -0,0 +1,150 @@
+import React from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet } from 'react-native';
+import { MessageKey } from '../i18n';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography, Layout } from '../theme';
+
+export type GameResult = 'first' | 'draw' | 'second';
+
+// A game as typed into the Record Match form, before it's a MatchGame
+export interface GameDraft {
+  id: number;
+  first: string;
+  second: string;
+  result: GameResult;
+}
+
+interface MatchGameRowProps {
+  index: number;
+  game: GameDraft;
+  onChange: (game: GameDraft) => void;
+  // Omitted for the only game, which can't be removed
+  onRemove?: () => void;
+}
+
+const RESULTS: { result: GameResult; label: MessageKey }[] = [
+  { result: 'first', label: 'match.won' },
+  { result: 'draw', label: 'match.draw' },
+  { result: 'second', label: 'match.lost' },
+];
+
+/**
+ * One game in the Record Match form: two player names and the result from the
+ * first player's side (won / draw / lost).
+ */
+const MatchGameRow: React.FC<MatchGameRowProps> = ({ index, game, onChange, onRemove }) => {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const styles = StyleSheet.create({
+    container: {
+      paddingVertical: Spacing.sm,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: Spacing.xs,
+    },
+    label: {
+      fontSize: Typography.fontSize.xs,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textSecondary,
+    },
+    remove: {
+      fontSize: Typography.fontSize.xs,
+      color: colors.negative,
+    },
+    players: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    input: {
+      flex: 1,
+      height: Layout.searchInputHeight - Spacing.sm,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      paddingHorizontal: Spacing.sm,
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    versus: {
+      marginHorizontal: Spacing.sm,
+      fontSize: Typography.fontSize.xs,
+      color: colors.textSecondary,
+    },
+    results: {
+      flexDirection: 'row',
+      marginTop: Spacing.sm,
+    },
+    chip: {
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.xs,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      marginEnd: Spacing.sm,
+    },
+    chipActive: {
+      backgroundColor: colors.accentColor,
+      borderColor: colors.accentColor,
+    },
+    chipText: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    chipTextActive: {
+      color: colors.cardBackground,
+    },
+  });
+
+  const nameInput = (value: string, placeholder: string, key: 'first' | 'second') => (
+    <TextInput
+      style={styles.input}
+      placeholder={placeholder}
+      placeholderTextColor={colors.textSecondary}
+      value={value}
+      onChangeText={(text) => onChange({ ...game, [key]: text })}
+      autoCapitalize="none"
+      autoCorrect={false}
+    />
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.label}>{t('match.game', { number: index + 1 })}</Text>
+        {onRemove && (
+          <Pressable onPress={onRemove} hitSlop={8}>
+            <Text style={styles.remove}>{t('match.remove')}</Text>
+          </Pressable>
+        )}
+      </View>
+      <View style={styles.players}>
+        {nameInput(game.first, t('match.player'), 'first')}
+        <Text style={styles.versus}>{t('match.versus')}</Text>
+        {nameInput(game.second, t('match.opponent'), 'second')}
+      </View>
+      <View style={styles.results}>
+        {RESULTS.map((option) => {
+          const isActive = option.result === game.result;
+          return (
+            <Pressable
+              key={option.result}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => onChange({ ...game, result: option.result })}
+            >
+              <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                {t(option.label)}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+export default MatchGameRow;
@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  PanResponder,
+  StyleSheet,
+  LayoutChangeEvent,
+} from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+
+interface RangeSliderProps {
+  min: number;
+  max: number;
+  step: number;
+  low: number;
+  high: number;
+  // Called continuously while dragging, for live labels
+  onChanging?: (low: number, high: number) => void;
+  // Called once when a thumb is released; this is where callers should fetch
+  onChange: (low: number, high: number) => void;
+}
+
+const THUMB_SIZE = 24;
+const TRACK_HEIGHT = 4;
+
+type Thumb = 'low' | 'high';
+
+/**
+ * Two-thumb slider for picking a numeric range. Built on PanResponder so it
+ * works identically on web and native without a slider dependency (the stock
+ * community slider has a single thumb).
+ *
+ * The thumbs can meet but not cross. Values snap to `step`.
+ */
+const RangeSlider: React.FC<RangeSliderProps> = ({
+  min,
+  max,
+  step,
+  low,
+  high,
+  onChanging,
+  onChange,
+}) => {
+  const { colors } = useTheme();
+  const [width, setWidth] = useState(0);
+  const [values, setValues] = useState({ low, high });
+
+  // Latest values for the pan handlers, which are created once
+  const state = useRef({ width, values, start: 0, onChanging, onChange });
+  state.current.width = width;
+  state.current.values = values;
+  state.current.onChanging = onChanging;
+  state.current.onChange = onChange;
+
+  // Follow external changes (e.g. a tier chip was tapped)
+  useEffect(() => {
+    setValues({ low, high });
+  }, [low, high]);
+
+  const styles = StyleSheet.create({
+    container: {
+      height: THUMB_SIZE,
+      justifyContent: 'center',
+      marginHorizontal: THUMB_SIZE / 2,
+    },
+    track: {
+      height: TRACK_HEIGHT,
+      borderRadius: TRACK_HEIGHT / 2,
+      backgroundColor: colors.borderLight,
+    },
+    selected: {
+      position: 'absolute',
+      height: TRACK_HEIGHT,
+      borderRadius: TRACK_HEIGHT / 2,
+      backgroundColor: colors.accentColor,
+    },
+    thumb: {
+      position: 'absolute',
+      width: THUMB_SIZE,
+      height: THUMB_SIZE,
+      borderRadius: THUMB_SIZE / 2,
+      borderWidth: 2,
+      borderColor: colors.accentColor,
+      backgroundColor: colors.cardBackground,
+    },
+  });
+
+  const responders = useMemo(() => {
+    const toPosition = (value: number) =>
+      ((value - min) / (max - min)) * state.current.width;
+
+    const toValue = (position: number) => {
+      const ratio = Math.min(1, Math.max(0, position / (state.current.width || 1)));
+      return Math.round((min + ratio * (max - min)) / step) * step;
+    };
+
+    const create = (thumb: Thumb) =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderGrant: () => {
+          state.current.start = toPosition(state.current.values[thumb]);
+        },
+        onPanResponderMove: (_, gesture) => {
+          const current = state.current.values;
+          let value = toValue(state.current.start + gesture.dx);
+          value =
+            thumb === 'low'
+              ? Math.max(min, Math.min(value, current.high))
+              : Math.min(max, Math.max(value, current.low));
+          if (value === current[thumb]) return;
+
+          const next = { ...current, [thumb]: value };
+          state.current.values = next;
+          setValues(next);
+          state.current.onChanging?.(next.low, next.high);
+        },
+        onPanResponderRelease: () => {
+          const { low: finalLow, high: finalHigh } = state.current.values;
+          state.current.onChange(finalLow, finalHigh);
+        },
+        onPanResponderTerminate: () => {
+          const { low: finalLow, high: finalHigh } = state.current.values;
+          state.current.onChange(finalLow, finalHigh);
+        },
+      });
+
+    return { low: create('low'), high: create('high') };
+  }, [min, max, step]);
+
+  const lowX = width > 0 ? ((values.low - min) / (max - min)) * width : 0;
+  const highX = width > 0 ? ((values.high - min) / (max - min)) * width : width;
+
+  return (
+    <View
+      style={styles.container}
+      onLayout={(event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width)}
+    >
+      <View style={styles.track} />
+      <View style={[styles.selected, { left: lowX, width: highX - lowX }]} />
+      <View
+        style={[styles.thumb, { left: lowX - THUMB_SIZE / 2 }]}
+        {...responders.low.panHandlers}
+      />
+      <View
+        style={[styles.thumb, { left: highX - THUMB_SIZE / 2 }]}
+        {...responders.high.panHandlers}
+      />
+    </View>
+  );
+};
+
+export default RangeSlider;
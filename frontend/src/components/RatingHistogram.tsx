@@ -0,0 +1,95 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography } from '../theme';
+import { DistributionBucket } from '../types';
+
+interface RatingHistogramProps {
+  buckets: DistributionBucket[];
+  highlightRating?: number | null;
+}
+
+const CHART_HEIGHT = 160;
+
+/**
+ * Bar chart of the rating distribution, one bar per bucket from /stats.
+ * Plain Views with percentage heights: ~50 bars don't need a chart library,
+ * and this renders the same on web and native.
+ *
+ * highlightRating colors the bucket that contains it, which is how the Stats
+ * screen shows where a chosen player falls.
+ */
+const RatingHistogram: React.FC<RatingHistogramProps> = ({
+  buckets,
+  highlightRating,
+}) => {
+  const { colors } = useTheme();
+  const { formatNumber } = useLocale();
+  const styles = StyleSheet.create({
+    chart: {
+      height: CHART_HEIGHT,
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    bar: {
+      flex: 1,
+      marginHorizontal: 0.5,
+      borderTopLeftRadius: 2,
+      borderTopRightRadius: 2,
+      backgroundColor: colors.accentColor,
+    },
+    highlightedBar: {
+      backgroundColor: colors.topThreeGold,
+    },
+    axis: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginTop: Spacing.xs,
+    },
+    axisLabel: {
+      fontSize: Typography.fontSize.xs,
+      color: colors.textSecondary,
+    },
+  });
+
+  if (buckets.length === 0) {
+    return null;
+  }
+
+  const maxCount = Math.max(1, ...buckets.map((bucket) => bucket.count));
+  const first = buckets[0];
+  const middle = buckets[Math.floor(buckets.length / 2)];
+  const last = buckets[buckets.length - 1];
+
+  const isHighlighted = (bucket: DistributionBucket) =>
+    highlightRating != null &&
+    highlightRating >= bucket.min_rating &&
+    highlightRating <= bucket.max_rating;
+
+  return (
+    <View>
+      <View style={styles.chart}>
+        {buckets.map((bucket) => (
+          <View
+            key={bucket.min_rating}
+            style={[
+              styles.bar,
+              { height: `${(bucket.count / maxCount) * 100}%` },
+              isHighlighted(bucket) && styles.highlightedBar,
+            ]}
+          />
+        ))}
+      </View>
+      <View style={styles.axis}>
+        <Text style={styles.axisLabel}>{formatNumber(first.min_rating)}</Text>
+        <Text style={styles.axisLabel}>{formatNumber(middle.min_rating)}</Text>
+        <Text style={styles.axisLabel}>{formatNumber(last.max_rating)}</Text>
+      </View>
+    </View>
+  );
+};
+
+export default RatingHistogram;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { View, Text, Pressable, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Sparkline from './Sparkline';
+import { HistoryPoint } from '../types';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography } from '../theme';
+
+interface RatingHistoryChartProps {
+  points: HistoryPoint[];
+}
+
+type Metric = 'rating' | 'rank';
+
+const CHART_HEIGHT = 140;
+
+/**
+ * Full-width history chart for the player profile: rating or rank over the
+ * points the backend has kept, with the range on the y axis and the first and
+ * last timestamps on the x axis. Rank is drawn inverted so "up" always means
+ * "doing better".
+ *
+ * The width isn't known until layout, so the line is only drawn after the
+ * first onLayout.
+ */
+const RatingHistoryChart: React.FC<RatingHistoryChartProps> = ({ points }) => {
+  const { colors } = useTheme();
+  const { t, formatNumber, formatRank, formatTime } = useLocale();
+  const [metric, setMetric] = useState<Metric>('rating');
+  const [width, setWidth] = useState(0);
+
+  const styles = StyleSheet.create({
+    toggleRow: {
+      flexDirection: 'row',
+      marginBottom: Spacing.sm,
+    },
+    toggle: {
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.xs,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      marginEnd: Spacing.sm,
+    },
+    toggleActive: {
+      backgroundColor: colors.accentColor,
+      borderColor: colors.accentColor,
+    },
+    toggleText: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    toggleTextActive: {
+      color: colors.cardBackground,
+    },
+    chartRow: {
+      flexDirection: 'row',
+    },
+    yAxis: {
+      height: CHART_HEIGHT,
+      justifyContent: 'space-between',
+      marginEnd: Spacing.sm,
+    },
+    chart: {
+      flex: 1,
+      height: CHART_HEIGHT,
+      borderLeftWidth: 1,
+      borderBottomWidth: 1,
+      borderColor: colors.borderLight,
+    },
+    xAxis: {
+      // Time runs left to right like the line, even in right-to-left languages
+      direction: 'ltr',
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginTop: Spacing.xs,
+    },
+    axisLabel: {
+      fontSize: Typography.fontSize.xs,
+      color: colors.textSecondary,
+    },
+    emptyText: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+    },
+  });
+
+  if (points.length < 2) {
+    return (
+      <Text style={styles.emptyText}>{t('history.empty')}</Text>
+    );
+  }
+
+  const values = points.map((point) => point[metric]);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const isRank = metric === 'rank';
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  return (
+    <View>
+      <View style={styles.toggleRow}>
+        {(['rating', 'rank'] as Metric[]).map((option) => {
+          const isActive = option === metric;
+          return (
+            <Pressable
+              key={option}
+              style={[styles.toggle, isActive && styles.toggleActive]}
+              onPress={() => setMetric(option)}
+            >
+              <Text style={[styles.toggleText, isActive && styles.toggleTextActive]}>
+                {option === 'rating' ? t('history.rating') : t('history.rank')}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <View style={styles.chartRow}>
+        <View style={styles.yAxis}>
+          <Text style={styles.axisLabel}>
+            {isRank ? formatRank(min) : formatNumber(max)}
+          </Text>
+          <Text style={styles.axisLabel}>
+            {isRank ? formatRank(max) : formatNumber(min)}
+          </Text>
+        </View>
+        <View style={styles.chart} onLayout={handleLayout}>
+          {width > 0 && (
+            <Sparkline
+              values={values}
+              width={width}
+              height={CHART_HEIGHT}
+              strokeWidth={2}
+              invert={isRank}
+            />
+          )}
+        </View>
+      </View>
+      <View style={styles.xAxis}>
+        <Text style={styles.axisLabel}>{formatTime(points[0].timestamp)}</Text>
+        <Text style={styles.axisLabel}>
+          {formatTime(points[points.length - 1].timestamp)}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+export default RatingHistoryChart;
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { useIsFocused } from '@react-navigation/native';
+import { AUTO_REFRESH_INTERVALS, useRefreshSettings } from '../context/RefreshContext';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography } from '../theme';
+
+interface RefreshStatusProps {
+  // When the list's data was fetched, null before the first fetch
+  updatedAt: number | null;
+}
+
+// Under this, "just now" rather than a count that changes every second
+const JUST_NOW_MS = 5000;
+
+/**
+ * List header line: how long ago the rows were fetched ("Updated 12 seconds
+ * ago") and the auto-refresh interval, which steps through Off, 15 s, 30 s and
+ * 60 s on each tap, like the theme switcher.
+ *
+ * The age ticks once a second, re-rendering only this line, never the list,
+ * and stops ticking while its screen is out of focus.
+ */
+const RefreshStatus: React.FC<RefreshStatusProps> = ({ updatedAt }) => {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const { autoRefreshMs, setAutoRefreshMs } = useRefreshSettings();
+  const isFocused = useIsFocused();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (updatedAt === null || !isFocused) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [updatedAt, isFocused]);
+
+  const styles = StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: Spacing.sm,
+    },
+    updatedText: {
+      flexShrink: 1,
+      fontSize: Typography.fontSize.xs,
+      color: colors.textSecondary,
+    },
+    autoText: {
+      fontSize: Typography.fontSize.xs,
+      fontWeight: Typography.fontWeight.medium,
+      color: autoRefreshMs ? colors.accentColor : colors.textSecondary,
+    },
+  });
+
+  const age = updatedAt === null ? 0 : Math.max(0, now - updatedAt);
+  const updatedLabel =
+    updatedAt === null
+      ? ''
+      : age < JUST_NOW_MS
+        ? t('refresh.updatedJustNow')
+        : age < 60 * 1000
+          ? t('refresh.updatedSeconds', { count: Math.floor(age / 1000) })
+          : t('refresh.updatedMinutes', { count: Math.floor(age / 60000) });
+
+  const autoLabel = autoRefreshMs
+    ? t('refresh.autoInterval', { seconds: autoRefreshMs / 1000 })
+    : t('refresh.autoOff');
+
+  const next =
+    AUTO_REFRESH_INTERVALS[
+      (AUTO_REFRESH_INTERVALS.indexOf(autoRefreshMs) + 1) % AUTO_REFRESH_INTERVALS.length
+    ];
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.updatedText} numberOfLines={1}>
+        {updatedLabel}
+      </Text>
+      <Pressable
+        onPress={() => setAutoRefreshMs(next)}
+        hitSlop={8}
+        accessibilityRole="button"
+        accessibilityHint={t('refresh.autoHint')}
+      >
+        <Text style={styles.autoText}>⟳ {autoLabel}</Text>
+      </Pressable>
+    </View>
+  );
+};
+
+export default RefreshStatus;
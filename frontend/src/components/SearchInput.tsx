@@ -5,7 +5,9 @@ import {
   StyleSheet,
   ActivityIndicator,
 } from 'react-native';
-import { Colors, Spacing, Typography, Layout } from '../theme';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography, Layout } from '../theme';
 
 interface SearchInputProps {
   value: string;
@@ -16,27 +18,33 @@ interface SearchInputProps {
 
 /**
  * Search input component (dumb component—no debounce logic).
- * The parent (SearchScreen) handles debouncing because it also manages the
- * results state. This component just renders the input field and shows a
- * loading spinner when parent is fetching.
+ * The parent (SearchScreen, via useSearch) handles debouncing because it also
+ * manages the results state. This component just renders the input field and
+ * shows a loading spinner when parent is fetching. The field stays editable
+ * while a search is in flight: typing is what cancels it.
  *
- * Fixed height: 44px (iOS standard). Rounded border, light theme.
+ * Height: 44px (iOS standard), growing with larger system text sizes. Rounded
+ * border, colors from the active theme; the iOS keyboard follows it too. Screen
+ * readers announce it as a search field, and the spinner as "Searching".
  */
 const SearchInput: React.FC<SearchInputProps> = ({
   value,
   onChangeText,
-  placeholder = 'Search username…',
+  placeholder,
   isLoading = false,
 }) => {
+  const { colors, scheme } = useTheme();
+  const { t } = useLocale();
+
   const styles = StyleSheet.create({
     container: {
       flexDirection: 'row',
       alignItems: 'center',
-      height: Layout.searchInputHeight,
-      backgroundColor: Colors.cardBackground,
+      minHeight: Layout.searchInputHeight,
+      backgroundColor: colors.cardBackground,
       borderRadius: 12,
       borderWidth: 1,
-      borderColor: Colors.borderLight,
+      borderColor: colors.borderLight,
       paddingHorizontal: Spacing.md,
       marginHorizontal: Spacing.md,
       marginVertical: Spacing.md,
@@ -44,11 +52,11 @@ const SearchInput: React.FC<SearchInputProps> = ({
     input: {
       flex: 1,
       fontSize: Typography.fontSize.base,
-      color: Colors.textPrimary,
-      height: '100%',
+      color: colors.textPrimary,
+      minHeight: Layout.searchInputHeight,
     },
     loader: {
-      marginLeft: Spacing.sm,
+      marginStart: Spacing.sm,
     },
   });
 
@@ -56,20 +64,23 @@ const SearchInput: React.FC<SearchInputProps> = ({
     <View style={styles.container}>
       <TextInput
         style={styles.input}
-        placeholder={placeholder}
-        placeholderTextColor={Colors.textSecondary}
+        placeholder={placeholder ?? t('search.placeholder')}
+        accessibilityLabel={t('search.inputLabel')}
+        accessibilityRole="search"
+        placeholderTextColor={colors.textSecondary}
         value={value}
         onChangeText={onChangeText}
-        editable={!isLoading}
         autoCapitalize="none"
         autoCorrect={false}
         returnKeyType="search"
+        keyboardAppearance={scheme}
       />
       {isLoading && (
         <ActivityIndicator
           size="small"
-          color={Colors.accentColor}
+          color={colors.accentColor}
           style={styles.loader}
+          accessibilityLabel={t('search.searching')}
         />
       )}
     </View>
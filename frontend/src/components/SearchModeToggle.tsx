@@ -0,0 +1,80 @@
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { SearchMode } from '../types';
+import { MessageKey } from '../i18n';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography } from '../theme';
+
+interface SearchModeToggleProps {
+  mode: SearchMode;
+  onChange: (mode: SearchMode) => void;
+}
+
+const MODES: { mode: SearchMode; label: MessageKey }[] = [
+  { mode: 'prefix', label: 'search.modePrefix' },
+  { mode: 'substring', label: 'search.modeSubstring' },
+  { mode: 'fuzzy', label: 'search.modeFuzzy' },
+];
+
+/**
+ * Segmented control for the search match mode, shown under SearchInput.
+ * "Contains" finds "_42" anywhere in a handle; "Fuzzy" also tolerates a typo
+ * or two, for when only part of a name is remembered. Each segment reads as a
+ * button, with the active one marked selected.
+ */
+const SearchModeToggle: React.FC<SearchModeToggleProps> = ({ mode, onChange }) => {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const styles = StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      marginHorizontal: Spacing.md,
+      marginBottom: Spacing.sm,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      backgroundColor: colors.cardBackground,
+      overflow: 'hidden',
+    },
+    segment: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: Spacing.sm,
+    },
+    segmentActive: {
+      backgroundColor: colors.accentColor,
+    },
+    label: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.textPrimary,
+    },
+    labelActive: {
+      color: colors.cardBackground,
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      {MODES.map((option) => {
+        const isActive = option.mode === mode;
+        return (
+          <Pressable
+            key={option.mode}
+            style={[styles.segment, isActive && styles.segmentActive]}
+            onPress={() => onChange(option.mode)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: isActive }}
+          >
+            <Text style={[styles.label, isActive && styles.labelActive]}>
+              {t(option.label)}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+};
+
+export default SearchModeToggle;
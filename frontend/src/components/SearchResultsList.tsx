@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -6,15 +6,29 @@ import {
   FlatList,
   ListRenderItem,
   ActivityIndicator,
+  AccessibilityInfo,
 } from 'react-native';
-import { Colors, Spacing, Typography } from '../theme';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography } from '../theme';
 import LeaderboardRow from './LeaderboardRow';
+import RefreshStatus from './RefreshStatus';
 import { SearchResult } from '../types';
+import { useLiveRows } from '../hooks/useLiveRows';
+import { useWatchlist } from '../context/WatchlistContext';
+import { useCompare } from '../context/CompareContext';
 
 interface SearchResultsListProps {
   data: SearchResult[];
   isLoading: boolean;
   isEmpty: boolean;
+  onSelectPlayer?: (username: string) => void;
+  // Pull-to-refresh, and when the results were fetched for the header
+  isRefreshing?: boolean;
+  onRefresh?: () => void;
+  updatedAt?: number | null;
+  // Shown at the end of the count line, e.g. an export button
+  actions?: React.ReactNode;
 }
 
 /**
@@ -24,16 +38,56 @@ interface SearchResultsListProps {
  *
  * FlatList optimization: removeClippedSubviews + scrollEventThrottle keep memory
  * and CPU usage reasonable, even for 50 results.
+ *
+ * Results are patched from the live rating stream while they're on screen, so a
+ * player's rating and rank move without re-running the search. The characters
+ * each result matched on are highlighted in its username. Long-pressing a
+ * result picks the player for a comparison.
+ *
+ * Screen readers hear the result count ("12 results", "No results found") each
+ * time a search finishes. The count line is an Android live region too, but it
+ * unmounts while loading, so the announcement is made explicitly on both
+ * platforms; live patches to the rows don't trigger it, and a refresh only
+ * does when the count changed.
+ *
+ * onRefresh turns on pull-to-refresh; updatedAt adds the "Updated N seconds
+ * ago" line with the auto-refresh control (RefreshStatus) under the count.
  */
 const SearchResultsList: React.FC<SearchResultsListProps> = ({
   data,
   isLoading,
   isEmpty,
+  onSelectPlayer,
+  isRefreshing = false,
+  onRefresh,
+  updatedAt,
+  actions,
 }) => {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const liveData = useLiveRows(data, 'global_rank');
+  const watchlist = useWatchlist();
+  const compare = useCompare();
+
+  const wasLoading = useRef(isLoading);
+  const announcedCount = useRef<number | null>(null);
+
+  useEffect(() => {
+    const finished = wasLoading.current && !isLoading;
+    wasLoading.current = isLoading;
+    if (isLoading || isEmpty) return;
+    if (!finished && announcedCount.current === data.length) return;
+
+    announcedCount.current = data.length;
+    AccessibilityInfo.announceForAccessibility(
+      data.length === 0 ? t('search.noResults') : t('search.resultCount', { count: data.length })
+    );
+  }, [data, isLoading, isEmpty, t]);
+
   const styles = StyleSheet.create({
     container: {
       flex: 1,
-      backgroundColor: Colors.background,
+      backgroundColor: colors.background,
     },
     emptyContainer: {
       flex: 1,
@@ -42,18 +96,28 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({
     },
     emptyText: {
       fontSize: Typography.fontSize.base,
-      color: Colors.textSecondary,
+      color: colors.textSecondary,
     },
     loadingContainer: {
       flex: 1,
       justifyContent: 'center',
       alignItems: 'center',
     },
+    countRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginHorizontal: Spacing.md,
+      marginTop: Spacing.md,
+    },
     resultCount: {
+      flexShrink: 1,
       fontSize: Typography.fontSize.sm,
-      color: Colors.textSecondary,
+      color: colors.textSecondary,
+    },
+    refreshStatus: {
       marginHorizontal: Spacing.md,
-      marginTop: Spacing.md,
+      marginTop: Spacing.xs,
     },
   });
 
@@ -62,40 +126,63 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({
       rank={item.global_rank}
       username={item.username}
       rating={item.rating}
+      onPress={onSelectPlayer ? () => onSelectPlayer(item.username) : undefined}
+      isStarred={watchlist.isWatched(item.username)}
+      onToggleStar={() => watchlist.toggle(item.username)}
+      isWatchlistFull={watchlist.isFull}
+      usernameMatches={item.matches}
+      compareColor={colors.comparison[compare.indexOf(item.username)]}
+      onToggleCompare={() => compare.toggle(item.username)}
     />
   );
 
+  const extraData = useMemo(
+    () => [watchlist.usernames, compare.usernames],
+    [watchlist.usernames, compare.usernames]
+  );
+
   const keyExtractor = (item: SearchResult, index: number) =>
     `search-${item.username}-${index}`;
 
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color={Colors.accentColor} />
+        <ActivityIndicator size="large" color={colors.accentColor} />
       </View>
     );
   }
 
-  if (isEmpty && data.length === 0) {
+  if (isEmpty && liveData.length === 0) {
     return (
       <View style={styles.emptyContainer}>
-        <Text style={styles.emptyText}>No results found</Text>
+        <Text style={styles.emptyText}>{t('search.noResults')}</Text>
       </View>
     );
   }
 
   return (
     <View style={styles.container}>
-      <Text style={styles.resultCount}>
-        {data.length} result{data.length !== 1 ? 's' : ''}
-      </Text>
+      <View style={styles.countRow}>
+        <Text style={styles.resultCount} accessibilityLiveRegion="polite">
+          {t('search.resultCount', { count: liveData.length })}
+        </Text>
+        {actions}
+      </View>
+      {updatedAt !== undefined && (
+        <View style={styles.refreshStatus}>
+          <RefreshStatus updatedAt={updatedAt} />
+        </View>
+      )}
       <FlatList
-        data={data}
+        data={liveData}
+        extraData={extraData}
         renderItem={renderItem}
         keyExtractor={keyExtractor}
         removeClippedSubviews={true}
         maxToRenderPerBatch={20}
         scrollEventThrottle={16}
+        refreshing={isRefreshing}
+        onRefresh={onRefresh}
       />
     </View>
   );
@@ -0,0 +1,71 @@
+import React from 'react';
+import Svg, { Polyline } from 'react-native-svg';
+import { useTheme } from '../context/ThemeContext';
+
+interface SparklineProps {
+  values: number[];
+  width: number;
+  height: number;
+  color?: string;
+  strokeWidth?: number;
+  // Draw larger values lower (ranks: #1 is the top of the chart)
+  invert?: boolean;
+}
+
+/**
+ * Minimal line chart with no axes or labels, sized to sit inside a row.
+ * Values are spread evenly along x regardless of their timestamps: a sparkline
+ * answers "up or down lately", not "when".
+ *
+ * Color defaults to green when the series ends higher than it started and red
+ * when lower (or the reverse with invert, since a falling rank is good news).
+ */
+const Sparkline: React.FC<SparklineProps> = ({
+  values,
+  width,
+  height,
+  color,
+  strokeWidth = 1.5,
+  invert = false,
+}) => {
+  const { colors } = useTheme();
+  if (values.length < 2) {
+    return null;
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  // Keep the stroke inside the viewport at the extremes
+  const pad = strokeWidth;
+  const innerHeight = height - pad * 2;
+
+  const points = values
+    .map((value, index) => {
+      const x = (index / (values.length - 1)) * width;
+      const normalized = (value - min) / range;
+      const y = pad + (invert ? normalized : 1 - normalized) * innerHeight;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  const delta = values[values.length - 1] - values[0];
+  const improved = invert ? delta < 0 : delta > 0;
+  const stroke =
+    color ?? (delta === 0 ? colors.textSecondary : improved ? colors.positive : colors.negative);
+
+  return (
+    <Svg width={width} height={height}>
+      <Polyline
+        points={points}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={strokeWidth}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </Svg>
+  );
+};
+
+export default Sparkline;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Text, Pressable, StyleSheet } from 'react-native';
+import { ThemePreference, useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { MessageKey } from '../i18n';
+import { Spacing, Typography } from '../theme';
+
+const NEXT: Record<ThemePreference, ThemePreference> = {
+  system: 'light',
+  light: 'dark',
+  dark: 'system',
+};
+
+const LABELS: Record<ThemePreference, { icon: string; label: MessageKey }> = {
+  system: { icon: '◐', label: 'theme.system' },
+  light: { icon: '☀', label: 'theme.light' },
+  dark: { icon: '☾', label: 'theme.dark' },
+};
+
+/**
+ * Header control for the color scheme. Each tap steps through Auto (follow
+ * the system), Light and Dark; the choice is remembered across restarts.
+ */
+const ThemeSwitcher: React.FC = () => {
+  const { colors, preference, setPreference } = useTheme();
+  const { t } = useLocale();
+  const { icon, label } = LABELS[preference];
+
+  const styles = StyleSheet.create({
+    trigger: {
+      paddingHorizontal: Spacing.md,
+    },
+    triggerText: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.textSecondary,
+    },
+  });
+
+  return (
+    <Pressable
+      style={styles.trigger}
+      onPress={() => setPreference(NEXT[preference])}
+      hitSlop={8}
+    >
+      <Text style={styles.triggerText}>
+        {icon} {t(label)}
+      </Text>
+    </Pressable>
+  );
+};
+
+export default ThemeSwitcher;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Tier } from '../context/TierContext';
+import { Spacing, Typography } from '../theme';
+
+interface TierBadgeProps {
+  tier: Tier;
+  // 'compact' shows the abbreviation (rows), 'full' the whole name (profile)
+  variant?: 'compact' | 'full';
+}
+
+/**
+ * Colored pill naming a player's tier. Tinted background with the tier color
+ * for text and border, so it reads on both plain and top-three rows.
+ */
+const TierBadge: React.FC<TierBadgeProps> = ({ tier, variant = 'compact' }) => {
+  const isCompact = variant === 'compact';
+
+  const styles = StyleSheet.create({
+    badge: {
+      alignSelf: 'flex-start',
+      paddingHorizontal: isCompact ? Spacing.xs : Spacing.sm,
+      paddingVertical: isCompact ? 0 : 2,
+      borderRadius: 6,
+      borderWidth: 1,
+      borderColor: tier.color,
+      backgroundColor: tier.color + '1A',
+    },
+    text: {
+      fontSize: isCompact ? Typography.fontSize.xs : Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.bold,
+      color: tier.color,
+    },
+  });
+
+  return (
+    <View style={styles.badge}>
+      <Text style={styles.text}>{isCompact ? tier.abbreviation : tier.name}</Text>
+    </View>
+  );
+};
+
+export default TierBadge;
@@ -0,0 +1,341 @@
+import React, { useState } from 'react';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import ErrorState from './ErrorState';
+import apiService from '../services/api';
+import {
+  ImportFileError,
+  ImportFileIssue,
+  ImportIssue,
+  ImportRow,
+  parseUserImport,
+  validUpdates,
+} from '../services/userImport';
+import { MessageKey, MessageParams } from '../i18n';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography } from '../theme';
+
+// Preview sizes: enough to sanity-check a file without rendering all 10,000 rows
+const PREVIEW_ROWS = 10;
+const MAX_LISTED_ERRORS = 50;
+
+interface ParsedFile {
+  name: string;
+  rows: ImportRow[];
+}
+
+interface Outcome {
+  imported: number;
+  // Rows the backend refused, by their position in the file
+  rejected: ImportRow[];
+}
+
+// Web hands us a File; native gives a file:// URI in the cache directory
+async function readPickedFile(asset: DocumentPicker.DocumentPickerAsset): Promise<string> {
+  if (asset.file) {
+    return asset.file.text();
+  }
+  return FileSystem.readAsStringAsync(asset.uri);
+}
+
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// The parser reports problems as codes; the wording lives in the catalogs
+function describeIssue(issue: ImportIssue, t: Translate): string {
+  switch (issue.code) {
+    case 'usernameRequired':
+      return t('import.error.usernameRequired');
+    case 'usernameSpaces':
+      return t('import.error.usernameSpaces');
+    case 'usernameTooLong':
+      return t('import.error.usernameTooLong', { max: issue.max });
+    case 'ratingNotInteger':
+      return t('import.error.ratingNotInteger');
+    case 'ratingOutOfRange':
+      return t('import.error.ratingOutOfRange', { min: issue.min, max: issue.max });
+    case 'duplicate':
+      return t('import.error.duplicate', { row: issue.first });
+    case 'notObject':
+      return t('import.error.notObject');
+    case 'columnCount':
+      return t('import.error.columnCount', { count: issue.found });
+    case 'rejected':
+      return issue.reason;
+  }
+}
+
+function describeFileIssue(issue: ImportFileIssue, t: Translate): string {
+  switch (issue.code) {
+    case 'noRows':
+      return t('import.fileError.noRows');
+    case 'tooManyRows':
+      return t('import.fileError.tooManyRows', { count: issue.count, max: issue.max });
+    case 'invalidJson':
+      return t('import.fileError.invalidJson');
+    case 'notArray':
+      return t('import.fileError.notArray');
+  }
+}
+
+/**
+ * Bulk import for the admin tab. Pick a CSV or JSON file; every row is checked
+ * locally (see services/userImport.ts) and previewed, with the reason for each
+ * bad row, before anything is sent. Importing sends only the valid rows, which
+ * the backend applies atomically, and maps any row it still refuses back to
+ * its line in the file.
+ */
+const UserImportPanel: React.FC = () => {
+  const { colors } = useTheme();
+  const { t, formatNumber } = useLocale();
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const [importError, setImportError] = useState<unknown>(null);
+
+  const styles = StyleSheet.create({
+    help: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+      marginBottom: Spacing.md,
+    },
+    actions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: Spacing.md,
+    },
+    button: {
+      marginEnd: Spacing.sm,
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.sm,
+      borderRadius: 8,
+      backgroundColor: colors.accentColor,
+    },
+    buttonSecondary: {
+      backgroundColor: colors.borderLight,
+    },
+    buttonDisabled: {
+      opacity: 0.4,
+    },
+    buttonText: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.cardBackground,
+    },
+    buttonTextSecondary: {
+      color: colors.textPrimary,
+    },
+    summary: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textPrimary,
+      marginBottom: Spacing.sm,
+    },
+    sectionTitle: {
+      fontSize: Typography.fontSize.xs,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textSecondary,
+      marginTop: Spacing.md,
+      marginBottom: Spacing.xs,
+    },
+    row: {
+      flexDirection: 'row',
+      paddingVertical: Spacing.xs,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    rowNumber: {
+      width: 56,
+      fontSize: Typography.fontSize.xs,
+      color: colors.textSecondary,
+    },
+    rowText: {
+      flex: 1,
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    rowError: {
+      flex: 1,
+      fontSize: Typography.fontSize.sm,
+      color: colors.negative,
+    },
+    more: {
+      fontSize: Typography.fontSize.xs,
+      color: colors.textSecondary,
+      marginTop: Spacing.xs,
+    },
+    success: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.positive,
+      marginBottom: Spacing.sm,
+    },
+  });
+
+  const reset = () => {
+    setFile(null);
+    setFileError(null);
+    setOutcome(null);
+    setImportError(null);
+  };
+
+  // A picker or permission failure is reported like an unreadable file
+  const pickFile = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'application/json', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled) return;
+
+      reset();
+      const asset = picked.assets[0];
+      const text = await readPickedFile(asset);
+      setFile({ name: asset.name, rows: parseUserImport(text, asset.name) });
+    } catch (error) {
+      reset();
+      setFileError(
+        error instanceof ImportFileError
+          ? describeFileIssue(error.issue, t)
+          : error instanceof Error
+            ? error.message
+            : String(error)
+      );
+    }
+  };
+
+  const runImport = async () => {
+    if (!file) return;
+    const { rows, updates } = validUpdates(file.rows);
+
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const result = await apiService.importUsers(updates);
+      setOutcome({
+        imported: result.imported,
+        // The backend numbers rows by position in what we sent
+        rejected: result.errors.map((rejection) => ({
+          ...rows[rejection.row - 1],
+          error: { code: 'rejected', reason: rejection.error },
+        })),
+      });
+    } catch (error) {
+      setImportError(error);
+    }
+    setIsImporting(false);
+  };
+
+  const renderRow = (row: ImportRow) => (
+    <View key={row.row} style={styles.row}>
+      <Text style={styles.rowNumber}>{t('import.row', { row: row.row })}</Text>
+      <Text style={styles.rowText}>
+        {row.username || '—'}
+        {row.rating !== null ? ` · ${formatNumber(row.rating)}` : ''}
+      </Text>
+      {row.error && <Text style={styles.rowError}>{describeIssue(row.error, t)}</Text>}
+    </View>
+  );
+
+  const renderErrors = (rows: ImportRow[]) => (
+    <>
+      {rows.slice(0, MAX_LISTED_ERRORS).map(renderRow)}
+      {rows.length > MAX_LISTED_ERRORS && (
+        <Text style={styles.more}>
+          {t('import.more', { count: rows.length - MAX_LISTED_ERRORS })}
+        </Text>
+      )}
+    </>
+  );
+
+  const valid = file ? file.rows.filter((row) => !row.error) : [];
+  const invalid = file ? file.rows.filter((row) => row.error) : [];
+
+  return (
+    <View>
+      <Text style={styles.help}>
+        {t('import.help')}
+      </Text>
+
+      <View style={styles.actions}>
+        <Pressable
+          style={[styles.button, file && styles.buttonSecondary]}
+          onPress={pickFile}
+          disabled={isImporting}
+        >
+          <Text style={[styles.buttonText, file && styles.buttonTextSecondary]}>
+            {file ? t('import.chooseAnother') : t('import.choose')}
+          </Text>
+        </Pressable>
+        {file && !outcome && (
+          <Pressable
+            style={[styles.button, (valid.length === 0 || isImporting) && styles.buttonDisabled]}
+            onPress={runImport}
+            disabled={valid.length === 0 || isImporting}
+          >
+            <Text style={styles.buttonText}>
+              {t('import.run', { count: valid.length })}
+            </Text>
+          </Pressable>
+        )}
+        {isImporting && <ActivityIndicator size="small" color={colors.accentColor} />}
+      </View>
+
+      {fileError && <ErrorState error={new Error(fileError)} compact />}
+      {importError !== null && (
+        <ErrorState error={importError} onRetry={runImport} compact />
+      )}
+
+      {outcome && (
+        <>
+          <Text style={styles.success}>
+            {t('import.done', { count: outcome.imported, file: file?.name })}
+          </Text>
+          {outcome.rejected.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>
+                {t('import.rejected', { count: outcome.rejected.length })}
+              </Text>
+              {renderErrors(outcome.rejected)}
+            </>
+          )}
+        </>
+      )}
+
+      {file && !outcome && (
+        <>
+          <Text style={styles.summary}>
+            {t('import.summary', {
+              file: file.name,
+              count: file.rows.length,
+              valid: valid.length,
+              invalid: invalid.length,
+            })}
+          </Text>
+
+          {invalid.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>{t('import.skipped')}</Text>
+              {renderErrors(invalid)}
+            </>
+          )}
+
+          {valid.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>{t('import.preview')}</Text>
+              {valid.slice(0, PREVIEW_ROWS).map(renderRow)}
+              {valid.length > PREVIEW_ROWS && (
+                <Text style={styles.more}>
+                  {t('import.more', { count: valid.length - PREVIEW_ROWS })}
+                </Text>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+export default UserImportPanel;
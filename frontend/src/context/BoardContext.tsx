@@ -0,0 +1,106 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { BoardInfo } from '../types';
+import apiService from '../services/api';
+import { loadJSON, saveJSON } from '../services/storage';
+
+const STORAGE_KEY = 'board';
+
+interface BoardContextValue {
+  // Every board the backend serves. Empty until /boards answers.
+  boards: BoardInfo[];
+  // Selected board id; null means the backend's default
+  boardId: string | null;
+  // The selected (or default) board, once the list has loaded
+  board: BoardInfo | undefined;
+  setBoard: (id: string) => void;
+}
+
+const BoardContext = createContext<BoardContextValue | null>(null);
+
+/**
+ * The selected leaderboard (game mode or season), persisted across restarts.
+ *
+ * Selecting a board points ApiService at it; App keys the navigator on
+ * boardId so every screen remounts and fetches from the new board. Children
+ * render only once the saved choice is read, so the first requests already go
+ * to the right board. A saved board the backend no longer serves falls back to
+ * the default.
+ */
+export const BoardProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [boards, setBoards] = useState<BoardInfo[]>([]);
+  const [boardId, setBoardId] = useState<string | null>(null);
+  const [defaultId, setDefaultId] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const select = useCallback((id: string | null) => {
+    apiService.setBoard(id);
+    setBoardId(id);
+  }, []);
+
+  useEffect(() => {
+    let isActive = true;
+
+    loadJSON<string | null>(STORAGE_KEY, null).then((saved) => {
+      if (!isActive) return;
+      select(typeof saved === 'string' ? saved : null);
+      setIsLoaded(true);
+
+      apiService
+        .getBoards()
+        .then((list) => {
+          if (!isActive) return;
+          setBoards(list.boards);
+          setDefaultId(list.default);
+          if (saved !== null && !list.boards.some((board) => board.id === saved)) {
+            select(null);
+          }
+        })
+        // Without the list there's no switcher, but the saved board still works
+        .catch((error) => console.error('Failed to load boards:', error));
+    });
+
+    return () => {
+      isActive = false;
+    };
+  }, [select]);
+
+  // Don't write until we've read, or the initial null would wipe the saved board
+  useEffect(() => {
+    if (isLoaded) {
+      saveJSON(STORAGE_KEY, boardId);
+    }
+  }, [boardId, isLoaded]);
+
+  const value = useMemo(
+    () => ({
+      boards,
+      boardId,
+      board: boards.find((board) => board.id === (boardId ?? defaultId)),
+      setBoard: select,
+    }),
+    [boards, boardId, defaultId, select]
+  );
+
+  if (!isLoaded) {
+    return null;
+  }
+
+  return <BoardContext.Provider value={value}>{children}</BoardContext.Provider>;
+};
+
+export function useBoard(): BoardContextValue {
+  const context = useContext(BoardContext);
+  if (!context) {
+    throw new Error('useBoard must be used inside a BoardProvider');
+  }
+  return context;
+}
@@ -0,0 +1,60 @@
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+
+// The backend's /compare bounds
+export const MIN_COMPARE_PLAYERS = 2;
+export const MAX_COMPARE_PLAYERS = 4;
+
+interface CompareContextValue {
+  usernames: string[];
+  // Position in the selection (which comparison color), or -1
+  indexOf: (username: string) => number;
+  toggle: (username: string) => void;
+  clear: () => void;
+}
+
+const CompareContext = createContext<CompareContextValue | null>(null);
+
+/**
+ * The players picked for a head-to-head comparison, in the order they were
+ * picked, shared by every screen that shows rows. Unlike the watchlist this
+ * isn't saved: a comparison is put together for the moment, and the Compare
+ * screen's URL already carries the players.
+ */
+export const CompareProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [usernames, setUsernames] = useState<string[]>([]);
+
+  const toggle = useCallback((username: string) => {
+    setUsernames((current) => {
+      if (current.includes(username)) {
+        return current.filter((name) => name !== username);
+      }
+      if (current.length >= MAX_COMPARE_PLAYERS) {
+        console.warn(`[Compare] Limit of ${MAX_COMPARE_PLAYERS} players reached`);
+        return current;
+      }
+      return [...current, username];
+    });
+  }, []);
+
+  const clear = useCallback(() => setUsernames([]), []);
+
+  const value = useMemo(
+    () => ({
+      usernames,
+      indexOf: (username: string) => usernames.indexOf(username),
+      toggle,
+      clear,
+    }),
+    [usernames, toggle, clear]
+  );
+
+  return <CompareContext.Provider value={value}>{children}</CompareContext.Provider>;
+};
+
+export function useCompare(): CompareContextValue {
+  const context = useContext(CompareContext);
+  if (!context) {
+    throw new Error('useCompare must be used inside a CompareProvider');
+  }
+  return context;
+}
@@ -0,0 +1,80 @@
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import apiService from '../services/api';
+import liveUpdates from '../services/liveUpdates';
+import {
+  BackendOverride,
+  ConfigSource,
+  LoadedConfig,
+  RuntimeConfig,
+  overrideBackend,
+} from '../services/config';
+
+interface ConfigContextValue {
+  config: RuntimeConfig;
+  // Where the backend in effect (API URL or demo mode) came from
+  source: ConfigSource;
+  // The backend the config files chose, whatever the developer override says
+  configured: LoadedConfig['configured'];
+  // The developer's backend choice, if any
+  override: BackendOverride | null;
+  // Switch backends (a server or demo mode); null goes back to the configured one
+  setBackend: (override: BackendOverride | null) => Promise<void>;
+}
+
+const ConfigContext = createContext<ConfigContextValue | null>(null);
+
+/**
+ * Push a runtime config into the services that read it. Must run before the
+ * first request, so App applies the startup config itself before rendering.
+ */
+export function applyRuntimeConfig(config: RuntimeConfig) {
+  apiService.configure({
+    baseURL: config.apiBaseUrl,
+    timeoutMs: config.timeouts.requestMs,
+    demo: config.demo,
+  });
+  liveUpdates.setEnabled(config.features.liveUpdates);
+}
+
+/**
+ * The runtime config (backend URL or demo mode, timeouts, feature flags) that
+ * App loaded at startup, plus the developer settings' backend switch. App
+ * keys everything that talks to the backend on the backend in use, so a
+ * switch reloads every screen from the new server.
+ */
+export const ConfigProvider: React.FC<{
+  initialConfig: LoadedConfig;
+  children: React.ReactNode;
+}> = ({ initialConfig, children }) => {
+  const [loaded, setLoaded] = useState(initialConfig);
+
+  const setBackend = useCallback(
+    async (override: BackendOverride | null) => {
+      const next = await overrideBackend(loaded, override);
+      applyRuntimeConfig(next.config);
+      setLoaded(next);
+    },
+    [loaded]
+  );
+
+  const value = useMemo(
+    () => ({
+      config: loaded.config,
+      source: loaded.source,
+      configured: loaded.configured,
+      override: loaded.override,
+      setBackend,
+    }),
+    [loaded, setBackend]
+  );
+
+  return <ConfigContext.Provider value={value}>{children}</ConfigContext.Provider>;
+};
+
+export function useConfig(): ConfigContextValue {
+  const context = useContext(ConfigContext);
+  if (!context) {
+    throw new Error('useConfig must be used inside a ConfigProvider');
+  }
+  return context;
+}
@@ -0,0 +1,91 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { useLocales } from 'expo-localization';
+import {
+  LocaleDefinition,
+  MessageKey,
+  MessageParams,
+  findLocale,
+  formatNumber,
+  formatRank,
+  formatTime,
+  matchLocale,
+  translate,
+} from '../i18n';
+import { loadJSON, saveJSON } from '../services/storage';
+
+const STORAGE_KEY = 'locale';
+
+// 'system' follows the device's languages; otherwise a catalog code
+export type LocalePreference = 'system' | string;
+
+interface LocaleContextValue {
+  locale: LocaleDefinition;
+  preference: LocalePreference;
+  setPreference: (preference: LocalePreference) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatRank: (rank: number) => string;
+  formatTime: (timestamp: number) => string;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+/**
+ * The display language, persisted across restarts. Follows the device's
+ * language list (first supported match, else English) unless the user picks
+ * one. Children render only once the saved choice is read, so the first
+ * frame is already in the right language.
+ *
+ * Switching to a right-to-left language takes effect immediately: App lays
+ * the whole tree out with the locale's direction rather than flipping
+ * I18nManager, which would need a restart on native.
+ */
+export const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const deviceLocales = useLocales();
+  const [preference, setPreference] = useState<LocalePreference>('system');
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    loadJSON<LocalePreference>(STORAGE_KEY, 'system').then((saved) => {
+      setPreference(typeof saved === 'string' && findLocale(saved) ? saved : 'system');
+      setIsLoaded(true);
+    });
+  }, []);
+
+  // Don't write until we've read, or the initial 'system' would wipe the saved choice
+  useEffect(() => {
+    if (isLoaded) {
+      saveJSON(STORAGE_KEY, preference);
+    }
+  }, [preference, isLoaded]);
+
+  const value = useMemo(() => {
+    const locale =
+      (preference !== 'system' && findLocale(preference)) ||
+      matchLocale(deviceLocales.map((device) => device.languageTag));
+    return {
+      locale,
+      preference,
+      setPreference,
+      t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+      formatNumber: (number: number, options?: Intl.NumberFormatOptions) =>
+        formatNumber(locale, number, options),
+      formatRank: (rank: number) => formatRank(locale, rank),
+      formatTime: (timestamp: number) => formatTime(locale, timestamp),
+    };
+  }, [preference, deviceLocales]);
+
+  if (!isLoaded) {
+    return null;
+  }
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+export function useLocale(): LocaleContextValue {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error('useLocale must be used inside a LocaleProvider');
+  }
+  return context;
+}
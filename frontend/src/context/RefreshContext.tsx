@@ -0,0 +1,61 @@
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { loadJSON, saveJSON } from '../services/storage';
+
+const STORAGE_KEY = 'autoRefresh';
+
+// The intervals the user can pick from, in ms; null turns polling off
+export const AUTO_REFRESH_INTERVALS: (number | null)[] = [null, 15000, 30000, 60000];
+
+interface RefreshContextValue {
+  autoRefreshMs: number | null;
+  setAutoRefreshMs: (ms: number | null) => void;
+}
+
+const RefreshContext = createContext<RefreshContextValue | null>(null);
+
+/**
+ * How often lists re-fetch on their own (see useAutoRefresh), or never.
+ * Off by default: the live stream already keeps rows current, and polling is
+ * for spectators who want fresh snapshots without touching the screen. The
+ * choice is persisted across restarts and shared by every list.
+ */
+export const RefreshProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [autoRefreshMs, setAutoRefreshMs] = useState<number | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    loadJSON<number | null>(STORAGE_KEY, null).then((saved) => {
+      setAutoRefreshMs(AUTO_REFRESH_INTERVALS.includes(saved) ? saved : null);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  // Don't write until we've read, or the initial null would wipe the saved choice
+  useEffect(() => {
+    if (isLoaded) {
+      saveJSON(STORAGE_KEY, autoRefreshMs);
+    }
+  }, [autoRefreshMs, isLoaded]);
+
+  const value = useMemo(() => ({ autoRefreshMs, setAutoRefreshMs }), [autoRefreshMs]);
+
+  if (!isLoaded) {
+    return null;
+  }
+
+  return <RefreshContext.Provider value={value}>{children}</RefreshContext.Provider>;
+};
+
+export function useRefreshSettings(): RefreshContextValue {
+  const context = useContext(RefreshContext);
+  if (!context) {
+    throw new Error('useRefreshSettings must be used inside a RefreshProvider');
+  }
+  return context;
+}
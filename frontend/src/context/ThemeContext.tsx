@@ -0,0 +1,74 @@
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { useColorScheme } from 'react-native';
+import { ColorScheme, Palette, Palettes } from '../theme';
+import { loadJSON, saveJSON } from '../services/storage';
+
+const STORAGE_KEY = 'theme';
+
+// 'system' follows the device's light/dark setting
+export type ThemePreference = 'system' | ColorScheme;
+
+const PREFERENCES: ThemePreference[] = ['system', 'light', 'dark'];
+
+interface ThemeContextValue {
+  // The active palette; build styles from this, not from a fixed import
+  colors: Palette;
+  // Which palette is active, after resolving 'system'
+  scheme: ColorScheme;
+  preference: ThemePreference;
+  setPreference: (preference: ThemePreference) => void;
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+/**
+ * Light or dark palette for the whole app. Follows the system color scheme
+ * unless the user overrides it, and the override is persisted across
+ * restarts. Children render only once the saved choice is read, so a display
+ * forced to dark never flashes the light palette on startup.
+ */
+export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const systemScheme = useColorScheme();
+  const [preference, setPreference] = useState<ThemePreference>('system');
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    loadJSON<ThemePreference>(STORAGE_KEY, 'system').then((saved) => {
+      setPreference(PREFERENCES.includes(saved) ? saved : 'system');
+      setIsLoaded(true);
+    });
+  }, []);
+
+  // Don't write until we've read, or the initial 'system' would wipe the saved choice
+  useEffect(() => {
+    if (isLoaded) {
+      saveJSON(STORAGE_KEY, preference);
+    }
+  }, [preference, isLoaded]);
+
+  const value = useMemo(() => {
+    const scheme: ColorScheme =
+      preference === 'system' ? (systemScheme === 'dark' ? 'dark' : 'light') : preference;
+    return { colors: Palettes[scheme], scheme, preference, setPreference };
+  }, [preference, systemScheme]);
+
+  if (!isLoaded) {
+    return null;
+  }
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
+
+export function useTheme(): ThemeContextValue {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error('useTheme must be used inside a ThemeProvider');
+  }
+  return context;
+}
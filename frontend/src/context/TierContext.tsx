@@ -0,0 +1,135 @@
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import apiService from '../services/api';
+import { RatingScale, TierConfig, TierConfiguration } from '../theme';
+import { MessageKey } from '../i18n';
+import { useLocale } from './LocaleContext';
+
+// Percentile boundaries drift as ratings change; this is how often we re-resolve them.
+const PERCENTILE_REFRESH_MS = 5 * 60 * 1000;
+
+// A tier with its boundaries resolved to ratings, inclusive at both ends, and
+// its name in the current language.
+export interface Tier {
+  name: string;
+  abbreviation: string;
+  color: string;
+  minRating: number;
+  maxRating: number;
+}
+
+// A Tier before its name is translated
+type TierBand = Omit<Tier, 'name'> & { nameKey: MessageKey };
+
+interface TierContextValue {
+  // Lowest first. Empty until percentile boundaries have been fetched.
+  tiers: Tier[];
+  tierFor: (rating: number) => Tier | undefined;
+  nextTierFor: (rating: number) => Tier | undefined;
+}
+
+const TierContext = createContext<TierContextValue | null>(null);
+
+// Turn each tier's starting rating into a [min, max] band. Starts are forced to
+// increase so a lopsided distribution can't produce overlapping tiers.
+function toBands(config: TierConfiguration, starts: number[]): TierBand[] {
+  const bands: TierBand[] = [];
+  starts.forEach((start, index) => {
+    const previous = bands[index - 1];
+    const minRating = previous ? Math.max(start, previous.minRating + 1) : RatingScale.min;
+    if (previous) {
+      previous.maxRating = minRating - 1;
+    }
+    const { name, abbreviation, color } = config.tiers[index];
+    bands.push({ nameKey: name, abbreviation, color, minRating, maxRating: RatingScale.max });
+  });
+  return bands;
+}
+
+/**
+ * Resolve percentile boundaries against the live distribution. The cutoff /stats
+ * returns for p is the highest rating among the bottom p% of players, so the
+ * tier that starts at p begins one point above it.
+ */
+async function resolvePercentileTiers(config: TierConfiguration): Promise<TierBand[]> {
+  const upper = config.tiers.slice(1);
+  const stats = await apiService.getStats({
+    percentiles: upper.map((tier) => tier.from),
+  });
+  const starts = [
+    RatingScale.min,
+    ...stats.percentiles.map((cutoff) => Math.min(cutoff.rating + 1, RatingScale.max)),
+  ];
+  return toBands(config, starts);
+}
+
+/**
+ * Resolves TierConfig (see theme/tiers.ts) into rating bands for every screen.
+ * Rating-based tiers are fixed and available immediately. Percentile-based
+ * tiers need the live distribution, so they appear once /stats answers and are
+ * refreshed every few minutes; until then rows simply show no badge.
+ */
+export const TierProvider: React.FC<{
+  children: React.ReactNode;
+  config?: TierConfiguration;
+}> = ({ children, config = TierConfig }) => {
+  const { t } = useLocale();
+  const [bands, setBands] = useState<TierBand[]>(() =>
+    config.basis === 'rating'
+      ? toBands(config, config.tiers.map((tier) => tier.from))
+      : []
+  );
+
+  useEffect(() => {
+    if (config.basis === 'rating') {
+      setBands(toBands(config, config.tiers.map((tier) => tier.from)));
+      return;
+    }
+
+    let isActive = true;
+    const refresh = () => {
+      resolvePercentileTiers(config)
+        .then((resolved) => {
+          if (isActive) setBands(resolved);
+        })
+        // Keep the last good boundaries; the next refresh may succeed
+        .catch((error) => console.error('Failed to resolve tiers:', error));
+    };
+
+    refresh();
+    const interval = setInterval(refresh, PERCENTILE_REFRESH_MS);
+    return () => {
+      isActive = false;
+      clearInterval(interval);
+    };
+  }, [config]);
+
+  const value = useMemo(() => {
+    const tiers: Tier[] = bands.map(({ nameKey, ...band }) => ({ ...band, name: t(nameKey) }));
+    const tierIndex = (rating: number) =>
+      tiers.findIndex((tier) => rating >= tier.minRating && rating <= tier.maxRating);
+    return {
+      tiers,
+      tierFor: (rating: number) => tiers[tierIndex(rating)],
+      nextTierFor: (rating: number) => {
+        const index = tierIndex(rating);
+        return index >= 0 ? tiers[index + 1] : undefined;
+      },
+    };
+  }, [bands, t]);
+
+  return <TierContext.Provider value={value}>{children}</TierContext.Provider>;
+};
+
+export function useTiers(): TierContextValue {
+  const context = useContext(TierContext);
+  if (!context) {
+    throw new Error('useTiers must be used inside a TierProvider');
+  }
+  return context;
+}
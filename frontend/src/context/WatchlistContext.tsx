@@ -0,0 +1,94 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { loadJSON, saveJSON } from '../services/storage';
+
+const STORAGE_KEY = 'watchlist';
+
+// Matches the backend's batch lookup cap, so the whole list refreshes in one call.
+export const MAX_WATCHLIST_SIZE = 100;
+
+interface WatchlistContextValue {
+  usernames: string[];
+  isWatched: (username: string) => boolean;
+  // At MAX_WATCHLIST_SIZE: nobody else can be starred until someone is unstarred
+  isFull: boolean;
+  // False when the player couldn't be starred because the list is full
+  toggle: (username: string) => boolean;
+  remove: (username: string) => void;
+}
+
+const WatchlistContext = createContext<WatchlistContextValue | null>(null);
+
+/**
+ * Starred players, shared by every screen that shows rows and persisted across
+ * restarts. We only store usernames: ranks and ratings go stale within seconds,
+ * so the Watchlist tab always fetches them fresh.
+ */
+export const WatchlistProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [usernames, setUsernames] = useState<string[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    loadJSON<string[]>(STORAGE_KEY, []).then((saved) => {
+      setUsernames(Array.isArray(saved) ? saved : []);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  // Don't write until we've read, or the empty initial state would wipe the saved list
+  useEffect(() => {
+    if (isLoaded) {
+      saveJSON(STORAGE_KEY, usernames);
+    }
+  }, [usernames, isLoaded]);
+
+  const toggle = useCallback(
+    (username: string) => {
+      if (!usernames.includes(username) && usernames.length >= MAX_WATCHLIST_SIZE) {
+        return false;
+      }
+      setUsernames((current) =>
+        current.includes(username)
+          ? current.filter((name) => name !== username)
+          : [...current, username]
+      );
+      return true;
+    },
+    [usernames]
+  );
+
+  const remove = useCallback((username: string) => {
+    setUsernames((current) => current.filter((name) => name !== username));
+  }, []);
+
+  const value = useMemo(() => {
+    const watched = new Set(usernames);
+    return {
+      usernames,
+      isWatched: (username: string) => watched.has(username),
+      isFull: usernames.length >= MAX_WATCHLIST_SIZE,
+      toggle,
+      remove,
+    };
+  }, [usernames, toggle, remove]);
+
+  return (
+    <WatchlistContext.Provider value={value}>{children}</WatchlistContext.Provider>
+  );
+};
+
+export function useWatchlist(): WatchlistContextValue {
+  const context = useContext(WatchlistContext);
+  if (!context) {
+    throw new Error('useWatchlist must be used inside a WatchlistProvider');
+  }
+  return context;
+}
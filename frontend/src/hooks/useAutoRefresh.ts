@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { useFocusEffect, useIsFocused } from '@react-navigation/native';
+import { useRefreshSettings } from '../context/RefreshContext';
+
+/**
+ * Re-fetch a screen's data when it has likely gone stale:
+ *
+ * - Focus: each time the screen regains focus (back to the tab, back from a
+ *   pushed profile). Not on the first focus, when the screen loads anyway.
+ * - Foreground: when the app comes back from the background while the screen
+ *   is focused. On web, "background" is a hidden browser tab.
+ * - Polling: every autoRefreshMs (RefreshContext), only while the screen is
+ *   focused and the app is in the foreground. The timer restarts after a
+ *   focus or foreground refresh, so those never double up with a poll.
+ *
+ * `refresh` may change every render; the latest one is called. It should
+ * refresh quietly (keep the rows on screen) and skip if a load is running.
+ */
+export function useAutoRefresh(refresh: () => void): void {
+  const { autoRefreshMs } = useRefreshSettings();
+  const latest = useRef(refresh);
+  latest.current = refresh;
+  const isFocused = useIsFocused();
+  const [isActive, setIsActive] = useState(AppState.currentState === 'active');
+  const hasFocused = useRef(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (hasFocused.current) {
+        latest.current();
+      }
+      hasFocused.current = true;
+    }, [])
+  );
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      setIsActive(state === 'active');
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Coming back to the foreground; the first render doesn't count
+  const wasActive = useRef(isActive);
+  useEffect(() => {
+    if (isActive && !wasActive.current && isFocused) {
+      latest.current();
+    }
+    wasActive.current = isActive;
+  }, [isActive, isFocused]);
+
+  useEffect(() => {
+    if (!autoRefreshMs || !isFocused || !isActive) return;
+    const timer = setInterval(() => latest.current(), autoRefreshMs);
+    return () => clearInterval(timer);
+  }, [autoRefreshMs, isFocused, isActive]);
+}
@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from 'react';
+import { RatingChangeEvent } from '../types';
+import liveUpdates from '../services/liveUpdates';
+
+interface RatedRow {
+  username: string;
+  rating: number;
+}
+
+// Name of the numeric field that holds a row's rank ('rank' on leaderboard
+// entries, 'global_rank' on search results).
+type RankField<T> = {
+  [K in keyof T]: T[K] extends number ? K : never;
+}[keyof T];
+
+// Events arrive ~10/sec. Batching them means one list re-render per flush
+// instead of one per event.
+const FLUSH_INTERVAL_MS = 250;
+
+/**
+ * Apply one rating change to a list of rows. The changed player takes the rank
+ * the server computed for them. Everyone else's rank is 1 + (players rated above
+ * them), so it moves by exactly one when the changed player crosses their rating:
+ * down a place if the player climbed past them, up a place if the player fell
+ * below them. Rows keep their order; we patch values, not positions.
+ */
+export function applyRatingChange<T extends RatedRow>(
+  rows: T[],
+  event: RatingChangeEvent,
+  rankField: RankField<T>
+): T[] {
+  // old_rating is 0 for brand-new players, which is never above anyone
+  let changed = false;
+  const next = rows.map((row) => {
+    if (row.username === event.username) {
+      changed = true;
+      return { ...row, rating: event.rating, [rankField]: event.global_rank };
+    }
+
+    const wasAbove = event.old_rating > row.rating;
+    const isAbove = event.rating > row.rating;
+    if (wasAbove === isAbove) {
+      return row;
+    }
+
+    changed = true;
+    const rank = (row[rankField] as unknown as number) + (isAbove ? 1 : -1);
+    return { ...row, [rankField]: rank };
+  });
+
+  return changed ? next : rows;
+}
+
+/**
+ * Keep a fetched list live by patching it with rating changes from the stream.
+ *
+ * Returns `data` with ratings and ranks updated in place as events arrive. When
+ * `data` changes (a re-fetch or a new page), patches start over from the new
+ * server state, which also heals anything we missed while disconnected.
+ */
+export function useLiveRows<T extends RatedRow>(
+  data: T[],
+  rankField: RankField<T>
+): T[] {
+  const [live, setLive] = useState({ source: data, rows: data });
+  const pending = useRef<RatingChangeEvent[]>([]);
+
+  // New server data replaces our patched copy outright
+  if (live.source !== data) {
+    setLive({ source: data, rows: data });
+  }
+
+  useEffect(() => {
+    const unsubscribe = liveUpdates.subscribe((event) => {
+      pending.current.push(event);
+    });
+
+    const timer = setInterval(() => {
+      if (pending.current.length === 0) return;
+
+      const events = pending.current;
+      pending.current = [];
+      setLive((current) => ({
+        ...current,
+        rows: events.reduce(
+          (acc, event) => applyRatingChange(acc, event, rankField),
+          current.rows
+        ),
+      }));
+    }, FLUSH_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [rankField]);
+
+  return live.source === data ? live.rows : data;
+}
@@ -0,0 +1,106 @@
+import { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { LeaderboardEntry, RankMovement } from '../types';
+
+const NO_MOVEMENTS: ReadonlyMap<string, RankMovement> = new Map();
+
+// Where each player stood in the rows of one snapshot
+interface Baseline {
+  positions: Map<string, LeaderboardEntry>;
+  // The rank span those rows covered. Below or above it we don't know who
+  // was there, so nobody out there counts as new.
+  firstRank: number;
+  lastRank: number;
+  at: number;
+}
+
+function baselineOf(rows: LeaderboardEntry[], at: number): Baseline {
+  const positions = new Map<string, LeaderboardEntry>();
+  let firstRank = Infinity;
+  let lastRank = -Infinity;
+  for (const row of rows) {
+    positions.set(row.username, row);
+    firstRank = Math.min(firstRank, row.rank);
+    lastRank = Math.max(lastRank, row.rank);
+  }
+  return { positions, firstRank, lastRank, at };
+}
+
+/**
+ * Compare rows against the previous snapshot's, by username. Only rows that
+ * changed get an entry: a different rank or rating, or (inside the previous
+ * rows' rank span) a player who wasn't among them. One pass with map lookups,
+ * so it's cheap enough to redo whenever the rows change.
+ */
+function rankMovements(
+  baseline: Baseline,
+  rows: LeaderboardEntry[]
+): ReadonlyMap<string, RankMovement> {
+  const movements = new Map<string, RankMovement>();
+  for (const row of rows) {
+    const before = baseline.positions.get(row.username);
+    if (!before) {
+      if (row.rank >= baseline.firstRank && row.rank <= baseline.lastRank) {
+        movements.set(row.username, { kind: 'new', at: baseline.at });
+      }
+    } else if (before.rank !== row.rank || before.rating !== row.rating) {
+      movements.set(row.username, {
+        kind: 'moved',
+        rankChange: before.rank - row.rank,
+        ratingChange: row.rating - before.rating,
+        at: baseline.at,
+      });
+    }
+  }
+  return movements;
+}
+
+/**
+ * Who moved since the last reload. `rows` are the loaded rows of `snapshot`;
+ * when the snapshot id changes, the rows shown under the old one become the
+ * baseline the new rows are compared with. Pages appended to the same
+ * snapshot are compared with that same baseline.
+ *
+ * A new `scope` (a different filter) drops the baseline, since the old rows
+ * were a different selection of players; movement shows again from the
+ * reload after the next one. The first snapshot has nothing to compare with.
+ *
+ * Keyed by username, so a list can look a row up in O(1) while rendering it.
+ */
+export function useRankMovements(
+  rows: LeaderboardEntry[],
+  snapshot: string | null,
+  scope: unknown
+): ReadonlyMap<string, RankMovement> {
+  const [baseline, setBaseline] = useState<Baseline | null>(null);
+  // What was last committed to the screen. Only touched after commit, never
+  // while rendering, since React may render more than once per commit.
+  const committed = useRef<{
+    scope: unknown;
+    // The snapshot on screen when the scope changed; its rows are out of scope
+    staleSnapshot: string | null;
+    shown: { snapshot: string; rows: LeaderboardEntry[] } | null;
+  }>({ scope, staleSnapshot: null, shown: null });
+
+  // A layout effect, so a new baseline is in place before the new rows paint
+  useLayoutEffect(() => {
+    const current = committed.current;
+    if (current.scope !== scope) {
+      committed.current = { scope, staleSnapshot: snapshot, shown: null };
+      setBaseline(null);
+    } else if (current.shown && current.shown.snapshot !== snapshot) {
+      setBaseline(baselineOf(current.shown.rows, Date.now()));
+    }
+
+    // A failed reload empties the rows without a new snapshot; keep the last
+    // rows that were actually shown
+    const next = committed.current;
+    if (snapshot && snapshot !== next.staleSnapshot && rows.length > 0) {
+      next.shown = { snapshot, rows };
+    }
+  }, [rows, snapshot, scope]);
+
+  return useMemo(
+    () => (baseline ? rankMovements(baseline, rows) : NO_MOVEMENTS),
+    [baseline, rows]
+  );
+}
@@ -0,0 +1,14 @@
+import { useWindowDimensions } from 'react-native';
+import { Layout } from '../theme';
+
+/**
+ * Height of a LeaderboardRow at the user's system text size. The 60px design
+ * height grows in step with the font scale (it never shrinks below 60), so
+ * large accessibility text fits instead of being clipped. Every row still
+ * gets the same height, which is what FlatList's getItemLayout relies on:
+ * rows and lists must both read it from here.
+ */
+export function useRowHeight(): number {
+  const { fontScale } = useWindowDimensions();
+  return Math.ceil(Layout.leaderboardRowHeight * Math.max(1, fontScale));
+}
@@ -0,0 +1,285 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SearchMode, SearchResult } from '../types';
+import apiService from '../services/api';
+import { CancelledError } from '../services/errors';
+
+const DEBOUNCE_MS = 300;
+
+// How long a finished search keeps answering identical queries. Long enough to
+// absorb "alic" -> "alice" -> "alic" backspacing, short enough that ranks shown
+// from it are still live.
+const DEDUPE_TTL_MS = 1000;
+
+interface SharedSearch {
+  promise: Promise<SearchResult[]>;
+  controller: AbortController;
+  consumers: number;
+  settled: boolean;
+}
+
+// Searches keyed by mode and normalized query. Module-level so every mounted search
+// shares them.
+const inFlight = new Map<string, SharedSearch>();
+
+function searchKey(query: string, mode: SearchMode): string {
+  // The backend matches case-insensitively, so "Al" and "al" are one search
+  return `${mode}:${query.trim().toLowerCase()}`;
+}
+
+/**
+ * Run a search, sharing the HTTP request with any identical search already in
+ * flight (or finished within DEDUPE_TTL_MS). Aborting `signal` detaches this
+ * caller and rejects with CancelledError; the request itself is only cancelled
+ * once every caller sharing it has aborted. Failures are never shared with
+ * later callers.
+ */
+function sharedSearch(
+  query: string,
+  mode: SearchMode,
+  signal: AbortSignal
+): Promise<SearchResult[]> {
+  const key = searchKey(query, mode);
+  let entry = inFlight.get(key);
+
+  if (!entry) {
+    const controller = new AbortController();
+    const created: SharedSearch = {
+      // Send the trimmed query the key was built from, so everyone sharing this
+      // entry gets the results for the same text
+      promise: apiService.searchUsers(query.trim(), { mode, signal: controller.signal }),
+      controller,
+      consumers: 0,
+      settled: false,
+    };
+    created.promise.then(
+      () => {
+        created.settled = true;
+        setTimeout(() => {
+          if (inFlight.get(key) === created) inFlight.delete(key);
+        }, DEDUPE_TTL_MS);
+      },
+      () => {
+        created.settled = true;
+        if (inFlight.get(key) === created) inFlight.delete(key);
+      }
+    );
+    inFlight.set(key, created);
+    entry = created;
+  }
+
+  const shared = entry;
+  shared.consumers++;
+
+  return new Promise((resolve, reject) => {
+    const detach = () => {
+      signal.removeEventListener('abort', onAbort);
+      shared.consumers--;
+    };
+    const onAbort = () => {
+      detach();
+      if (shared.consumers === 0 && !shared.settled) {
+        shared.controller.abort();
+        if (inFlight.get(key) === shared) inFlight.delete(key);
+      }
+      reject(new CancelledError());
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort);
+    shared.promise.then(
+      (results) => {
+        if (signal.aborted) return;
+        detach();
+        resolve(results);
+      },
+      (error) => {
+        if (signal.aborted) return;
+        detach();
+        reject(error);
+      }
+    );
+  });
+}
+
+interface SearchState {
+  query: string;
+  mode: SearchMode;
+  results: SearchResult[];
+  isLoading: boolean;
+  error: unknown;
+  // When the results on screen were fetched, null with none
+  updatedAt: number | null;
+  setQuery: (query: string) => void;
+  setMode: (mode: SearchMode) => void;
+  // Replace query and mode at once and search right away (a followed link)
+  search: (query: string, mode: SearchMode) => void;
+  retry: () => void;
+  // Re-run the current search in the background (see useSearch)
+  refresh: () => Promise<void>;
+}
+
+interface InitialSearch {
+  query?: string;
+  mode?: SearchMode;
+}
+
+/**
+ * Debounced player search with race-free results.
+ *
+ * - Debounce: the request goes out DEBOUNCE_MS after the last keystroke.
+ * - Cancellation: each new query (or clearing the field, or unmounting) aborts
+ *   the previous request, so a slow response for "al" can never land after
+ *   "alice" and overwrite its results.
+ * - Latest query wins: a sequence number guards the state updates as well, in
+ *   case a response resolves in the same tick its abort is issued.
+ * - Dedupe: identical queries share one HTTP request (see sharedSearch).
+ * - Mode: switching match mode re-runs the current query right away, with no
+ *   debounce, since it's a deliberate tap rather than typing.
+ * - Initial: a search to start from (e.g. from a URL) runs on mount, also
+ *   without debounce.
+ * - Refresh: re-runs the current search for fresh ranks without the spinner.
+ *   The old results stay up until the new ones land, and if it fails they
+ *   stay up (updatedAt shows their age). Skipped while a search is already
+ *   pending or in flight.
+ *
+ * The input stays editable throughout; isLoading only drives the spinner.
+ */
+export function useSearch(initial: InitialSearch = {}): SearchState {
+  const [query, setQueryState] = useState(initial.query ?? '');
+  const [mode, setModeState] = useState<SearchMode>(initial.mode ?? 'prefix');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const controller = useRef<AbortController | null>(null);
+  const latest = useRef(0);
+  const initialSearch = useRef(initial);
+
+  // Stop whatever is pending or in flight; returns the new sequence number
+  const cancelPending = useCallback(() => {
+    if (timer.current) {
+      clearTimeout(timer.current);
+      timer.current = null;
+    }
+    controller.current?.abort();
+    controller.current = null;
+    return ++latest.current;
+  }, []);
+
+  // quiet: a refresh, which keeps the current results up and on failure
+  const run = useCallback(
+    async (text: string, searchMode: SearchMode, quiet = false) => {
+      const seq = cancelPending();
+      const abort = new AbortController();
+      controller.current = abort;
+      if (!quiet) {
+        setIsLoading(true);
+      }
+
+      try {
+        const found = await sharedSearch(text, searchMode, abort.signal);
+        if (seq !== latest.current) return;
+        setResults(found);
+        setError(null);
+        setUpdatedAt(Date.now());
+      } catch (searchError) {
+        if (seq !== latest.current || searchError instanceof CancelledError) return;
+        if (quiet) {
+          console.error('Failed to refresh search:', searchError);
+        } else {
+          setResults([]);
+          setError(searchError);
+        }
+      }
+
+      setIsLoading(false);
+      controller.current = null;
+    },
+    [cancelPending]
+  );
+
+  const setQuery = useCallback(
+    (text: string) => {
+      setQueryState(text);
+      cancelPending();
+
+      // No search if empty
+      if (!text.trim()) {
+        setResults([]);
+        setError(null);
+        setIsLoading(false);
+        setUpdatedAt(null);
+        return;
+      }
+
+      timer.current = setTimeout(() => run(text, mode), DEBOUNCE_MS);
+    },
+    [cancelPending, run, mode]
+  );
+
+  const setMode = useCallback(
+    (next: SearchMode) => {
+      setModeState(next);
+      if (query.trim()) {
+        run(query, next);
+      }
+    },
+    [query, run]
+  );
+
+  const search = useCallback(
+    (text: string, nextMode: SearchMode) => {
+      setModeState(nextMode);
+      if (text.trim()) {
+        setQueryState(text);
+        run(text, nextMode);
+      } else {
+        setQuery(text);
+      }
+    },
+    [run, setQuery]
+  );
+
+  const retry = useCallback(() => {
+    if (query.trim()) {
+      run(query, mode);
+    }
+  }, [query, mode, run]);
+
+  const refresh = useCallback(async () => {
+    if (!query.trim() || timer.current || controller.current) return;
+    await run(query, mode, true);
+  }, [query, mode, run]);
+
+  useEffect(() => {
+    const { query: initialQuery, mode: initialMode } = initialSearch.current;
+    if (initialQuery?.trim()) {
+      run(initialQuery, initialMode ?? 'prefix');
+    }
+  }, [run]);
+
+  // Nothing may resolve into an unmounted screen
+  useEffect(() => {
+    return () => {
+      cancelPending();
+    };
+  }, [cancelPending]);
+
+  return {
+    query,
+    mode,
+    results,
+    isLoading,
+    error,
+    updatedAt,
+    setQuery,
+    setMode,
+    search,
+    retry,
+    refresh,
+  };
+}
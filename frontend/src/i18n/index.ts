@@ -0,0 +1,109 @@
+import en from './locales/en';
+import es from './locales/es';
+import fr from './locales/fr';
+import ar from './locales/ar';
+import { LocaleDefinition, MessageKey, MessageParams } from './types';
+
+export * from './types';
+
+/**
+ * Message catalogs and locale-aware formatting, without a library: each
+ * locale in ./locales is a catalog plus its plural and ordinal rules. To add a
+ * language, copy locales/en.ts, translate it and list it here; the type check
+ * fails until every key is present.
+ */
+
+export const Locales: LocaleDefinition[] = [en, es, fr, ar];
+
+export const DefaultLocale = en;
+
+// Best supported match for a list of BCP 47 tags in preference order
+// (e.g. the device's languages): 'es-MX' picks Spanish.
+export function matchLocale(tags: string[]): LocaleDefinition {
+  for (const tag of tags) {
+    const code = tag.toLowerCase().split(/[-_]/)[0];
+    const match = Locales.find((locale) => locale.code === code);
+    if (match) return match;
+  }
+  return DefaultLocale;
+}
+
+export function findLocale(code: string): LocaleDefinition | undefined {
+  return Locales.find((locale) => locale.code === code);
+}
+
+// Intl.NumberFormat is slow to construct, and rows format on every render
+const numberFormats = new Map<string, Intl.NumberFormat | null>();
+
+export function formatNumber(
+  locale: LocaleDefinition,
+  value: number,
+  options?: Intl.NumberFormatOptions
+): string {
+  const cacheKey = `${locale.intlLocale}|${JSON.stringify(options ?? {})}`;
+  if (!numberFormats.has(cacheKey)) {
+    let format: Intl.NumberFormat | null = null;
+    try {
+      format = new Intl.NumberFormat(locale.intlLocale, options);
+    } catch (error) {
+      // Engines without Intl (or without this locale) get plain digits
+      console.warn(`[i18n] No number format for "${locale.intlLocale}":`, error);
+    }
+    numberFormats.set(cacheKey, format);
+  }
+
+  const format = numberFormats.get(cacheKey);
+  if (format) return format.format(value);
+  return options?.maximumFractionDigits !== undefined
+    ? value.toFixed(options.maximumFractionDigits)
+    : String(value);
+}
+
+const timeFormats = new Map<string, Intl.DateTimeFormat | null>();
+
+// Clock time of day (14:05, 2:05 PM) in the locale's style
+export function formatTime(locale: LocaleDefinition, timestamp: number): string {
+  if (!timeFormats.has(locale.intlLocale)) {
+    let format: Intl.DateTimeFormat | null = null;
+    try {
+      format = new Intl.DateTimeFormat(locale.intlLocale, { hour: 'numeric', minute: '2-digit' });
+    } catch (error) {
+      console.warn(`[i18n] No time format for "${locale.intlLocale}":`, error);
+    }
+    timeFormats.set(locale.intlLocale, format);
+  }
+
+  const date = new Date(timestamp);
+  const format = timeFormats.get(locale.intlLocale);
+  if (format) return format.format(date);
+  return `${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`;
+}
+
+export function formatRank(locale: LocaleDefinition, rank: number): string {
+  return locale.ordinal(rank, formatNumber(locale, rank));
+}
+
+/**
+ * Look up `key` and fill in its {placeholders}. Numbers are formatted for the
+ * locale; a plural message picks its form from `params.count`. A key missing
+ * from a catalog falls back to English rather than showing the key.
+ */
+export function translate(
+  locale: LocaleDefinition,
+  key: MessageKey,
+  params?: MessageParams
+): string {
+  let message = locale.messages[key] ?? DefaultLocale.messages[key];
+
+  if (typeof message !== 'string') {
+    const count = Number(params?.count ?? 0);
+    message = message[locale.plural(count)] ?? message.other;
+  }
+
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+}
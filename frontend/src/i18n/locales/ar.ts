@@ -0,0 +1,408 @@
+import { LocaleDefinition, Message, MessageKey, PluralCategory } from '../types';
+
+const messages: Record<MessageKey, Message> = {
+  // App shell and navigation
+  'app.errorTitle': 'خطأ في التطبيق',
+  'app.errorUnknown': 'حدث خطأ غير معروف',
+  'tab.leaderboard': 'الترتيب',
+  'tab.leaderboardTitle': 'لوحة الصدارة',
+  'tab.search': 'بحث',
+  'tab.searchTitle': 'البحث عن لاعبين',
+  'tab.watchlist': 'المتابَعون',
+  'tab.watchlistTitle': 'قائمة المتابعة',
+  'tab.stats': 'إحصاءات',
+  'tab.statsTitle': 'توزيع التقييمات',
+  'tab.admin': 'الإدارة',
+  'tab.adminTitle': 'الإدارة',
+  'screen.player': 'لاعب',
+  'screen.recordMatch': 'تسجيل مباراة',
+  'screen.developerSettings': 'إعدادات المطوّر',
+  'screen.compare': 'مقارنة',
+  'language.title': 'اللغة',
+  'language.system': 'لغة النظام',
+  'theme.system': 'تلقائي',
+  'theme.light': 'فاتح',
+  'theme.dark': 'داكن',
+
+  // Tier names (theme/tiers.ts)
+  'tiers.bronze': 'برونزي',
+  'tiers.silver': 'فضي',
+  'tiers.gold': 'ذهبي',
+  'tiers.platinum': 'بلاتيني',
+  'tiers.diamond': 'ماسي',
+  'tiers.master': 'أستاذ',
+  'tiers.grandmaster': 'أستاذ كبير',
+
+  // Errors (ErrorState)
+  'error.network': 'تعذّر الوصول إلى الخادم',
+  'error.networkDetail': 'تأكد من أن الخادم الخلفي يعمل.',
+  'error.timeout': 'الخادم لا يستجيب',
+  'error.server': 'خطأ في الخادم ({status})',
+  'error.client': 'رُفض الطلب ({status})',
+  'error.malformed': 'استجابة غير متوقعة من الخادم',
+  'error.unknown': 'حدث خطأ ما',
+  'error.retry': 'إعادة المحاولة',
+
+  // Leaderboard list
+  'leaderboard.empty': 'لا توجد بيانات',
+  'leaderboard.columnRank': 'المركز',
+  'leaderboard.columnUsername': 'اسم المستخدم',
+  'leaderboard.columnRating': 'التقييم',
+  'leaderboard.showHigherRanks': 'عرض المراكز الأعلى',
+  'leaderboard.rowLabel': 'المركز {rank}، {username}، التقييم {rating}',
+  'leaderboard.rowLabelTier': 'المركز {rank}، {username}، التقييم {rating}، {tier}',
+  'leaderboard.rowHint': 'يفتح ملف اللاعب',
+  'leaderboard.watch': 'إضافة إلى قائمة المتابعة',
+  'leaderboard.unwatch': 'إزالة من قائمة المتابعة',
+  'leaderboard.newEntry': 'جديد',
+  'leaderboard.newEntryLabel': 'دخول جديد',
+  'leaderboard.movedUp': {
+    zero: 'لم يتغير المركز',
+    one: 'صعد مركزًا واحدًا',
+    two: 'صعد مركزين',
+    few: 'صعد {count} مراكز',
+    many: 'صعد {count} مركزًا',
+    other: 'صعد {count} مركز',
+  },
+  'leaderboard.movedDown': {
+    zero: 'لم يتغير المركز',
+    one: 'هبط مركزًا واحدًا',
+    two: 'هبط مركزين',
+    few: 'هبط {count} مراكز',
+    many: 'هبط {count} مركزًا',
+    other: 'هبط {count} مركز',
+  },
+  'leaderboard.ratingUp': 'ارتفع التقييم {delta}',
+  'leaderboard.ratingDown': 'انخفض التقييم {delta}',
+  'leaderboard.movementSummary': '{rank}، {rating}',
+
+  // Refresh status (list headers)
+  'refresh.updatedJustNow': 'حُدّث الآن',
+  'refresh.updatedSeconds': {
+    zero: 'حُدّث الآن',
+    one: 'حُدّث قبل ثانية',
+    two: 'حُدّث قبل ثانيتين',
+    few: 'حُدّث قبل {count} ثوانٍ',
+    many: 'حُدّث قبل {count} ثانية',
+    other: 'حُدّث قبل {count} ثانية',
+  },
+  'refresh.updatedMinutes': {
+    zero: 'حُدّث الآن',
+    one: 'حُدّث قبل دقيقة',
+    two: 'حُدّث قبل دقيقتين',
+    few: 'حُدّث قبل {count} دقائق',
+    many: 'حُدّث قبل {count} دقيقة',
+    other: 'حُدّث قبل {count} دقيقة',
+  },
+  'refresh.autoOff': 'التحديث التلقائي متوقف',
+  'refresh.autoInterval': 'التحديث التلقائي كل {seconds} ث',
+  'refresh.autoHint': 'يغيّر عدد مرات تحديث القائمة تلقائيًا',
+
+  // Leaderboard screen: jump and filter bars
+  'leaderboard.jumpPlaceholder': 'انتقل إلى المركز #N أو اسم مستخدم',
+  'leaderboard.jumpGo': 'انتقال',
+  'leaderboard.backToTop': 'الأعلى',
+  'leaderboard.playerNotInRange': 'لا يوجد لاعب باسم «{username}» في نطاق التقييم هذا',
+  'leaderboard.rankNotFound': 'تعذّر تحميل المركز #{rank}',
+  'leaderboard.pageNotFound': 'لا توجد صفحة {page} في اللوحة؛ يُعرض الأعلى',
+  'filter.band': 'التقييمات {min}–{max}',
+  'filter.all': 'كل التقييمات',
+  'filter.clear': 'مسح',
+  'filter.done': 'تم',
+  'filter.open': 'تصفية',
+
+  // Search
+  'search.placeholder': 'ابحث عن اسم مستخدم…',
+  'search.inputLabel': 'البحث عن لاعبين باسم المستخدم',
+  'search.searching': 'جارٍ البحث',
+  'search.modePrefix': 'يبدأ بـ',
+  'search.modeSubstring': 'يحتوي على',
+  'search.modeFuzzy': 'تقريبي',
+  'search.noResults': 'لا توجد نتائج',
+  'search.resultCount': {
+    zero: 'لا نتائج',
+    one: 'نتيجة واحدة',
+    two: 'نتيجتان',
+    few: '{count} نتائج',
+    many: '{count} نتيجة',
+    other: '{count} نتيجة',
+  },
+
+  // Export (ExportButton and the screens that offer it)
+  'export.open': 'تصدير',
+  'export.csvHint': 'جداول البيانات والتقارير',
+  'export.jsonHint': 'البرامج النصية والأدوات الأخرى',
+  'export.boardTitle': 'تصدير {board}',
+  'export.leaderboardTitle': 'تصدير لوحة الصدارة',
+  'export.leaderboardBand': 'كل اللاعبين بتقييم {min}–{max}، مع المراكز الحية',
+  'export.leaderboardAll': 'كل لاعبي اللوحة، مع المراكز الحية',
+  'export.searchTitle': 'تصدير نتائج البحث',
+  'export.searchDescription': {
+    one: 'المطابقة الوحيدة لـ«{query}»، مع المركز المعروض',
+    two: 'المطابقتان لـ«{query}»، مع المراكز المعروضة',
+    few: '{count} مطابقات لـ«{query}»، مع المراكز المعروضة',
+    other: '{count} مطابقة لـ«{query}»، مع المراكز المعروضة',
+  },
+
+  // Leaderboards (BoardSwitcher)
+  'board.title': 'لوحة الصدارة',
+  'board.playerCount': {
+    zero: 'لا لاعبين',
+    one: 'لاعب واحد',
+    two: 'لاعبان',
+    few: '{count} لاعبين',
+    many: '{count} لاعبًا',
+    other: '{count} لاعب',
+  },
+
+  // Watchlist
+  'watchlist.empty': 'ضع نجمة على اللاعبين في لوحة الصدارة أو البحث لمتابعتهم هنا.',
+  'watchlist.notFound': 'غير موجودين',
+  'watchlist.remove': 'إزالة',
+  'watchlist.full': 'قائمة المتابعة ممتلئة ({max} لاعب). أزل نجمة لاعب لإضافة غيره.',
+
+  // Stats
+  'stats.empty': 'لا توجد بيانات',
+  'stats.players': 'اللاعبون',
+  'stats.mean': 'متوسط التقييم',
+  'stats.median': 'وسيط التقييم',
+  'stats.distribution': 'توزيع التقييمات',
+  'stats.bucketWidth': '{width} نقطة',
+  'stats.findPlayer': 'أين يقع لاعب ما؟',
+  'stats.usernamePlaceholder': 'اسم المستخدم',
+  'stats.find': 'بحث',
+  'stats.playerNotFound': 'لا يوجد لاعب باسم «{username}»',
+  'stats.playerSummary': '{username}: {rating} · المركز #{rank} · المئين {percentile}',
+  'stats.cutoffs': 'حدود المئينات',
+  'stats.apply': 'تطبيق',
+  'stats.percentile': 'المئين {percentile}',
+
+  // Player history (RatingHistoryChart)
+  'history.rating': 'التقييم',
+  'history.rank': 'المركز',
+  'history.empty': 'لا يوجد سجل كافٍ بعد. تُسجَّل نقطة عند كل تغيّر في التقييم ومرة كل دقيقة.',
+
+  // Player profile
+  'profile.notFound': 'اللاعب غير موجود',
+  'profile.pointsToTier': {
+    one: 'نقطة واحدة للوصول إلى {tier}',
+    two: 'نقطتان للوصول إلى {tier}',
+    few: '{count} نقاط للوصول إلى {tier}',
+    many: '{count} نقطة للوصول إلى {tier}',
+    other: '{count} نقطة للوصول إلى {tier}',
+  },
+  'profile.topTier': 'أعلى مستوى',
+  'profile.globalRank': 'المركز العام',
+  'profile.rating': 'التقييم',
+  'profile.percentile': 'المئين',
+  'profile.players': 'اللاعبون',
+  'profile.showOnLeaderboard': 'عرض في لوحة الصدارة',
+  'profile.history': 'السجل',
+  'profile.lastHour': 'آخر ساعة: {summary}',
+  'profile.lastHourSummary': '{rating}، {rank}',
+  'profile.ratingUp': '+{count} في التقييم',
+  'profile.ratingDown': '-{count} في التقييم',
+  'profile.rankUnchanged': 'المركز دون تغيير',
+  'profile.rankUp': {
+    one: 'تقدّم مركزًا واحدًا',
+    two: 'تقدّم مركزين',
+    few: 'تقدّم {count} مراكز',
+    many: 'تقدّم {count} مركزًا',
+    other: 'تقدّم {count} مركز',
+  },
+  'profile.rankDown': {
+    one: 'تراجع مركزًا واحدًا',
+    two: 'تراجع مركزين',
+    few: 'تراجع {count} مراكز',
+    many: 'تراجع {count} مركزًا',
+    other: 'تراجع {count} مركز',
+  },
+  'profile.nearby': 'لاعبون قريبون',
+
+  // Comparison (CompareBar, CompareScreen)
+  'compare.add': 'إضافة إلى المقارنة',
+  'compare.remove': 'إزالة من المقارنة',
+  'compare.removePlayer': 'إزالة {username} من المقارنة',
+  'compare.pickHint': 'اختر لاعبًا آخر للمقارنة',
+  'compare.clear': 'مسح',
+  'compare.open': 'مقارنة',
+  'compare.tooFew': 'اختر لاعبَين على الأقل للمقارنة.',
+  'compare.gaps': 'وجهًا لوجه',
+  'compare.gap': {
+    zero: '{higher} و{lower} متعادلان',
+    one: '{higher} يتقدم على {lower} بنقطة واحدة',
+    two: '{higher} يتقدم على {lower} بنقطتين',
+    few: '{higher} يتقدم على {lower} بـ{count} نقاط',
+    many: '{higher} يتقدم على {lower} بـ{count} نقطة',
+    other: '{higher} يتقدم على {lower} بـ{count} نقطة',
+  },
+  'compare.between': {
+    zero: 'لا يوجد لاعبون بينهما',
+    one: 'لاعب واحد بينهما',
+    two: 'لاعبان بينهما',
+    few: '{count} لاعبين بينهما',
+    many: '{count} لاعبًا بينهما',
+    other: '{count} لاعب بينهما',
+  },
+  'compare.history': 'التقييم خلال الساعة الأخيرة',
+  'compare.historyEmpty': 'لا يوجد سجل كافٍ للرسم بعد.',
+
+  // Admin
+  'admin.signInTitle': 'دخول المسؤول',
+  'admin.signInHelp': 'أدخل رمز ADMIN_TOKEN الذي شُغّل به الخادم الخلفي لتعديل التقييمات.',
+  'admin.signInHelpDemo': 'بيانات تجريبية: أي رمز يفتح أدوات الإدارة.',
+  'admin.tokenPlaceholder': 'رمز المسؤول',
+  'admin.unlock': 'فتح',
+  'admin.tokenRejected': 'لم يُقبل هذا الرمز.',
+  'admin.disabled': 'لم يُضبط ADMIN_TOKEN على الخادم، لذا فإن وصول المسؤول معطّل.',
+  'admin.editingBoard': 'تعديل لوحة {board}',
+  'admin.editingDefault': 'تعديل اللوحة الافتراضية',
+  'admin.lock': 'قفل',
+  'admin.editPlayer': 'تعديل لاعب',
+  'admin.matchResults': 'نتائج المباريات',
+  'admin.matchResultsHelp': 'قيّم المباريات الملعوبة بنظام Elo بدلًا من ضبط التقييمات يدويًا.',
+  'admin.recordMatch': 'تسجيل مباراة',
+  'admin.bulkImport': 'استيراد جماعي',
+
+  // Admin: edit a player (AdminUserForm)
+  'adminUser.usernamePlaceholder': 'اسم المستخدم',
+  'adminUser.lookUp': 'استعلام',
+  'adminUser.ratingPlaceholder': 'التقييم ({min}–{max})',
+  'adminUser.save': 'حفظ',
+  'adminUser.delete': 'حذف',
+  'adminUser.confirm': 'تأكيد',
+  'adminUser.ratingInvalid': 'يجب أن يكون التقييم عددًا صحيحًا من {min} إلى {max}',
+  'adminUser.found': '{username}: {rating}، المركز #{rank}',
+  'adminUser.notFound': 'لا يوجد لاعب باسم «{username}» بعد؛ سيُنشأ عند الحفظ',
+  'adminUser.saved': 'حُفظ {username} بتقييم {rating}، وهو الآن في المركز #{rank}',
+  'adminUser.deleted': 'حُذف {username}',
+
+  // Admin: bulk import (UserImportPanel)
+  'import.help':
+    'ملف CSV بعمودي username,rating (سطر العناوين اختياري) أو مصفوفة JSON من كائنات ' +
+    '{ "username", "rating" }. يُحدَّث اللاعبون الموجودون ويُنشأ الجدد.',
+  'import.choose': 'اختيار ملف',
+  'import.chooseAnother': 'اختيار ملف آخر',
+  'import.run': {
+    one: 'استيراد لاعب واحد',
+    two: 'استيراد لاعبَين',
+    few: 'استيراد {count} لاعبين',
+    many: 'استيراد {count} لاعبًا',
+    other: 'استيراد {count} لاعب',
+  },
+  'import.done': {
+    one: 'تم استيراد لاعب واحد من {file}',
+    two: 'تم استيراد لاعبَين من {file}',
+    few: 'تم استيراد {count} لاعبين من {file}',
+    many: 'تم استيراد {count} لاعبًا من {file}',
+    other: 'تم استيراد {count} لاعب من {file}',
+  },
+  'import.rejected': 'رفضها الخادم ({count})',
+  'import.summary': {
+    one: '{file}: صف واحد · {valid} صالح · {invalid} به أخطاء',
+    two: '{file}: صفان · {valid} صالح · {invalid} به أخطاء',
+    few: '{file}: {count} صفوف · {valid} صالح · {invalid} به أخطاء',
+    many: '{file}: {count} صفًا · {valid} صالح · {invalid} به أخطاء',
+    other: '{file}: {count} صف · {valid} صالح · {invalid} به أخطاء',
+  },
+  'import.skipped': 'صفوف سيتم تخطيها',
+  'import.preview': 'معاينة',
+  'import.row': 'الصف {row}',
+  'import.more': '…و{count} غيرها',
+  'import.error.usernameRequired': 'اسم المستخدم مطلوب',
+  'import.error.usernameSpaces': 'اسم المستخدم يبدأ أو ينتهي بمسافات',
+  'import.error.usernameTooLong': 'اسم المستخدم أطول من {max} حرفًا',
+  'import.error.ratingNotInteger': 'يجب أن يكون التقييم عددًا صحيحًا',
+  'import.error.ratingOutOfRange': 'يجب أن يكون التقييم بين {min} و{max}',
+  'import.error.duplicate': 'مكرر للصف {row}',
+  'import.error.notObject': 'ليس كائنًا',
+  'import.error.columnCount': {
+    zero: 'المتوقع عمودان، ولا يوجد أي عمود',
+    one: 'المتوقع عمودان، ويوجد عمود واحد',
+    two: 'المتوقع عمودان',
+    few: 'المتوقع عمودان، ويوجد {count} أعمدة',
+    many: 'المتوقع عمودان، ويوجد {count} عمودًا',
+    other: 'المتوقع عمودان، ويوجد {count} عمود',
+  },
+  'import.fileError.noRows': 'لا يحتوي الملف على أي صفوف',
+  'import.fileError.tooManyRows': 'يحتوي الملف على {count} صفًا؛ الحد الأقصى {max}',
+  'import.fileError.invalidJson': 'الملف ليس JSON صالحًا',
+  'import.fileError.notArray': 'المتوقع مصفوفة JSON من كائنات { "username", "rating" }',
+
+  // Admin: record match (RecordMatchScreen, MatchGameRow)
+  'match.locked': 'افتح تبويب الإدارة برمز المسؤول لتسجيل المباريات.',
+  'match.kFactor': 'معامل K',
+  'match.kFactorHelp':
+    'أقصى ما يمكن أن يكسبه اللاعب أو يخسره في المباراة (1–{max}). القيم الأعلى تحرّك التقييمات أسرع.',
+  'match.games': 'المباريات',
+  'match.gamesOnBoard': 'المباريات في {board}',
+  'match.game': 'المباراة {number}',
+  'match.remove': 'إزالة',
+  'match.player': 'اللاعب',
+  'match.opponent': 'الخصم',
+  'match.versus': 'ضد',
+  'match.won': 'فوز',
+  'match.draw': 'تعادل',
+  'match.lost': 'خسارة',
+  'match.addGame': '+ إضافة مباراة',
+  'match.recorded': 'تم التسجيل',
+  'match.changes': 'تغيّرات التقييم',
+  'match.incomplete': 'أدخل اللاعبَين في كل مباراة لمعاينة التغيّرات.',
+  'match.submit': {
+    one: 'تسجيل مباراة واحدة',
+    two: 'تسجيل مباراتين',
+    few: 'تسجيل {count} مباريات',
+    many: 'تسجيل {count} مباراة',
+    other: 'تسجيل {count} مباراة',
+  },
+
+  // Developer settings
+  'dev.open': 'إعدادات المطوّر',
+  'dev.backend': 'الخادم الخلفي',
+  'dev.current': 'تُرسل الطلبات إلى {url}',
+  'dev.currentDemo': 'بيانات تجريبية من التطبيق، دون الحاجة إلى خادم',
+  'dev.sourceDefault': 'القيمة الافتراضية',
+  'dev.sourceApp': 'من app.json',
+  'dev.sourceServed': 'من config.json',
+  'dev.sourceOverride': 'مختار على هذا الجهاز',
+  'dev.demo': 'بيانات تجريبية',
+  'dev.demoHelp': 'لاعبون وحركة مباشرة محاكاة، دون خادم خلفي',
+  'dev.customPlaceholder': 'خادم آخر: https://…',
+  'dev.use': 'استخدام',
+  'dev.invalidUrl': 'أدخل عنوان URL كاملًا يبدأ بـ http:// أو https://',
+  'dev.reset': 'العودة إلى الخادم المُعَدّ ({url})',
+  'dev.resetDemo': 'العودة إلى الخادم المُعَدّ (بيانات تجريبية)',
+  'dev.switchHelp':
+    'التبديل يعيد تحميل كل الشاشات من الخادم الجديد ويسجّل الخروج من الإدارة. ' +
+    'يُحفظ الاختيار على هذا الجهاز فقط.',
+  'dev.features': 'الميزات',
+  'dev.on': 'مفعّلة',
+  'dev.off': 'معطّلة',
+  'dev.requestTimeout': 'مهلة الطلب',
+  'dev.seconds': '{seconds} ث',
+};
+
+// CLDR plural rules for Arabic: 0, 1, 2, 3–10 and 11–99 (by the last two
+// digits) each take a different noun form
+function plural(count: number): PluralCategory {
+  if (count === 0) return 'zero';
+  if (count === 1) return 'one';
+  if (count === 2) return 'two';
+  const lastTwo = count % 100;
+  if (lastTwo >= 3 && lastTwo <= 10) return 'few';
+  if (lastTwo >= 11 && lastTwo <= 99) return 'many';
+  return 'other';
+}
+
+const ar: LocaleDefinition = {
+  code: 'ar',
+  name: 'العربية',
+  direction: 'rtl',
+  intlLocale: 'ar',
+  plural,
+  // Arabic has no compact ordinal suffix; leaderboards mark ranks with #
+  ordinal: (rank, formatted) => `#${formatted}`,
+  messages,
+};
+
+export default ar;
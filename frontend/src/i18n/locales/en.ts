@@ -0,0 +1,324 @@
+import { LocaleDefinition } from '../types';
+
+// English, the source catalog. Keys are grouped by the screen or component
+// that shows them; {name} is a placeholder filled in by translate().
+export const messages = {
+  // App shell and navigation
+  'app.errorTitle': 'App Error',
+  'app.errorUnknown': 'An unknown error occurred',
+  'tab.leaderboard': 'Rankings',
+  'tab.leaderboardTitle': 'Leaderboard',
+  'tab.search': 'Search',
+  'tab.searchTitle': 'Search Players',
+  'tab.watchlist': 'Watchlist',
+  'tab.watchlistTitle': 'Watchlist',
+  'tab.stats': 'Stats',
+  'tab.statsTitle': 'Rating Distribution',
+  'tab.admin': 'Admin',
+  'tab.adminTitle': 'Admin',
+  'screen.player': 'Player',
+  'screen.recordMatch': 'Record Match',
+  'screen.developerSettings': 'Developer settings',
+  'screen.compare': 'Compare',
+  'language.title': 'Language',
+  'language.system': 'System default',
+  'theme.system': 'Auto',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+
+  // Tier names (theme/tiers.ts)
+  'tiers.bronze': 'Bronze',
+  'tiers.silver': 'Silver',
+  'tiers.gold': 'Gold',
+  'tiers.platinum': 'Platinum',
+  'tiers.diamond': 'Diamond',
+  'tiers.master': 'Master',
+  'tiers.grandmaster': 'Grandmaster',
+
+  // Errors (ErrorState)
+  'error.network': "Can't reach the server",
+  'error.networkDetail': 'Check that the backend is running.',
+  'error.timeout': 'The server is not responding',
+  'error.server': 'Server error ({status})',
+  'error.client': 'Request rejected ({status})',
+  'error.malformed': 'Unexpected response from the server',
+  'error.unknown': 'Something went wrong',
+  'error.retry': 'Retry',
+
+  // Leaderboard list
+  'leaderboard.empty': 'No data available',
+  'leaderboard.columnRank': 'Rank',
+  'leaderboard.columnUsername': 'Username',
+  'leaderboard.columnRating': 'Rating',
+  'leaderboard.showHigherRanks': 'Show higher ranks',
+  'leaderboard.rowLabel': 'Rank {rank}, {username}, rating {rating}',
+  'leaderboard.rowLabelTier': 'Rank {rank}, {username}, rating {rating}, {tier}',
+  'leaderboard.rowHint': 'Opens the player profile',
+  'leaderboard.watch': 'Add to watchlist',
+  'leaderboard.unwatch': 'Remove from watchlist',
+  'leaderboard.newEntry': 'NEW',
+  'leaderboard.newEntryLabel': 'New entry',
+  'leaderboard.movedUp': { one: 'Up {count} place', other: 'Up {count} places' },
+  'leaderboard.movedDown': { one: 'Down {count} place', other: 'Down {count} places' },
+  'leaderboard.ratingUp': 'Rating up {delta}',
+  'leaderboard.ratingDown': 'Rating down {delta}',
+  'leaderboard.movementSummary': '{rank}, {rating}',
+
+  // Refresh status (list headers)
+  'refresh.updatedJustNow': 'Updated just now',
+  'refresh.updatedSeconds': {
+    one: 'Updated {count} second ago',
+    other: 'Updated {count} seconds ago',
+  },
+  'refresh.updatedMinutes': {
+    one: 'Updated {count} minute ago',
+    other: 'Updated {count} minutes ago',
+  },
+  'refresh.autoOff': 'Auto-refresh off',
+  'refresh.autoInterval': 'Auto-refresh {seconds}s',
+  'refresh.autoHint': 'Changes how often the list refreshes by itself',
+
+  // Leaderboard screen: jump and filter bars
+  'leaderboard.jumpPlaceholder': 'Go to rank #N or username',
+  'leaderboard.jumpGo': 'Go',
+  'leaderboard.backToTop': 'Top',
+  'leaderboard.playerNotInRange': 'No player named "{username}" in this rating range',
+  'leaderboard.rankNotFound': "Couldn't load rank #{rank}",
+  'leaderboard.pageNotFound': 'The board has no page {page}; showing the top',
+  'filter.band': 'Ratings {min}–{max}',
+  'filter.all': 'All ratings',
+  'filter.clear': 'Clear',
+  'filter.done': 'Done',
+  'filter.open': 'Filter',
+
+  // Search
+  'search.placeholder': 'Search username…',
+  'search.inputLabel': 'Search players by username',
+  'search.searching': 'Searching',
+  'search.modePrefix': 'Starts with',
+  'search.modeSubstring': 'Contains',
+  'search.modeFuzzy': 'Fuzzy',
+  'search.noResults': 'No results found',
+  'search.resultCount': { one: '{count} result', other: '{count} results' },
+
+  // Export (ExportButton and the screens that offer it)
+  'export.open': 'Export',
+  'export.csvHint': 'Spreadsheets and reports',
+  'export.jsonHint': 'Scripts and other tools',
+  'export.boardTitle': 'Export {board}',
+  'export.leaderboardTitle': 'Export leaderboard',
+  'export.leaderboardBand': 'Every player rated {min}–{max}, with live ranks',
+  'export.leaderboardAll': 'Every player on the board, with live ranks',
+  'export.searchTitle': 'Export search results',
+  'export.searchDescription': {
+    one: 'The {count} match for "{query}", with the rank shown',
+    other: 'The {count} matches for "{query}", with the ranks shown',
+  },
+
+  // Leaderboards (BoardSwitcher)
+  'board.title': 'Leaderboard',
+  'board.playerCount': { one: '{count} player', other: '{count} players' },
+
+  // Watchlist
+  'watchlist.empty': 'Star players on the leaderboard or in search to track them here.',
+  'watchlist.notFound': 'Not found',
+  'watchlist.remove': 'Remove',
+  'watchlist.full': 'Watchlist is full ({max} players). Unstar someone to add more.',
+
+  // Stats
+  'stats.empty': 'No data available',
+  'stats.players': 'Players',
+  'stats.mean': 'Mean rating',
+  'stats.median': 'Median rating',
+  'stats.distribution': 'Rating distribution',
+  'stats.bucketWidth': '{width} pts',
+  'stats.findPlayer': 'Where does a player fall?',
+  'stats.usernamePlaceholder': 'Username',
+  'stats.find': 'Find',
+  'stats.playerNotFound': 'No player named "{username}"',
+  'stats.playerSummary': '{username}: {rating} · rank #{rank} · {percentile}th percentile',
+  'stats.cutoffs': 'Percentile cutoffs',
+  'stats.apply': 'Apply',
+  'stats.percentile': '{percentile}th percentile',
+
+  // Player history (RatingHistoryChart)
+  'history.rating': 'Rating',
+  'history.rank': 'Rank',
+  'history.empty':
+    'Not enough history yet. Points are recorded on every rating change and once a minute.',
+
+  // Player profile
+  'profile.notFound': 'Player not found',
+  'profile.pointsToTier': { one: '{count} point to {tier}', other: '{count} points to {tier}' },
+  'profile.topTier': 'Top tier',
+  'profile.globalRank': 'Global rank',
+  'profile.rating': 'Rating',
+  'profile.percentile': 'Percentile',
+  'profile.players': 'Players',
+  'profile.showOnLeaderboard': 'Show on leaderboard',
+  'profile.history': 'History',
+  'profile.lastHour': 'Last hour: {summary}',
+  'profile.lastHourSummary': '{rating}, {rank}',
+  'profile.ratingUp': '+{count} rating',
+  'profile.ratingDown': '-{count} rating',
+  'profile.rankUnchanged': 'rank unchanged',
+  'profile.rankUp': { one: 'up {count} place', other: 'up {count} places' },
+  'profile.rankDown': { one: 'down {count} place', other: 'down {count} places' },
+  'profile.nearby': 'Nearby players',
+
+  // Comparison (CompareBar, CompareScreen)
+  'compare.add': 'Add to comparison',
+  'compare.remove': 'Remove from comparison',
+  'compare.removePlayer': 'Remove {username} from comparison',
+  'compare.pickHint': 'Pick one more player to compare',
+  'compare.clear': 'Clear',
+  'compare.open': 'Compare',
+  'compare.tooFew': 'Pick at least two players to compare.',
+  'compare.gaps': 'Head to head',
+  'compare.gap': {
+    one: '{higher} leads {lower} by {count} point',
+    other: '{higher} leads {lower} by {count} points',
+  },
+  'compare.between': {
+    one: '{count} player between them',
+    other: '{count} players between them',
+  },
+  'compare.history': 'Rating over the last hour',
+  'compare.historyEmpty': 'Not enough history to chart yet.',
+
+  // Admin
+  'admin.signInTitle': 'Admin sign-in',
+  'admin.signInHelp': 'Enter the ADMIN_TOKEN the backend was started with to edit ratings.',
+  'admin.signInHelpDemo': 'Demo data: any token unlocks the admin tools.',
+  'admin.tokenPlaceholder': 'Admin token',
+  'admin.unlock': 'Unlock',
+  'admin.tokenRejected': 'That token was not accepted.',
+  'admin.disabled': 'The server has no ADMIN_TOKEN set, so admin access is disabled.',
+  'admin.editingBoard': 'Editing the {board} board',
+  'admin.editingDefault': 'Editing the default board',
+  'admin.lock': 'Lock',
+  'admin.editPlayer': 'Edit a player',
+  'admin.matchResults': 'Match results',
+  'admin.matchResultsHelp': 'Rate played games with Elo instead of setting ratings by hand.',
+  'admin.recordMatch': 'Record match',
+  'admin.bulkImport': 'Bulk import',
+
+  // Admin: edit a player (AdminUserForm)
+  'adminUser.usernamePlaceholder': 'Username',
+  'adminUser.lookUp': 'Look up',
+  'adminUser.ratingPlaceholder': 'Rating ({min}–{max})',
+  'adminUser.save': 'Save',
+  'adminUser.delete': 'Delete',
+  'adminUser.confirm': 'Confirm',
+  'adminUser.ratingInvalid': 'Rating must be a whole number from {min} to {max}',
+  'adminUser.found': '{username}: {rating}, rank #{rank}',
+  'adminUser.notFound': 'No player named "{username}" yet; saving will create them',
+  'adminUser.saved': 'Saved {username} at {rating}, now rank #{rank}',
+  'adminUser.deleted': 'Deleted {username}',
+
+  // Admin: bulk import (UserImportPanel)
+  'import.help':
+    'CSV with username,rating columns (header optional) or a JSON array of ' +
+    '{ "username", "rating" } objects. Existing players are updated, new ones are created.',
+  'import.choose': 'Choose file',
+  'import.chooseAnother': 'Choose another file',
+  'import.run': { one: 'Import {count} player', other: 'Import {count} players' },
+  'import.done': {
+    one: 'Imported {count} player from {file}',
+    other: 'Imported {count} players from {file}',
+  },
+  'import.rejected': 'Rejected by the server ({count})',
+  'import.summary': {
+    one: '{file}: {count} row · {valid} valid · {invalid} with errors',
+    other: '{file}: {count} rows · {valid} valid · {invalid} with errors',
+  },
+  'import.skipped': 'Rows that will be skipped',
+  'import.preview': 'Preview',
+  'import.row': 'Row {row}',
+  'import.more': '…and {count} more',
+  'import.error.usernameRequired': 'Username is required',
+  'import.error.usernameSpaces': 'Username has leading or trailing spaces',
+  'import.error.usernameTooLong': 'Username is longer than {max} characters',
+  'import.error.ratingNotInteger': 'Rating must be a whole number',
+  'import.error.ratingOutOfRange': 'Rating must be between {min} and {max}',
+  'import.error.duplicate': 'Duplicate of row {row}',
+  'import.error.notObject': 'Not an object',
+  'import.error.columnCount': 'Expected 2 columns, found {count}',
+  'import.fileError.noRows': 'The file has no rows',
+  'import.fileError.tooManyRows': 'The file has {count} rows; the limit is {max}',
+  'import.fileError.invalidJson': 'The file is not valid JSON',
+  'import.fileError.notArray': 'Expected a JSON array of { "username", "rating" } objects',
+
+  // Admin: record match (RecordMatchScreen, MatchGameRow)
+  'match.locked': 'Unlock the Admin tab with the admin token to record matches.',
+  'match.kFactor': 'K-factor',
+  'match.kFactorHelp':
+    'The most a player can gain or lose per game (1–{max}). Higher values move ratings faster.',
+  'match.games': 'Games',
+  'match.gamesOnBoard': 'Games on {board}',
+  'match.game': 'Game {number}',
+  'match.remove': 'Remove',
+  'match.player': 'Player',
+  'match.opponent': 'Opponent',
+  'match.versus': 'vs',
+  'match.won': 'Won',
+  'match.draw': 'Draw',
+  'match.lost': 'Lost',
+  'match.addGame': '+ Add game',
+  'match.recorded': 'Recorded',
+  'match.changes': 'Rating changes',
+  'match.incomplete': 'Fill in both players of every game to preview the changes.',
+  'match.submit': { one: 'Record {count} game', other: 'Record {count} games' },
+
+  // Developer settings
+  'dev.open': 'Developer settings',
+  'dev.backend': 'Backend',
+  'dev.current': 'Requests go to {url}',
+  'dev.currentDemo': 'Demo data from the app, no server needed',
+  'dev.sourceDefault': 'Built-in default',
+  'dev.sourceApp': 'From app.json',
+  'dev.sourceServed': 'From config.json',
+  'dev.sourceOverride': 'Picked on this device',
+  'dev.demo': 'Demo data',
+  'dev.demoHelp': 'Simulated players and live traffic, without a backend',
+  'dev.customPlaceholder': 'Another backend: https://…',
+  'dev.use': 'Use',
+  'dev.invalidUrl': 'Enter a full http:// or https:// URL',
+  'dev.reset': 'Back to the configured backend ({url})',
+  'dev.resetDemo': 'Back to the configured backend (demo data)',
+  'dev.switchHelp':
+    'Switching reloads every screen from the new server and signs out of Admin. ' +
+    'The choice is saved on this device only.',
+  'dev.features': 'Feature flags',
+  'dev.on': 'On',
+  'dev.off': 'Off',
+  'dev.requestTimeout': 'Request timeout',
+  'dev.seconds': '{seconds} s',
+};
+
+function ordinalSuffix(rank: number): string {
+  const lastTwo = rank % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return 'th';
+  switch (rank % 10) {
+    case 1:
+      return 'st';
+    case 2:
+      return 'nd';
+    case 3:
+      return 'rd';
+    default:
+      return 'th';
+  }
+}
+
+const en: LocaleDefinition = {
+  code: 'en',
+  name: 'English',
+  direction: 'ltr',
+  intlLocale: 'en-US',
+  plural: (count) => (count === 1 ? 'one' : 'other'),
+  ordinal: (rank, formatted) => `${formatted}${ordinalSuffix(rank)}`,
+  messages,
+};
+
+export default en;
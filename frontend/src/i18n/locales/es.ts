@@ -0,0 +1,318 @@
+import { LocaleDefinition, Message, MessageKey } from '../types';
+
+const messages: Record<MessageKey, Message> = {
+  // App shell and navigation
+  'app.errorTitle': 'Error de la aplicación',
+  'app.errorUnknown': 'Se produjo un error desconocido',
+  'tab.leaderboard': 'Clasificación',
+  'tab.leaderboardTitle': 'Clasificación',
+  'tab.search': 'Buscar',
+  'tab.searchTitle': 'Buscar jugadores',
+  'tab.watchlist': 'Seguidos',
+  'tab.watchlistTitle': 'Jugadores seguidos',
+  'tab.stats': 'Estadísticas',
+  'tab.statsTitle': 'Distribución de puntuaciones',
+  'tab.admin': 'Admin',
+  'tab.adminTitle': 'Administración',
+  'screen.player': 'Jugador',
+  'screen.recordMatch': 'Registrar partida',
+  'screen.developerSettings': 'Ajustes de desarrollo',
+  'screen.compare': 'Comparar',
+  'language.title': 'Idioma',
+  'language.system': 'Predeterminado del sistema',
+  'theme.system': 'Auto',
+  'theme.light': 'Claro',
+  'theme.dark': 'Oscuro',
+
+  // Tier names (theme/tiers.ts)
+  'tiers.bronze': 'Bronce',
+  'tiers.silver': 'Plata',
+  'tiers.gold': 'Oro',
+  'tiers.platinum': 'Platino',
+  'tiers.diamond': 'Diamante',
+  'tiers.master': 'Maestro',
+  'tiers.grandmaster': 'Gran Maestro',
+
+  // Errors (ErrorState)
+  'error.network': 'No se puede conectar con el servidor',
+  'error.networkDetail': 'Comprueba que el backend esté en marcha.',
+  'error.timeout': 'El servidor no responde',
+  'error.server': 'Error del servidor ({status})',
+  'error.client': 'Solicitud rechazada ({status})',
+  'error.malformed': 'Respuesta inesperada del servidor',
+  'error.unknown': 'Algo salió mal',
+  'error.retry': 'Reintentar',
+
+  // Leaderboard list
+  'leaderboard.empty': 'No hay datos disponibles',
+  'leaderboard.columnRank': 'Puesto',
+  'leaderboard.columnUsername': 'Usuario',
+  'leaderboard.columnRating': 'Puntuación',
+  'leaderboard.showHigherRanks': 'Mostrar puestos superiores',
+  'leaderboard.rowLabel': 'Puesto {rank}, {username}, puntuación {rating}',
+  'leaderboard.rowLabelTier': 'Puesto {rank}, {username}, puntuación {rating}, {tier}',
+  'leaderboard.rowHint': 'Abre el perfil del jugador',
+  'leaderboard.watch': 'Seguir',
+  'leaderboard.unwatch': 'Dejar de seguir',
+  'leaderboard.newEntry': 'NUEVO',
+  'leaderboard.newEntryLabel': 'Nueva entrada',
+  'leaderboard.movedUp': { one: 'Sube {count} puesto', other: 'Sube {count} puestos' },
+  'leaderboard.movedDown': { one: 'Baja {count} puesto', other: 'Baja {count} puestos' },
+  'leaderboard.ratingUp': 'La puntuación sube {delta}',
+  'leaderboard.ratingDown': 'La puntuación baja {delta}',
+  'leaderboard.movementSummary': '{rank}, {rating}',
+
+  // Refresh status (list headers)
+  'refresh.updatedJustNow': 'Actualizado ahora mismo',
+  'refresh.updatedSeconds': {
+    one: 'Actualizado hace {count} segundo',
+    other: 'Actualizado hace {count} segundos',
+  },
+  'refresh.updatedMinutes': {
+    one: 'Actualizado hace {count} minuto',
+    other: 'Actualizado hace {count} minutos',
+  },
+  'refresh.autoOff': 'Actualización automática: no',
+  'refresh.autoInterval': 'Actualización automática: {seconds} s',
+  'refresh.autoHint': 'Cambia cada cuánto se actualiza la lista sola',
+
+  // Leaderboard screen: jump and filter bars
+  'leaderboard.jumpPlaceholder': 'Ir al puesto #N o a un usuario',
+  'leaderboard.jumpGo': 'Ir',
+  'leaderboard.backToTop': 'Inicio',
+  'leaderboard.playerNotInRange': 'Ningún jugador llamado "{username}" en este rango',
+  'leaderboard.rankNotFound': 'No se pudo cargar el puesto #{rank}',
+  'leaderboard.pageNotFound': 'La clasificación no tiene página {page}; se muestra el inicio',
+  'filter.band': 'Puntuaciones {min}–{max}',
+  'filter.all': 'Todas las puntuaciones',
+  'filter.clear': 'Quitar',
+  'filter.done': 'Listo',
+  'filter.open': 'Filtrar',
+
+  // Search
+  'search.placeholder': 'Buscar usuario…',
+  'search.inputLabel': 'Buscar jugadores por usuario',
+  'search.searching': 'Buscando',
+  'search.modePrefix': 'Empieza por',
+  'search.modeSubstring': 'Contiene',
+  'search.modeFuzzy': 'Aproximada',
+  'search.noResults': 'No se encontraron resultados',
+  'search.resultCount': { one: '{count} resultado', other: '{count} resultados' },
+
+  // Export (ExportButton and the screens that offer it)
+  'export.open': 'Exportar',
+  'export.csvHint': 'Hojas de cálculo e informes',
+  'export.jsonHint': 'Scripts y otras herramientas',
+  'export.boardTitle': 'Exportar {board}',
+  'export.leaderboardTitle': 'Exportar clasificación',
+  'export.leaderboardBand': 'Todos los jugadores con {min}–{max} puntos, con puestos en vivo',
+  'export.leaderboardAll': 'Todos los jugadores de la clasificación, con puestos en vivo',
+  'export.searchTitle': 'Exportar resultados de búsqueda',
+  'export.searchDescription': {
+    one: 'La {count} coincidencia de "{query}", con el puesto mostrado',
+    other: 'Las {count} coincidencias de "{query}", con los puestos mostrados',
+  },
+
+  // Leaderboards (BoardSwitcher)
+  'board.title': 'Clasificación',
+  'board.playerCount': { one: '{count} jugador', other: '{count} jugadores' },
+
+  // Watchlist
+  'watchlist.empty':
+    'Marca jugadores con la estrella en la clasificación o en la búsqueda para seguirlos aquí.',
+  'watchlist.notFound': 'No encontrados',
+  'watchlist.remove': 'Quitar',
+  'watchlist.full':
+    'La lista está llena ({max} jugadores). Deja de seguir a alguien para añadir más.',
+
+  // Stats
+  'stats.empty': 'No hay datos disponibles',
+  'stats.players': 'Jugadores',
+  'stats.mean': 'Puntuación media',
+  'stats.median': 'Puntuación mediana',
+  'stats.distribution': 'Distribución de puntuaciones',
+  'stats.bucketWidth': '{width} pts',
+  'stats.findPlayer': '¿Dónde está un jugador?',
+  'stats.usernamePlaceholder': 'Usuario',
+  'stats.find': 'Buscar',
+  'stats.playerNotFound': 'Ningún jugador llamado "{username}"',
+  'stats.playerSummary': '{username}: {rating} · puesto #{rank} · percentil {percentile}',
+  'stats.cutoffs': 'Cortes por percentil',
+  'stats.apply': 'Aplicar',
+  'stats.percentile': 'Percentil {percentile}',
+
+  // Player history (RatingHistoryChart)
+  'history.rating': 'Puntuación',
+  'history.rank': 'Puesto',
+  'history.empty':
+    'Aún no hay suficiente historial. Se guarda un punto en cada cambio de puntuación y una vez por minuto.',
+
+  // Player profile
+  'profile.notFound': 'Jugador no encontrado',
+  'profile.pointsToTier': {
+    one: '{count} punto para {tier}',
+    other: '{count} puntos para {tier}',
+  },
+  'profile.topTier': 'Nivel máximo',
+  'profile.globalRank': 'Puesto global',
+  'profile.rating': 'Puntuación',
+  'profile.percentile': 'Percentil',
+  'profile.players': 'Jugadores',
+  'profile.showOnLeaderboard': 'Ver en la clasificación',
+  'profile.history': 'Historial',
+  'profile.lastHour': 'Última hora: {summary}',
+  'profile.lastHourSummary': '{rating}, {rank}',
+  'profile.ratingUp': '+{count} de puntuación',
+  'profile.ratingDown': '-{count} de puntuación',
+  'profile.rankUnchanged': 'mismo puesto',
+  'profile.rankUp': { one: 'sube {count} puesto', other: 'sube {count} puestos' },
+  'profile.rankDown': { one: 'baja {count} puesto', other: 'baja {count} puestos' },
+  'profile.nearby': 'Jugadores cercanos',
+
+  // Comparison (CompareBar, CompareScreen)
+  'compare.add': 'Añadir a la comparación',
+  'compare.remove': 'Quitar de la comparación',
+  'compare.removePlayer': 'Quitar a {username} de la comparación',
+  'compare.pickHint': 'Elige un jugador más para comparar',
+  'compare.clear': 'Borrar',
+  'compare.open': 'Comparar',
+  'compare.tooFew': 'Elige al menos dos jugadores para comparar.',
+  'compare.gaps': 'Cara a cara',
+  'compare.gap': {
+    one: '{higher} supera a {lower} por {count} punto',
+    other: '{higher} supera a {lower} por {count} puntos',
+  },
+  'compare.between': {
+    one: '{count} jugador entre ellos',
+    other: '{count} jugadores entre ellos',
+  },
+  'compare.history': 'Puntuación en la última hora',
+  'compare.historyEmpty': 'Todavía no hay historial suficiente para el gráfico.',
+
+  // Admin
+  'admin.signInTitle': 'Acceso de administrador',
+  'admin.signInHelp':
+    'Introduce el ADMIN_TOKEN con el que se inició el backend para editar puntuaciones.',
+  'admin.signInHelpDemo':
+    'Datos de demostración: cualquier token desbloquea las herramientas de administración.',
+  'admin.tokenPlaceholder': 'Token de administrador',
+  'admin.unlock': 'Desbloquear',
+  'admin.tokenRejected': 'Ese token no es válido.',
+  'admin.disabled':
+    'El servidor no tiene ADMIN_TOKEN configurado, así que el acceso de administrador está desactivado.',
+  'admin.editingBoard': 'Editando la clasificación {board}',
+  'admin.editingDefault': 'Editando la clasificación predeterminada',
+  'admin.lock': 'Bloquear',
+  'admin.editPlayer': 'Editar un jugador',
+  'admin.matchResults': 'Resultados de partidas',
+  'admin.matchResultsHelp':
+    'Puntúa las partidas jugadas con Elo en lugar de fijar puntuaciones a mano.',
+  'admin.recordMatch': 'Registrar partida',
+  'admin.bulkImport': 'Importación masiva',
+
+  // Admin: edit a player (AdminUserForm)
+  'adminUser.usernamePlaceholder': 'Usuario',
+  'adminUser.lookUp': 'Consultar',
+  'adminUser.ratingPlaceholder': 'Puntuación ({min}–{max})',
+  'adminUser.save': 'Guardar',
+  'adminUser.delete': 'Eliminar',
+  'adminUser.confirm': 'Confirmar',
+  'adminUser.ratingInvalid': 'La puntuación debe ser un número entero de {min} a {max}',
+  'adminUser.found': '{username}: {rating}, puesto #{rank}',
+  'adminUser.notFound': 'Aún no hay ningún jugador llamado "{username}"; al guardar se creará',
+  'adminUser.saved': '{username} guardado con {rating}, ahora en el puesto #{rank}',
+  'adminUser.deleted': '{username} eliminado',
+
+  // Admin: bulk import (UserImportPanel)
+  'import.help':
+    'CSV con las columnas username,rating (cabecera opcional) o un array JSON de objetos ' +
+    '{ "username", "rating" }. Los jugadores existentes se actualizan y los nuevos se crean.',
+  'import.choose': 'Elegir archivo',
+  'import.chooseAnother': 'Elegir otro archivo',
+  'import.run': { one: 'Importar {count} jugador', other: 'Importar {count} jugadores' },
+  'import.done': {
+    one: 'Se importó {count} jugador de {file}',
+    other: 'Se importaron {count} jugadores de {file}',
+  },
+  'import.rejected': 'Rechazadas por el servidor ({count})',
+  'import.summary': {
+    one: '{file}: {count} fila · {valid} válidas · {invalid} con errores',
+    other: '{file}: {count} filas · {valid} válidas · {invalid} con errores',
+  },
+  'import.skipped': 'Filas que se omitirán',
+  'import.preview': 'Vista previa',
+  'import.row': 'Fila {row}',
+  'import.more': '…y {count} más',
+  'import.error.usernameRequired': 'El nombre de usuario es obligatorio',
+  'import.error.usernameSpaces': 'El nombre de usuario tiene espacios al principio o al final',
+  'import.error.usernameTooLong': 'El nombre de usuario tiene más de {max} caracteres',
+  'import.error.ratingNotInteger': 'La puntuación debe ser un número entero',
+  'import.error.ratingOutOfRange': 'La puntuación debe estar entre {min} y {max}',
+  'import.error.duplicate': 'Duplicado de la fila {row}',
+  'import.error.notObject': 'No es un objeto',
+  'import.error.columnCount': 'Se esperaban 2 columnas, hay {count}',
+  'import.fileError.noRows': 'El archivo no tiene filas',
+  'import.fileError.tooManyRows': 'El archivo tiene {count} filas; el límite es {max}',
+  'import.fileError.invalidJson': 'El archivo no es JSON válido',
+  'import.fileError.notArray': 'Se esperaba un array JSON de objetos { "username", "rating" }',
+
+  // Admin: record match (RecordMatchScreen, MatchGameRow)
+  'match.locked':
+    'Desbloquea la pestaña Admin con el token de administrador para registrar partidas.',
+  'match.kFactor': 'Factor K',
+  'match.kFactorHelp':
+    'Lo máximo que un jugador puede ganar o perder por partida (1–{max}). Los valores altos mueven las puntuaciones más rápido.',
+  'match.games': 'Partidas',
+  'match.gamesOnBoard': 'Partidas en {board}',
+  'match.game': 'Partida {number}',
+  'match.remove': 'Quitar',
+  'match.player': 'Jugador',
+  'match.opponent': 'Rival',
+  'match.versus': 'vs',
+  'match.won': 'Ganó',
+  'match.draw': 'Tablas',
+  'match.lost': 'Perdió',
+  'match.addGame': '+ Añadir partida',
+  'match.recorded': 'Registrado',
+  'match.changes': 'Cambios de puntuación',
+  'match.incomplete': 'Rellena los dos jugadores de cada partida para ver los cambios.',
+  'match.submit': { one: 'Registrar {count} partida', other: 'Registrar {count} partidas' },
+
+  // Developer settings
+  'dev.open': 'Ajustes de desarrollo',
+  'dev.backend': 'Backend',
+  'dev.current': 'Las solicitudes van a {url}',
+  'dev.currentDemo': 'Datos de demostración de la app, sin servidor',
+  'dev.sourceDefault': 'Valor predeterminado',
+  'dev.sourceApp': 'Desde app.json',
+  'dev.sourceServed': 'Desde config.json',
+  'dev.sourceOverride': 'Elegido en este dispositivo',
+  'dev.demo': 'Datos de demostración',
+  'dev.demoHelp': 'Jugadores y tráfico en vivo simulados, sin backend',
+  'dev.customPlaceholder': 'Otro backend: https://…',
+  'dev.use': 'Usar',
+  'dev.invalidUrl': 'Introduce una URL completa http:// o https://',
+  'dev.reset': 'Volver al backend configurado ({url})',
+  'dev.resetDemo': 'Volver al backend configurado (datos de demostración)',
+  'dev.switchHelp':
+    'Al cambiar, todas las pantallas se recargan desde el nuevo servidor y se cierra la sesión ' +
+    'de Admin. La elección solo se guarda en este dispositivo.',
+  'dev.features': 'Funciones',
+  'dev.on': 'Sí',
+  'dev.off': 'No',
+  'dev.requestTimeout': 'Tiempo de espera',
+  'dev.seconds': '{seconds} s',
+};
+
+const es: LocaleDefinition = {
+  code: 'es',
+  name: 'Español',
+  direction: 'ltr',
+  intlLocale: 'es',
+  plural: (count) => (count === 1 ? 'one' : 'other'),
+  // 1.º, 2.º, ... (el 1.º puesto)
+  ordinal: (rank, formatted) => `${formatted}.º`,
+  messages,
+};
+
+export default es;
@@ -0,0 +1,326 @@
+import { LocaleDefinition, Message, MessageKey } from '../types';
+
+const messages: Record<MessageKey, Message> = {
+  // App shell and navigation
+  'app.errorTitle': "Erreur de l'application",
+  'app.errorUnknown': "Une erreur inconnue s'est produite",
+  'tab.leaderboard': 'Classement',
+  'tab.leaderboardTitle': 'Classement',
+  'tab.search': 'Recherche',
+  'tab.searchTitle': 'Rechercher des joueurs',
+  'tab.watchlist': 'Suivis',
+  'tab.watchlistTitle': 'Joueurs suivis',
+  'tab.stats': 'Stats',
+  'tab.statsTitle': 'Répartition des cotes',
+  'tab.admin': 'Admin',
+  'tab.adminTitle': 'Administration',
+  'screen.player': 'Joueur',
+  'screen.recordMatch': 'Enregistrer une partie',
+  'screen.developerSettings': 'Réglages développeur',
+  'screen.compare': 'Comparer',
+  'language.title': 'Langue',
+  'language.system': 'Langue du système',
+  'theme.system': 'Auto',
+  'theme.light': 'Clair',
+  'theme.dark': 'Sombre',
+
+  // Tier names (theme/tiers.ts)
+  'tiers.bronze': 'Bronze',
+  'tiers.silver': 'Argent',
+  'tiers.gold': 'Or',
+  'tiers.platinum': 'Platine',
+  'tiers.diamond': 'Diamant',
+  'tiers.master': 'Maître',
+  'tiers.grandmaster': 'Grand Maître',
+
+  // Errors (ErrorState)
+  'error.network': 'Impossible de joindre le serveur',
+  'error.networkDetail': 'Vérifiez que le backend est lancé.',
+  'error.timeout': 'Le serveur ne répond pas',
+  'error.server': 'Erreur du serveur ({status})',
+  'error.client': 'Requête refusée ({status})',
+  'error.malformed': 'Réponse inattendue du serveur',
+  'error.unknown': 'Un problème est survenu',
+  'error.retry': 'Réessayer',
+
+  // Leaderboard list
+  'leaderboard.empty': 'Aucune donnée disponible',
+  'leaderboard.columnRank': 'Rang',
+  'leaderboard.columnUsername': 'Pseudo',
+  'leaderboard.columnRating': 'Cote',
+  'leaderboard.showHigherRanks': 'Afficher les rangs supérieurs',
+  'leaderboard.rowLabel': 'Rang {rank}, {username}, cote {rating}',
+  'leaderboard.rowLabelTier': 'Rang {rank}, {username}, cote {rating}, {tier}',
+  'leaderboard.rowHint': 'Ouvre le profil du joueur',
+  'leaderboard.watch': 'Suivre',
+  'leaderboard.unwatch': 'Ne plus suivre',
+  'leaderboard.newEntry': 'NOUVEAU',
+  'leaderboard.newEntryLabel': 'Nouvelle entrée',
+  'leaderboard.movedUp': { one: 'Monte de {count} place', other: 'Monte de {count} places' },
+  'leaderboard.movedDown': { one: 'Descend de {count} place', other: 'Descend de {count} places' },
+  'leaderboard.ratingUp': 'Cote en hausse de {delta}',
+  'leaderboard.ratingDown': 'Cote en baisse de {delta}',
+  'leaderboard.movementSummary': '{rank}, {rating}',
+
+  // Refresh status (list headers)
+  'refresh.updatedJustNow': "Mis à jour à l'instant",
+  'refresh.updatedSeconds': {
+    one: 'Mis à jour il y a {count} seconde',
+    other: 'Mis à jour il y a {count} secondes',
+  },
+  'refresh.updatedMinutes': {
+    one: 'Mis à jour il y a {count} minute',
+    other: 'Mis à jour il y a {count} minutes',
+  },
+  'refresh.autoOff': 'Actualisation auto : non',
+  'refresh.autoInterval': 'Actualisation auto : {seconds} s',
+  'refresh.autoHint': "Change la fréquence d'actualisation automatique de la liste",
+
+  // Leaderboard screen: jump and filter bars
+  'leaderboard.jumpPlaceholder': 'Aller au rang #N ou à un pseudo',
+  'leaderboard.jumpGo': 'OK',
+  'leaderboard.backToTop': 'Haut',
+  'leaderboard.playerNotInRange': 'Aucun joueur « {username} » dans cette tranche de cote',
+  'leaderboard.rankNotFound': 'Impossible de charger le rang #{rank}',
+  'leaderboard.pageNotFound': 'Le classement n’a pas de page {page} ; affichage du haut',
+  'filter.band': 'Cotes {min}–{max}',
+  'filter.all': 'Toutes les cotes',
+  'filter.clear': 'Effacer',
+  'filter.done': 'OK',
+  'filter.open': 'Filtrer',
+
+  // Search
+  'search.placeholder': 'Rechercher un pseudo…',
+  'search.inputLabel': 'Rechercher des joueurs par pseudo',
+  'search.searching': 'Recherche en cours',
+  'search.modePrefix': 'Commence par',
+  'search.modeSubstring': 'Contient',
+  'search.modeFuzzy': 'Approchée',
+  'search.noResults': 'Aucun résultat',
+  'search.resultCount': { one: '{count} résultat', other: '{count} résultats' },
+
+  // Export (ExportButton and the screens that offer it)
+  'export.open': 'Exporter',
+  'export.csvHint': 'Tableurs et rapports',
+  'export.jsonHint': 'Scripts et autres outils',
+  'export.boardTitle': 'Exporter {board}',
+  'export.leaderboardTitle': 'Exporter le classement',
+  'export.leaderboardBand': 'Tous les joueurs cotés {min}–{max}, avec les rangs en direct',
+  'export.leaderboardAll': 'Tous les joueurs du classement, avec les rangs en direct',
+  'export.searchTitle': 'Exporter les résultats de recherche',
+  'export.searchDescription': {
+    one: 'La {count} correspondance pour « {query} », avec le rang affiché',
+    other: 'Les {count} correspondances pour « {query} », avec les rangs affichés',
+  },
+
+  // Leaderboards (BoardSwitcher)
+  'board.title': 'Classement',
+  'board.playerCount': { one: '{count} joueur', other: '{count} joueurs' },
+
+  // Watchlist
+  'watchlist.empty':
+    "Ajoutez des joueurs avec l'étoile dans le classement ou la recherche pour les suivre ici.",
+  'watchlist.notFound': 'Introuvables',
+  'watchlist.remove': 'Retirer',
+  'watchlist.full':
+    'La liste est pleine ({max} joueurs). Ne suivez plus quelqu’un pour en ajouter.',
+
+  // Stats
+  'stats.empty': 'Aucune donnée disponible',
+  'stats.players': 'Joueurs',
+  'stats.mean': 'Cote moyenne',
+  'stats.median': 'Cote médiane',
+  'stats.distribution': 'Répartition des cotes',
+  'stats.bucketWidth': '{width} pts',
+  'stats.findPlayer': 'Où se situe un joueur ?',
+  'stats.usernamePlaceholder': 'Pseudo',
+  'stats.find': 'Chercher',
+  'stats.playerNotFound': 'Aucun joueur « {username} »',
+  'stats.playerSummary': '{username} : {rating} · rang #{rank} · {percentile}e centile',
+  'stats.cutoffs': 'Seuils par centile',
+  'stats.apply': 'Appliquer',
+  'stats.percentile': '{percentile}e centile',
+
+  // Player history (RatingHistoryChart)
+  'history.rating': 'Cote',
+  'history.rank': 'Rang',
+  'history.empty':
+    "Pas encore assez d'historique. Un point est enregistré à chaque changement de cote et une fois par minute.",
+
+  // Player profile
+  'profile.notFound': 'Joueur introuvable',
+  'profile.pointsToTier': {
+    one: '{count} point avant {tier}',
+    other: '{count} points avant {tier}',
+  },
+  'profile.topTier': 'Niveau maximal',
+  'profile.globalRank': 'Rang global',
+  'profile.rating': 'Cote',
+  'profile.percentile': 'Centile',
+  'profile.players': 'Joueurs',
+  'profile.showOnLeaderboard': 'Voir dans le classement',
+  'profile.history': 'Historique',
+  'profile.lastHour': 'Dernière heure : {summary}',
+  'profile.lastHourSummary': '{rating}, {rank}',
+  'profile.ratingUp': '+{count} de cote',
+  'profile.ratingDown': '-{count} de cote',
+  'profile.rankUnchanged': 'rang inchangé',
+  'profile.rankUp': { one: 'gagne {count} place', other: 'gagne {count} places' },
+  'profile.rankDown': { one: 'perd {count} place', other: 'perd {count} places' },
+  'profile.nearby': 'Joueurs proches',
+
+  // Comparison (CompareBar, CompareScreen)
+  'compare.add': 'Ajouter à la comparaison',
+  'compare.remove': 'Retirer de la comparaison',
+  'compare.removePlayer': 'Retirer {username} de la comparaison',
+  'compare.pickHint': 'Choisissez un joueur de plus à comparer',
+  'compare.clear': 'Effacer',
+  'compare.open': 'Comparer',
+  'compare.tooFew': 'Choisissez au moins deux joueurs à comparer.',
+  'compare.gaps': 'Face à face',
+  'compare.gap': {
+    one: '{higher} devance {lower} de {count} point',
+    other: '{higher} devance {lower} de {count} points',
+  },
+  'compare.between': {
+    one: '{count} joueur entre eux',
+    other: '{count} joueurs entre eux',
+  },
+  'compare.history': 'Cote sur la dernière heure',
+  'compare.historyEmpty': "Pas encore assez d'historique pour le graphique.",
+
+  // Admin
+  'admin.signInTitle': 'Connexion administrateur',
+  'admin.signInHelp':
+    "Saisissez l'ADMIN_TOKEN avec lequel le backend a été lancé pour modifier les cotes.",
+  'admin.signInHelpDemo':
+    "Données de démo : n'importe quel jeton déverrouille les outils d'administration.",
+  'admin.tokenPlaceholder': "Jeton d'administration",
+  'admin.unlock': 'Déverrouiller',
+  'admin.tokenRejected': "Ce jeton n'a pas été accepté.",
+  'admin.disabled':
+    "Le serveur n'a pas d'ADMIN_TOKEN, l'accès administrateur est donc désactivé.",
+  'admin.editingBoard': 'Modification du classement {board}',
+  'admin.editingDefault': 'Modification du classement par défaut',
+  'admin.lock': 'Verrouiller',
+  'admin.editPlayer': 'Modifier un joueur',
+  'admin.matchResults': 'Résultats de parties',
+  'admin.matchResultsHelp':
+    'Cotez les parties jouées avec Elo au lieu de fixer les cotes à la main.',
+  'admin.recordMatch': 'Enregistrer une partie',
+  'admin.bulkImport': 'Import en masse',
+
+  // Admin: edit a player (AdminUserForm)
+  'adminUser.usernamePlaceholder': 'Pseudo',
+  'adminUser.lookUp': 'Consulter',
+  'adminUser.ratingPlaceholder': 'Cote ({min}–{max})',
+  'adminUser.save': 'Enregistrer',
+  'adminUser.delete': 'Supprimer',
+  'adminUser.confirm': 'Confirmer',
+  'adminUser.ratingInvalid': 'La cote doit être un nombre entier de {min} à {max}',
+  'adminUser.found': '{username} : {rating}, rang #{rank}',
+  'adminUser.notFound':
+    "Aucun joueur « {username} » pour l'instant ; l'enregistrement le créera",
+  'adminUser.saved': '{username} enregistré à {rating}, désormais au rang #{rank}',
+  'adminUser.deleted': '{username} supprimé',
+
+  // Admin: bulk import (UserImportPanel)
+  'import.help':
+    'CSV avec les colonnes username,rating (en-tête facultatif) ou tableau JSON d’objets ' +
+    '{ "username", "rating" }. Les joueurs existants sont mis à jour, les nouveaux sont créés.',
+  'import.choose': 'Choisir un fichier',
+  'import.chooseAnother': 'Choisir un autre fichier',
+  'import.run': { one: 'Importer {count} joueur', other: 'Importer {count} joueurs' },
+  'import.done': {
+    one: '{count} joueur importé depuis {file}',
+    other: '{count} joueurs importés depuis {file}',
+  },
+  'import.rejected': 'Refusées par le serveur ({count})',
+  'import.summary': {
+    one: '{file} : {count} ligne · {valid} valides · {invalid} en erreur',
+    other: '{file} : {count} lignes · {valid} valides · {invalid} en erreur',
+  },
+  'import.skipped': 'Lignes qui seront ignorées',
+  'import.preview': 'Aperçu',
+  'import.row': 'Ligne {row}',
+  'import.more': '…et {count} de plus',
+  'import.error.usernameRequired': "Le nom d'utilisateur est obligatoire",
+  'import.error.usernameSpaces': "Le nom d'utilisateur commence ou finit par des espaces",
+  'import.error.usernameTooLong': "Le nom d'utilisateur dépasse {max} caractères",
+  'import.error.ratingNotInteger': 'La cote doit être un nombre entier',
+  'import.error.ratingOutOfRange': 'La cote doit être comprise entre {min} et {max}',
+  'import.error.duplicate': 'Doublon de la ligne {row}',
+  'import.error.notObject': "Ce n'est pas un objet",
+  'import.error.columnCount': {
+    one: '2 colonnes attendues, {count} trouvée',
+    other: '2 colonnes attendues, {count} trouvées',
+  },
+  'import.fileError.noRows': "Le fichier n'a aucune ligne",
+  'import.fileError.tooManyRows': 'Le fichier a {count} lignes ; la limite est {max}',
+  'import.fileError.invalidJson': "Le fichier n'est pas du JSON valide",
+  'import.fileError.notArray': 'Tableau JSON d’objets { "username", "rating" } attendu',
+
+  // Admin: record match (RecordMatchScreen, MatchGameRow)
+  'match.locked':
+    "Déverrouillez l'onglet Admin avec le jeton d'administration pour enregistrer des parties.",
+  'match.kFactor': 'Facteur K',
+  'match.kFactorHelp':
+    "Le maximum qu'un joueur peut gagner ou perdre par partie (1–{max}). Plus il est élevé, plus les cotes bougent vite.",
+  'match.games': 'Parties',
+  'match.gamesOnBoard': 'Parties sur {board}',
+  'match.game': 'Partie {number}',
+  'match.remove': 'Retirer',
+  'match.player': 'Joueur',
+  'match.opponent': 'Adversaire',
+  'match.versus': 'contre',
+  'match.won': 'Gagnée',
+  'match.draw': 'Nulle',
+  'match.lost': 'Perdue',
+  'match.addGame': '+ Ajouter une partie',
+  'match.recorded': 'Enregistré',
+  'match.changes': 'Évolution des cotes',
+  'match.incomplete': 'Renseignez les deux joueurs de chaque partie pour voir les évolutions.',
+  'match.submit': {
+    one: 'Enregistrer {count} partie',
+    other: 'Enregistrer {count} parties',
+  },
+
+  // Developer settings
+  'dev.open': 'Réglages développeur',
+  'dev.backend': 'Backend',
+  'dev.current': 'Les requêtes vont vers {url}',
+  'dev.currentDemo': "Données de démo de l'app, sans serveur",
+  'dev.sourceDefault': 'Valeur par défaut',
+  'dev.sourceApp': 'Depuis app.json',
+  'dev.sourceServed': 'Depuis config.json',
+  'dev.sourceOverride': 'Choisi sur cet appareil',
+  'dev.demo': 'Données de démo',
+  'dev.demoHelp': 'Joueurs et trafic en direct simulés, sans backend',
+  'dev.customPlaceholder': 'Autre backend : https://…',
+  'dev.use': 'Utiliser',
+  'dev.invalidUrl': 'Saisissez une URL complète http:// ou https://',
+  'dev.reset': 'Revenir au backend configuré ({url})',
+  'dev.resetDemo': 'Revenir au backend configuré (données de démo)',
+  'dev.switchHelp':
+    'Changer de serveur recharge tous les écrans et déconnecte l’Admin. ' +
+    'Le choix est enregistré sur cet appareil uniquement.',
+  'dev.features': 'Fonctionnalités',
+  'dev.on': 'Activé',
+  'dev.off': 'Désactivé',
+  'dev.requestTimeout': 'Délai des requêtes',
+  'dev.seconds': '{seconds} s',
+};
+
+const fr: LocaleDefinition = {
+  code: 'fr',
+  name: 'Français',
+  direction: 'ltr',
+  intlLocale: 'fr',
+  // French treats 0 as singular too ("0 joueur")
+  plural: (count) => (count >= 0 && count < 2 ? 'one' : 'other'),
+  // 1er, 2e, 3e, ...
+  ordinal: (rank, formatted) => (rank === 1 ? `${formatted}er` : `${formatted}e`),
+  messages,
+};
+
+export default fr;
@@ -0,0 +1,34 @@
+import { messages } from './locales/en';
+
+// English is the source catalog: its keys are the keys every locale must define
+export type MessageKey = keyof typeof messages;
+
+// CLDR plural categories. Most languages use only 'one' and 'other'.
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+// A plain string, or one form per plural category (picked by the `count`
+// parameter). Either may contain {name} placeholders.
+export type Message =
+  | string
+  | ({ other: string } & Partial<Record<Exclude<PluralCategory, 'other'>, string>>);
+
+// Numbers are formatted for the locale; an undefined value leaves its
+// placeholder as is
+export type MessageParams = Record<string, string | number | undefined>;
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleDefinition {
+  // Language code the catalog is chosen by, e.g. 'es'
+  code: string;
+  // The language's name in itself, for the picker
+  name: string;
+  direction: TextDirection;
+  // BCP 47 tag for Intl number and time formatting
+  intlLocale: string;
+  plural: (count: number) => PluralCategory;
+  // Rank as an ordinal ("1st", "1.º"); `formatted` is the rank with the
+  // locale's digits and separators already applied
+  ordinal: (rank: number, formatted: string) => string;
+  messages: Record<MessageKey, Message>;
+}
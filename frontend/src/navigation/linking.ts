@@ -0,0 +1,89 @@
+import { LinkingOptions } from '@react-navigation/native';
+import * as Linking from 'expo-linking';
+import { SearchMode } from '../types';
+import { MAX_COMPARE_PLAYERS } from '../context/CompareContext';
+import { RootStackParamList } from './types';
+
+const SEARCH_MODES: SearchMode[] = ['prefix', 'substring', 'fuzzy'];
+
+// Query params arrive as strings. Anything malformed is dropped rather than
+// passed on, so a mangled link opens the plain screen instead of failing.
+function parsePositiveInt(value: string): number | undefined {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : undefined;
+}
+
+function parseSearchMode(value: string): SearchMode | undefined {
+  return SEARCH_MODES.find((mode) => mode === value);
+}
+
+// Compared players are one comma-separated param, each name escaped so a comma
+// in a username survives
+function parsePlayers(value: string): string[] {
+  const players: string[] = [];
+  for (const part of value.split(',')) {
+    try {
+      const name = decodeURIComponent(part);
+      if (name && !players.includes(name)) players.push(name);
+    } catch {
+      // A broken escape; skip that name
+    }
+  }
+  return players.slice(0, MAX_COMPARE_PLAYERS);
+}
+
+function stringifyPlayers(players: string[]): string {
+  return players.map(encodeURIComponent).join(',');
+}
+
+/**
+ * URL routes for every screen, shared by the web build and native deep links
+ * (matiks://player/alice opens the same screen as /player/alice):
+ *
+ *   /leaderboard                  top of the board
+ *   /leaderboard?rank=1200        centered on a rank
+ *   /leaderboard?around=alice     centered on a player
+ *   /leaderboard?page=3           ranks 201-300
+ *   /search?q=ali&mode=fuzzy      a search (mode defaults to prefix)
+ *   /player/alice                 a player's profile
+ *   /compare?players=alice,bob    a head-to-head comparison (2 to 4 players)
+ *   /watchlist, /stats, /admin    the other tabs
+ *   /admin/record-match           the match entry form
+ *   /settings/developer           developer settings, when enabled
+ *
+ * On web the address bar follows navigation, so a refresh lands where the user
+ * was and any URL can be pasted to someone else. A player link opens above the
+ * tab bar with the leaderboard underneath, so back still has somewhere to go.
+ */
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [Linking.createURL('/')],
+  config: {
+    initialRouteName: 'Main',
+    screens: {
+      Main: {
+        path: '',
+        screens: {
+          Leaderboard: {
+            path: 'leaderboard',
+            parse: { rank: parsePositiveInt, page: parsePositiveInt },
+          },
+          Search: {
+            path: 'search',
+            parse: { mode: parseSearchMode },
+          },
+          Watchlist: 'watchlist',
+          Stats: 'stats',
+          Admin: 'admin',
+        },
+      },
+      PlayerProfile: 'player/:username',
+      Compare: {
+        path: 'compare',
+        parse: { players: parsePlayers },
+        stringify: { players: stringifyPlayers },
+      },
+      RecordMatch: 'admin/record-match',
+      DeveloperSettings: 'settings/developer',
+    },
+  },
+};
@@ -0,0 +1,24 @@
+import { NavigatorScreenParams } from '@react-navigation/native';
+import { SearchMode } from '../types';
+
+export type RootTabParamList = {
+  // Optional anchor: open the board around a rank or a player, or at a page
+  // (1-based, 100 rows each), instead of the top
+  Leaderboard: { rank?: number; around?: string; page?: number } | undefined;
+  // The search to show; the screen keeps these in step with the field
+  Search: { q?: string; mode?: SearchMode } | undefined;
+  Watchlist: undefined;
+  Stats: undefined;
+  Admin: undefined;
+};
+
+// The tabs live inside a stack so detail screens (like a player profile) can be
+// pushed on top of either tab without each tab owning its own copy of the route.
+export type RootStackParamList = {
+  Main: NavigatorScreenParams<RootTabParamList>;
+  PlayerProfile: { username: string };
+  // Two to four players, in the order they were picked
+  Compare: { players: string[] };
+  RecordMatch: undefined;
+  DeveloperSettings: undefined;
+};
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import AdminUserForm from '../components/AdminUserForm';
+import UserImportPanel from '../components/UserImportPanel';
+import ErrorState from '../components/ErrorState';
+import apiService from '../services/api';
+import { isClientError } from '../services/errors';
+import { useBoard } from '../context/BoardContext';
+import { useConfig } from '../context/ConfigContext';
+import { RootStackParamList } from '../navigation/types';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography, Layout } from '../theme';
+
+/**
+ * Admin Screen
+ *
+ * Write access to the current board: fix one player's rating, record match
+ * results (see RecordMatchScreen) or bulk-import many players. Locked until
+ * the user enters the backend's ADMIN_TOKEN, which is checked against the
+ * server before any controls appear; the server checks it again on every
+ * write, so the lock is a convenience, not the security.
+ *
+ * The token lives in ApiService memory only, so a reload locks the tab again.
+ * With demo data any token unlocks it.
+ */
+const AdminScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const { board } = useBoard();
+  const { config } = useConfig();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const [isUnlocked, setIsUnlocked] = useState(apiService.isAdmin);
+  const [token, setToken] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [signInError, setSignInError] = useState<unknown>(null);
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    card: {
+      backgroundColor: colors.cardBackground,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      marginHorizontal: Spacing.md,
+      marginTop: Spacing.md,
+      padding: Spacing.lg,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginHorizontal: Spacing.md,
+      marginTop: Spacing.md,
+    },
+    boardLabel: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+    },
+    link: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.accentColor,
+    },
+    sectionTitle: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textSecondary,
+      marginBottom: Spacing.sm,
+    },
+    help: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+      marginBottom: Spacing.md,
+    },
+    inputRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: Spacing.md,
+    },
+    input: {
+      flex: 1,
+      height: Layout.searchInputHeight - Spacing.sm,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      paddingHorizontal: Spacing.sm,
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    button: {
+      marginStart: Spacing.sm,
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.sm,
+      borderRadius: 8,
+      backgroundColor: colors.accentColor,
+    },
+    buttonStandalone: {
+      alignSelf: 'flex-start',
+      marginStart: 0,
+    },
+    buttonText: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.cardBackground,
+    },
+    signInError: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.negative,
+    },
+    footer: {
+      height: Spacing.xl,
+    },
+  });
+
+  const signIn = async () => {
+    if (!token.trim()) return;
+
+    setIsSigningIn(true);
+    setSignInError(null);
+    try {
+      await apiService.signInAdmin(token.trim());
+      setToken('');
+      setIsUnlocked(true);
+    } catch (error) {
+      setSignInError(error);
+    }
+    setIsSigningIn(false);
+  };
+
+  const signOut = () => {
+    apiService.signOutAdmin();
+    setIsUnlocked(false);
+  };
+
+  if (!isUnlocked) {
+    return (
+      <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>{t('admin.signInTitle')}</Text>
+          <Text style={styles.help}>
+            {t(config.demo ? 'admin.signInHelpDemo' : 'admin.signInHelp')}
+          </Text>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={styles.input}
+              placeholder={t('admin.tokenPlaceholder')}
+              placeholderTextColor={colors.textSecondary}
+              value={token}
+              onChangeText={setToken}
+              onSubmitEditing={signIn}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Pressable style={styles.button} onPress={signIn} disabled={isSigningIn}>
+              {isSigningIn ? (
+                <ActivityIndicator size="small" color={colors.cardBackground} />
+              ) : (
+                <Text style={styles.buttonText}>{t('admin.unlock')}</Text>
+              )}
+            </Pressable>
+          </View>
+          {isClientError(signInError, 401) && (
+            <Text style={styles.signInError}>{t('admin.tokenRejected')}</Text>
+          )}
+          {isClientError(signInError, 403) && (
+            <Text style={styles.signInError}>{t('admin.disabled')}</Text>
+          )}
+        </View>
+        {signInError !== null &&
+          !isClientError(signInError, 401) &&
+          !isClientError(signInError, 403) && (
+            <ErrorState error={signInError} onRetry={signIn} compact />
+          )}
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <View style={styles.header}>
+        <Text style={styles.boardLabel}>
+          {board
+            ? t('admin.editingBoard', { board: board.name })
+            : t('admin.editingDefault')}
+        </Text>
+        <Pressable onPress={signOut} hitSlop={8}>
+          <Text style={styles.link}>{t('admin.lock')}</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('admin.editPlayer')}</Text>
+        <AdminUserForm />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('admin.matchResults')}</Text>
+        <Text style={styles.help}>
+          {t('admin.matchResultsHelp')}
+        </Text>
+        <Pressable
+          style={[styles.button, styles.buttonStandalone]}
+          onPress={() => navigation.navigate('RecordMatch')}
+        >
+          <Text style={styles.buttonText}>{t('admin.recordMatch')}</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('admin.bulkImport')}</Text>
+        <UserImportPanel />
+      </View>
+
+      <View style={styles.footer} />
+    </ScrollView>
+  );
+};
+
+export default AdminScreen;
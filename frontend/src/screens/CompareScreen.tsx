@@ -0,0 +1,309 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  Pressable,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import ComparisonChart from '../components/ComparisonChart';
+import ErrorState from '../components/ErrorState';
+import RefreshStatus from '../components/RefreshStatus';
+import TierBadge from '../components/TierBadge';
+import { useTiers } from '../context/TierContext';
+import { MIN_COMPARE_PLAYERS } from '../context/CompareContext';
+import { useAutoRefresh } from '../hooks/useAutoRefresh';
+import { Comparison } from '../types';
+import apiService from '../services/api';
+import { RootStackParamList } from '../navigation/types';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography } from '../theme';
+
+// How much history the overlaid chart covers
+const HISTORY_WINDOW_MS = 60 * 60 * 1000;
+
+type CompareScreenProps = NativeStackScreenProps<RootStackParamList, 'Compare'>;
+
+/**
+ * Compare Screen
+ *
+ * Two to four players side by side: each one's rating, global rank and tier,
+ * then for every pair the rating gap and how many players sit between them,
+ * and their recent rating lines on one chart. Players keep the comparison
+ * color they were picked in, so a card, a gap line and a chart line for the
+ * same player always match.
+ *
+ * Everything comes from one /compare read, so the ranks, gaps and counts all
+ * describe the same moment. For that reason the screen doesn't patch itself
+ * from the live stream the way the lists do; it re-reads instead (pull down,
+ * focus, foreground and auto-refresh). A failed refresh keeps the last read.
+ */
+const CompareScreen: React.FC<CompareScreenProps> = ({ route, navigation }) => {
+  const { colors } = useTheme();
+  const { t, formatNumber, formatRank } = useLocale();
+  const { tierFor } = useTiers();
+  const players = route.params?.players ?? [];
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+  const inFlight = useRef(false);
+  // Params are a fresh array on every navigation; compare by content
+  const playersKey = players.join(',');
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: Spacing.md,
+    },
+    centerContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: Spacing.lg,
+      backgroundColor: colors.background,
+    },
+    emptyText: {
+      fontSize: Typography.fontSize.base,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+    card: {
+      backgroundColor: colors.cardBackground,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      padding: Spacing.md,
+      marginBottom: Spacing.sm,
+    },
+    playerHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: Spacing.sm,
+    },
+    dot: {
+      width: 12,
+      height: 12,
+      borderRadius: 6,
+      marginEnd: Spacing.sm,
+    },
+    username: {
+      flexShrink: 1,
+      fontSize: Typography.fontSize.lg,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textPrimary,
+      marginEnd: Spacing.sm,
+    },
+    statsRow: {
+      flexDirection: 'row',
+    },
+    stat: {
+      flex: 1,
+    },
+    statValue: {
+      fontSize: Typography.fontSize.lg,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.accentColor,
+    },
+    statLabel: {
+      fontSize: Typography.fontSize.xs,
+      color: colors.textSecondary,
+      marginTop: Spacing.xs,
+    },
+    sectionTitle: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textSecondary,
+      marginTop: Spacing.md,
+      marginBottom: Spacing.xs,
+    },
+    gapRow: {
+      paddingVertical: Spacing.xs,
+    },
+    gapNames: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    gapDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      marginEnd: Spacing.xs,
+    },
+    gapText: {
+      flexShrink: 1,
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    gapDetail: {
+      fontSize: Typography.fontSize.xs,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+  });
+
+  const load = useCallback(
+    async (quiet: boolean) => {
+      if (inFlight.current) return;
+      inFlight.current = true;
+      try {
+        const result = await apiService.compareUsers(
+          playersKey.split(','),
+          Date.now() - HISTORY_WINDOW_MS
+        );
+        setComparison(result);
+        setUpdatedAt(Date.now());
+        setError(null);
+      } catch (loadError) {
+        if (quiet) {
+          console.error('Failed to refresh comparison:', loadError);
+        } else {
+          setComparison(null);
+          setError(loadError);
+        }
+      } finally {
+        inFlight.current = false;
+      }
+    },
+    [playersKey]
+  );
+
+  const hasEnoughPlayers = players.length >= MIN_COMPARE_PLAYERS;
+
+  useEffect(() => {
+    if (!hasEnoughPlayers) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    load(false).finally(() => setIsLoading(false));
+  }, [hasEnoughPlayers, load]);
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await load(true);
+    setIsRefreshing(false);
+  }, [load]);
+
+  useAutoRefresh(() => {
+    if (hasEnoughPlayers && comparison) {
+      load(true);
+    }
+  });
+
+  if (!hasEnoughPlayers) {
+    return (
+      <View style={styles.centerContainer}>
+        <Text style={styles.emptyText}>{t('compare.tooFew')}</Text>
+      </View>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color={colors.accentColor} />
+      </View>
+    );
+  }
+
+  // A 404 names the missing players and a 400 the bad request; either way the
+  // server's message says which, and a retry is harmless
+  if (!comparison) {
+    return (
+      <ErrorState
+        error={error}
+        onRetry={() => {
+          setIsLoading(true);
+          load(false).finally(() => setIsLoading(false));
+        }}
+      />
+    );
+  }
+
+  const colorOf = (username: string) =>
+    colors.comparison[comparison.players.findIndex((player) => player.username === username)];
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+    >
+      <RefreshStatus updatedAt={updatedAt} />
+
+      {comparison.players.map((player) => {
+        const tier = tierFor(player.rating);
+        return (
+          <Pressable
+            key={player.username}
+            style={styles.card}
+            onPress={() => navigation.push('PlayerProfile', { username: player.username })}
+            accessibilityRole="button"
+          >
+            <View style={styles.playerHeader}>
+              <View style={[styles.dot, { backgroundColor: colorOf(player.username) }]} />
+              <Text style={styles.username} numberOfLines={1}>
+                {player.username}
+              </Text>
+              {tier && <TierBadge tier={tier} />}
+            </View>
+            <View style={styles.statsRow}>
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>{formatRank(player.global_rank)}</Text>
+                <Text style={styles.statLabel}>{t('profile.globalRank')}</Text>
+              </View>
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>{formatNumber(player.rating)}</Text>
+                <Text style={styles.statLabel}>{t('profile.rating')}</Text>
+              </View>
+            </View>
+          </Pressable>
+        );
+      })}
+
+      <Text style={styles.sectionTitle}>{t('compare.gaps')}</Text>
+      <View style={styles.card}>
+        {comparison.gaps.map((gap) => (
+          <View key={`${gap.higher}:${gap.lower}`} style={styles.gapRow}>
+            <View style={styles.gapNames}>
+              <View style={[styles.gapDot, { backgroundColor: colorOf(gap.higher) }]} />
+              <View style={[styles.gapDot, { backgroundColor: colorOf(gap.lower) }]} />
+              <Text style={styles.gapText}>
+                {t('compare.gap', {
+                  higher: gap.higher,
+                  lower: gap.lower,
+                  count: gap.rating_gap,
+                })}
+              </Text>
+            </View>
+            <Text style={styles.gapDetail}>
+              {t('compare.between', { count: gap.players_between })}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      <Text style={styles.sectionTitle}>{t('compare.history')}</Text>
+      <View style={styles.card}>
+        <ComparisonChart
+          series={comparison.players.map((player) => ({
+            username: player.username,
+            color: colorOf(player.username),
+            points: comparison.history?.[player.username] ?? [],
+          }))}
+        />
+      </View>
+    </ScrollView>
+  );
+};
+
+export default CompareScreen;
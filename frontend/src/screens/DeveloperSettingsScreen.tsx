@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  Switch,
+  StyleSheet,
+} from 'react-native';
+import { useConfig } from '../context/ConfigContext';
+import { ConfigSource, FeatureFlags, isApiUrl } from '../services/config';
+import { MessageKey } from '../i18n';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography, Layout } from '../theme';
+
+const SOURCE_LABELS: Record<ConfigSource, MessageKey> = {
+  default: 'dev.sourceDefault',
+  app: 'dev.sourceApp',
+  served: 'dev.sourceServed',
+  override: 'dev.sourceOverride',
+};
+
+/**
+ * Developer Settings
+ *
+ * Points this device at another backend (local, staging, production, or any
+ * URL) without a rebuild, for QA and debugging, or switches to demo data from
+ * the in-app demo engine, which needs no server at all. The environments
+ * listed come from the runtime config, so a deploy can offer its own staging
+ * server in config.json. The choice is saved on the device and wins over
+ * every config source until reset.
+ *
+ * Also shows the feature flags and timeout in effect, read-only: those come
+ * from the config files.
+ */
+const DeveloperSettingsScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const { t, formatNumber } = useLocale();
+  const { config, source, configured, override, setBackend } = useConfig();
+  const [customUrl, setCustomUrl] = useState('');
+  const [urlError, setUrlError] = useState(false);
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    card: {
+      backgroundColor: colors.cardBackground,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      marginHorizontal: Spacing.md,
+      marginTop: Spacing.md,
+      padding: Spacing.lg,
+    },
+    sectionTitle: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textSecondary,
+      marginBottom: Spacing.sm,
+    },
+    current: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    help: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+      marginTop: Spacing.xs,
+      marginBottom: Spacing.md,
+    },
+    option: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: Spacing.sm,
+      borderTopWidth: 1,
+      borderTopColor: colors.borderLight,
+    },
+    optionText: {
+      flex: 1,
+    },
+    optionName: {
+      fontSize: Typography.fontSize.base,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.textPrimary,
+    },
+    optionUrl: {
+      fontSize: Typography.fontSize.xs,
+      color: colors.textSecondary,
+    },
+    check: {
+      fontSize: Typography.fontSize.base,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.accentColor,
+      marginStart: Spacing.sm,
+    },
+    inputRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: Spacing.md,
+    },
+    input: {
+      flex: 1,
+      height: Layout.searchInputHeight - Spacing.sm,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      paddingHorizontal: Spacing.sm,
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    button: {
+      marginStart: Spacing.sm,
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.sm,
+      borderRadius: 8,
+      backgroundColor: colors.accentColor,
+    },
+    buttonText: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.cardBackground,
+    },
+    error: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.negative,
+      marginTop: Spacing.sm,
+    },
+    link: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.accentColor,
+      marginTop: Spacing.md,
+    },
+    note: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+      marginTop: Spacing.md,
+    },
+    flagRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: Spacing.xs,
+    },
+    flagName: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    flagValue: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.textSecondary,
+    },
+    footer: {
+      height: Spacing.xl,
+    },
+  });
+
+  // Picking a server also leaves demo mode
+  const pickServer = (url: string) => setBackend({ ...override, apiBaseUrl: url, demo: false });
+
+  const applyCustomUrl = () => {
+    const url = customUrl.trim();
+    if (!isApiUrl(url)) {
+      setUrlError(true);
+      return;
+    }
+    setUrlError(false);
+    setCustomUrl('');
+    pickServer(url);
+  };
+
+  const flags = Object.keys(config.features) as (keyof FeatureFlags)[];
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('dev.backend')}</Text>
+        <Text style={styles.current}>
+          {config.demo ? t('dev.currentDemo') : t('dev.current', { url: config.apiBaseUrl })}
+        </Text>
+        <Text style={styles.help}>{t(SOURCE_LABELS[source])}</Text>
+
+        <View style={styles.option}>
+          <View style={styles.optionText}>
+            <Text style={styles.optionName}>{t('dev.demo')}</Text>
+            <Text style={styles.optionUrl}>{t('dev.demoHelp')}</Text>
+          </View>
+          <Switch
+            value={config.demo}
+            onValueChange={(demo) => setBackend({ ...override, demo })}
+            trackColor={{ true: colors.accentColor }}
+            accessibilityLabel={t('dev.demo')}
+          />
+        </View>
+
+        {config.environments.map((environment) => {
+          const isActive = !config.demo && environment.apiBaseUrl === config.apiBaseUrl;
+          return (
+            <Pressable
+              key={environment.apiBaseUrl}
+              style={styles.option}
+              onPress={() => !isActive && pickServer(environment.apiBaseUrl)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isActive }}
+            >
+              <View style={styles.optionText}>
+                <Text style={styles.optionName}>{environment.name}</Text>
+                <Text style={styles.optionUrl}>{environment.apiBaseUrl}</Text>
+              </View>
+              {isActive && <Text style={styles.check}>✓</Text>}
+            </Pressable>
+          );
+        })}
+
+        <View style={styles.inputRow}>
+          <TextInput
+            style={styles.input}
+            placeholder={t('dev.customPlaceholder')}
+            placeholderTextColor={colors.textSecondary}
+            value={customUrl}
+            onChangeText={(text) => {
+              setCustomUrl(text);
+              setUrlError(false);
+            }}
+            onSubmitEditing={applyCustomUrl}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <Pressable style={styles.button} onPress={applyCustomUrl}>
+            <Text style={styles.buttonText}>{t('dev.use')}</Text>
+          </Pressable>
+        </View>
+        {urlError && <Text style={styles.error}>{t('dev.invalidUrl')}</Text>}
+
+        {source === 'override' && (
+          <Pressable onPress={() => setBackend(null)} hitSlop={8}>
+            <Text style={styles.link}>
+              {configured.demo
+                ? t('dev.resetDemo')
+                : t('dev.reset', { url: configured.apiBaseUrl })}
+            </Text>
+          </Pressable>
+        )}
+        <Text style={styles.note}>{t('dev.switchHelp')}</Text>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('dev.features')}</Text>
+        {flags.map((flag) => (
+          <View key={flag} style={styles.flagRow}>
+            <Text style={styles.flagName}>{flag}</Text>
+            <Text style={styles.flagValue}>
+              {t(config.features[flag] ? 'dev.on' : 'dev.off')}
+            </Text>
+          </View>
+        ))}
+        <View style={styles.flagRow}>
+          <Text style={styles.flagName}>{t('dev.requestTimeout')}</Text>
+          <Text style={styles.flagValue}>
+            {t('dev.seconds', {
+              seconds: formatNumber(config.timeouts.requestMs / 1000, { maximumFractionDigits: 1 }),
+            })}
+          </Text>
+        </View>
+      </View>
+      <View style={styles.footer} />
+    </ScrollView>
+  );
+};
+
+export default DeveloperSettingsScreen;
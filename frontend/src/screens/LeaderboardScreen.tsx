@@ -1,12 +1,55 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
+  Text,
   StyleSheet,
 } from 'react-native';
-import LeaderboardList from '../components/LeaderboardList';
-import { LeaderboardEntry } from '../types';
-import apiService from '../services/api';
-import { Colors } from '../theme';
+import {
+  CompositeNavigationProp,
+  RouteProp,
+  useNavigation,
+  useRoute,
+} from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import LeaderboardList, { LeaderboardListHandle } from '../components/LeaderboardList';
+import LeaderboardJumpBar from '../components/LeaderboardJumpBar';
+import LeaderboardFilterBar from '../components/LeaderboardFilterBar';
+import ErrorState from '../components/ErrorState';
+import ExportButton from '../components/ExportButton';
+import CompareBar from '../components/CompareBar';
+import { LeaderboardEntry, LeaderboardWindowRequest, RatingFilter } from '../types';
+import apiService, { isSnapshotExpired } from '../services/api';
+import { isClientError } from '../services/errors';
+import { exportLeaderboard } from '../services/exporter';
+import { useBoard } from '../context/BoardContext';
+import { useRankMovements } from '../hooks/useRankMovements';
+import { useAutoRefresh } from '../hooks/useAutoRefresh';
+import { RootStackParamList, RootTabParamList } from '../navigation/types';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography, RatingScale } from '../theme';
+
+const PAGE_SIZE = 100;
+const WINDOW_RADIUS = 50;
+// The backend's largest page; a refresh re-fetches the loaded rows in pages this big
+const MAX_REFRESH_ROWS = 1000;
+
+type LeaderboardNavigationProp = CompositeNavigationProp<
+  BottomTabNavigationProp<RootTabParamList, 'Leaderboard'>,
+  NativeStackNavigationProp<RootStackParamList>
+>;
+
+interface ScrollRequest {
+  index: number;
+  viewPosition: number;
+}
+
+// The last request that failed, and how to try it again
+interface Failure {
+  error: unknown;
+  retry: () => void;
+}
 
 /**
  * Leaderboard Screen
@@ -14,68 +57,399 @@ import { Colors } from '../theme';
  * Displays global rankings fetched from backend. All ranks are computed server-side
  * because the backend sees the live state; frontend never guesses or caches ranks.
  *
- * Pagination strategy: We fetch 100 * page_number total (cumulative), then slice
- * client-side. Trade-off: This means we re-fetch earlier ranks, but keeps API
- * stateless and ensures no pagination gaps if data updates between requests.
+ * Pagination strategy: the first request freezes a snapshot of the ordering on
+ * the backend. Each following page asks for the next offset *of that snapshot*,
+ * so pages append without gaps or duplicates even though ratings change every
+ * second. Each request downloads only its own page, and there's no cap on depth.
+ * If the snapshot expires (user idle for minutes), we start over from the top.
+ *
+ * Windows: "Go to rank #N" and "show around <player>" load a slice of a fresh
+ * snapshot centered on the target instead of the top page. `baseOffset` is where
+ * that slice starts in the snapshot; paging down works as usual and "Show higher
+ * ranks" prepends the page above it.
+ *
+ * The route params say what to show (`rank`, `around`, `page`, or nothing for
+ * the top), and they are the only way a load starts: the jump bar, "back to
+ * top", a filter change and other screens all set params, and the screen loads
+ * whatever they name. That keeps the URL on web describing the rows on screen,
+ * so a refresh or a pasted link opens the same place.
+ *
+ * Filters: the filter bar narrows the board to a rating band (a tier or any
+ * custom range). Ranks stay global, and every request, including each following
+ * page and any jump, carries the same filter, so paging stays inside the band.
+ * Changing the filter starts over from the top of the new band.
+ *
+ * Export streams the whole board (within the filter) from the backend as a
+ * CSV or JSON file, not just the rows loaded so far.
+ *
+ * Refresh: pulling the list down, coming back to the tab or the app, and the
+ * auto-refresh timer (useAutoRefresh) all re-fetch the rows on screen from a
+ * fresh snapshot, in place: same starting rank, as many rows as were loaded,
+ * no scrolling. The list header says how long ago that last happened. A load
+ * started after a refresh (a page, a window, a new filter) wins over it, and
+ * scrolling doesn't page while one runs, so the list never mixes snapshots.
+ *
+ * Movement: each load from a fresh snapshot is compared with the rows shown
+ * before it, so rows show who climbed, who fell and who is new since the last
+ * reload (useRankMovements). A filter change starts the comparison over.
+ *
+ * Long-pressing a row picks the player for a head-to-head comparison; the
+ * picks collect in the CompareBar under the list, shared with search.
+ *
+ * Failures are shown as failures, never as an empty board: with nothing loaded
+ * the error replaces the list, otherwise a banner above it keeps the loaded rows
+ * visible. Both offer a retry of the request that failed.
  */
 const LeaderboardScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const { t } = useLocale();
   const [data, setData] = useState<LeaderboardEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [page, setPage] = useState(1);
+  const [snapshot, setSnapshot] = useState<string | null>(null);
+  const [nextOffset, setNextOffset] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [baseOffset, setBaseOffset] = useState(0);
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  const [jumpError, setJumpError] = useState<string | null>(null);
+  const [pendingScroll, setPendingScroll] = useState<ScrollRequest | null>(null);
+  const [failure, setFailure] = useState<Failure | null>(null);
+  const [filter, setFilter] = useState<RatingFilter>({});
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const refreshInFlight = useRef(false);
+  // Bumped as each load starts. A load that finds it has moved on was overtaken
+  // by a newer one (another page, a filter, a scroll) and drops its result, so
+  // rows from two snapshots or two filters never mix.
+  const loadGeneration = useRef(0);
+  const loadedFilter = useRef(filter);
+  const listRef = useRef<LeaderboardListHandle>(null);
+  const navigation = useNavigation<LeaderboardNavigationProp>();
+  const { board } = useBoard();
+  const route = useRoute<RouteProp<RootTabParamList, 'Leaderboard'>>();
+  // null until the first load, so mounting without params still loads the top
+  const handledParams = useRef<RootTabParamList['Leaderboard'] | null>(null);
+  const movements = useRankMovements(data, snapshot, filter);
 
   const styles = StyleSheet.create({
     container: {
       flex: 1,
-      backgroundColor: Colors.background,
+      backgroundColor: colors.background,
+    },
+    jumpError: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+      marginHorizontal: Spacing.md,
+      marginTop: Spacing.sm,
     },
   });
 
-  // Fetch initial leaderboard (top 100). This only runs once on screen mount.
-  useEffect(() => {
-    const loadLeaderboard = async () => {
-      try {
-        setIsLoading(true);
-        const result = await apiService.getLeaderboard(100);
-        setData(Array.isArray(result) ? result : []);
-        setPage(1);
-      } catch (error) {
-        console.error('Failed to load leaderboard:', error);
-        setData([]);
-      } finally {
+  // Fetch a page (1 is the top 100) into a fresh snapshot. A page past the
+  // end of the board shows the top instead, and says so.
+  const loadPage = useCallback(async (pageNumber: number): Promise<void> => {
+    const offset = (pageNumber - 1) * PAGE_SIZE;
+    const generation = ++loadGeneration.current;
+    try {
+      setIsLoading(true);
+      const page = await apiService.getLeaderboard({ limit: PAGE_SIZE, offset, filter });
+      if (generation !== loadGeneration.current) return;
+      if (offset > 0 && page.entries.length === 0) {
+        await loadPage(1);
+        setJumpError(t('leaderboard.pageNotFound', { page: pageNumber }));
+        return;
+      }
+      setData(page.entries);
+      setSnapshot(page.snapshot);
+      setBaseOffset(page.offset);
+      setNextOffset(page.next_offset);
+      setHasMore(page.has_more);
+      setHighlighted(null);
+      setJumpError(null);
+      setFailure(null);
+      setUpdatedAt(Date.now());
+      setPendingScroll({ index: 0, viewPosition: 0 });
+    } catch (error) {
+      if (generation !== loadGeneration.current) return;
+      console.error('Failed to load leaderboard:', error);
+      setData([]);
+      setHasMore(false);
+      setFailure({ error, retry: () => loadPage(pageNumber) });
+    } finally {
+      if (generation === loadGeneration.current) {
         setIsLoading(false);
       }
-    };
+    }
+  }, [filter, t]);
+
+  // Load a window centered on a rank or a player, from a fresh snapshot.
+  const loadWindow = useCallback(async (request: LeaderboardWindowRequest): Promise<void> => {
+    const generation = ++loadGeneration.current;
+    try {
+      setIsLoading(true);
+      setJumpError(null);
+      const window = await apiService.getLeaderboardAround({
+        ...request,
+        radius: WINDOW_RADIUS,
+        filter,
+      });
+      if (generation !== loadGeneration.current) return;
+      setData(window.entries);
+      setSnapshot(window.snapshot);
+      setBaseOffset(window.offset);
+      setNextOffset(window.next_offset);
+      setHasMore(window.has_more);
+      setHighlighted(window.entries[window.target_index]?.username ?? null);
+      setFailure(null);
+      setUpdatedAt(Date.now());
+      setPendingScroll({ index: window.target_index, viewPosition: 0.5 });
+    } catch (error) {
+      if (generation !== loadGeneration.current) return;
+      console.error('Failed to load leaderboard window:', error);
+      // A 4xx means the target doesn't exist; anything else is an outage
+      if (isClientError(error)) {
+        setJumpError(
+          request.username
+            ? t('leaderboard.playerNotInRange', { username: request.username })
+            : t('leaderboard.rankNotFound', { rank: request.rank })
+        );
+      } else {
+        setFailure({ error, retry: () => loadWindow(request) });
+      }
+    } finally {
+      if (generation === loadGeneration.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [filter, t]);
+
+  // Show an anchor (or the top, with none) by putting it in the route params.
+  // Every call makes a new params object, so asking for the same anchor again
+  // (another "show around alice" after scrolling away) still reloads.
+  const showAnchor = useCallback((anchor: RootTabParamList['Leaderboard'] = {}) => {
+    navigation.setParams({ rank: undefined, around: undefined, page: undefined, ...anchor });
+  }, [navigation]);
+
+  // Load whatever the params name: a window, a page, or the top
+  const loadParams = useCallback((params: RootTabParamList['Leaderboard']) => {
+    const { rank, around, page } = params ?? {};
+    if (rank) {
+      return loadWindow({ rank });
+    }
+    if (around) {
+      return loadWindow({ username: around });
+    }
+    return loadPage(page ?? 1);
+  }, [loadWindow, loadPage]);
+
+  // Load on mount and each time the params change. A new filter alone doesn't
+  // reload here; the effect below sends us to the top.
+  useEffect(() => {
+    if (handledParams.current === route.params) return;
+    handledParams.current = route.params;
+    loadParams(route.params);
+  }, [route.params, loadParams]);
+
+  // A new filter means a different board: start over from its top
+  useEffect(() => {
+    if (loadedFilter.current !== filter) {
+      loadedFilter.current = filter;
+      // Rows still on their way for the old filter no longer belong on screen
+      loadGeneration.current++;
+      showAnchor();
+    }
+  }, [filter, showAnchor]);
+
+  // Scroll once the rows we want to land on have rendered.
+  useEffect(() => {
+    if (pendingScroll && data.length > pendingScroll.index) {
+      listRef.current?.scrollToIndex(pendingScroll.index, pendingScroll.viewPosition);
+      setPendingScroll(null);
+    }
+  }, [pendingScroll, data]);
+
+  // Re-fetch the loaded rows from a fresh snapshot without disturbing the
+  // list: the rows stay up while it runs, and a failure goes in the banner.
+  // With nothing loaded (the first load failed) it's the params' load again.
+  const refresh = useCallback(async (): Promise<void> => {
+    if (isLoading || isLoadingMore || refreshInFlight.current) return;
+    if (data.length === 0) {
+      await loadParams(route.params);
+      return;
+    }
+
+    const target = Math.max(PAGE_SIZE, data.length);
+    const generation = ++loadGeneration.current;
+    try {
+      refreshInFlight.current = true;
+      let page = await apiService.getLeaderboard({
+        limit: Math.min(MAX_REFRESH_ROWS, target),
+        offset: baseOffset,
+        filter,
+      });
+      if (generation !== loadGeneration.current) return;
+      // The board shrank below where we were; start over from the top
+      if (baseOffset > 0 && page.entries.length === 0) {
+        showAnchor();
+        return;
+      }
+      // More rows loaded than one page holds: page through the same snapshot,
+      // so scrolling far down doesn't cost the rows past the first page
+      const entries = [...page.entries];
+      while (page.has_more && entries.length < target) {
+        page = await apiService.getLeaderboard({
+          limit: Math.min(MAX_REFRESH_ROWS, target - entries.length),
+          offset: page.next_offset,
+          snapshot: page.snapshot,
+          filter,
+        });
+        if (generation !== loadGeneration.current) return;
+        entries.push(...page.entries);
+      }
+      setData(entries);
+      setSnapshot(page.snapshot);
+      setNextOffset(page.next_offset);
+      setHasMore(page.has_more);
+      setFailure(null);
+      setUpdatedAt(Date.now());
+    } catch (error) {
+      if (generation !== loadGeneration.current) return;
+      console.error('Failed to refresh leaderboard:', error);
+      setFailure({ error, retry: () => refresh() });
+    } finally {
+      refreshInFlight.current = false;
+    }
+  }, [isLoading, isLoadingMore, data.length, baseOffset, filter, route.params, loadParams, showAnchor]);
 
-    loadLeaderboard();
-  }, []);
+  const handlePullToRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await refresh();
+    setIsRefreshing(false);
+  }, [refresh]);
 
-  // When user scrolls to bottom, load the next page.
-  // We fetch limit = 100 * (page + 1) total entries, then FlatList
-  // automatically shows the new ones because data array grows.
-  const handleEndReached = useCallback(async () => {
-    if (isLoadingMore || isLoading) return;
+  useAutoRefresh(refresh);
 
+  // When user scrolls to bottom, append the next page of the same snapshot.
+  const handleEndReached = useCallback(async (): Promise<void> => {
+    // A refresh is about to replace the rows with a newer snapshot's
+    if (isLoadingMore || isLoading || refreshInFlight.current || !hasMore || !snapshot) return;
+
+    const generation = ++loadGeneration.current;
     try {
       setIsLoadingMore(true);
-      const limit = 100 * (page + 1);
-      const result = await apiService.getLeaderboard(limit);
-      setData(Array.isArray(result) ? result : []);
-      setPage(page + 1);
+      const page = await apiService.getLeaderboard({
+        limit: PAGE_SIZE,
+        offset: nextOffset,
+        snapshot,
+        filter,
+      });
+      if (generation !== loadGeneration.current) return;
+      setData((current) => [...current, ...page.entries]);
+      setNextOffset(page.next_offset);
+      setHasMore(page.has_more);
+      setFailure(null);
     } catch (error) {
+      if (generation !== loadGeneration.current) return;
+      if (isSnapshotExpired(error)) {
+        showAnchor();
+        return;
+      }
       console.error('Failed to load more entries:', error);
+      setFailure({ error, retry: () => handleEndReached() });
     } finally {
       setIsLoadingMore(false);
     }
-  }, [page, isLoadingMore, isLoading]);
+  }, [isLoadingMore, isLoading, hasMore, snapshot, nextOffset, filter, showAnchor]);
+
+  // Prepend the page above the current window, keeping the row that was at
+  // the top of the list in place.
+  const handleLoadEarlier = useCallback(async (): Promise<void> => {
+    if (isLoadingMore || isLoading || refreshInFlight.current || baseOffset === 0 || !snapshot) {
+      return;
+    }
+
+    const offset = Math.max(0, baseOffset - PAGE_SIZE);
+    const generation = ++loadGeneration.current;
+    try {
+      setIsLoadingMore(true);
+      const page = await apiService.getLeaderboard({
+        limit: baseOffset - offset,
+        offset,
+        snapshot,
+        filter,
+      });
+      if (generation !== loadGeneration.current) return;
+      setData((current) => [...page.entries, ...current]);
+      setBaseOffset(offset);
+      setFailure(null);
+      setPendingScroll({ index: page.entries.length, viewPosition: 0 });
+    } catch (error) {
+      if (generation !== loadGeneration.current) return;
+      if (isSnapshotExpired(error)) {
+        showAnchor();
+        return;
+      }
+      console.error('Failed to load earlier entries:', error);
+      setFailure({ error, retry: () => handleLoadEarlier() });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [isLoadingMore, isLoading, baseOffset, snapshot, filter, showAnchor]);
 
   return (
     <View style={styles.container}>
-      <LeaderboardList
-        data={data}
-        isLoading={isLoading}
-        onEndReached={handleEndReached}
+      <LeaderboardJumpBar
+        onJumpToRank={(rank) => showAnchor({ rank })}
+        onShowAround={(username) => showAnchor({ around: username })}
+        onBackToTop={baseOffset > 0 ? () => showAnchor() : undefined}
+      />
+      <LeaderboardFilterBar
+        filter={filter}
+        onChange={setFilter}
+        actions={
+          <ExportButton
+            title={
+              board
+                ? t('export.boardTitle', { board: board.name })
+                : t('export.leaderboardTitle')
+            }
+            description={
+              filter.minRating !== undefined || filter.maxRating !== undefined
+                ? t('export.leaderboardBand', {
+                    min: filter.minRating ?? RatingScale.min,
+                    max: filter.maxRating ?? RatingScale.max,
+                  })
+                : t('export.leaderboardAll')
+            }
+            onExport={(format) => exportLeaderboard(format, filter)}
+          />
+        }
       />
+      {jumpError && <Text style={styles.jumpError}>{jumpError}</Text>}
+      {failure && data.length === 0 && !isLoading ? (
+        <ErrorState error={failure.error} onRetry={failure.retry} />
+      ) : (
+        <>
+          {failure && (
+            <ErrorState error={failure.error} onRetry={failure.retry} compact />
+          )}
+          <LeaderboardList
+            ref={listRef}
+            data={data}
+            isLoading={isLoading || isLoadingMore}
+            highlightedUsername={highlighted}
+            movements={movements}
+            isRefreshing={isRefreshing}
+            onRefresh={handlePullToRefresh}
+            updatedAt={updatedAt}
+            onLoadEarlier={baseOffset > 0 ? handleLoadEarlier : undefined}
+            onEndReached={handleEndReached}
+            onSelectPlayer={(username) =>
+              navigation.navigate('PlayerProfile', { username })
+            }
+          />
+        </>
+      )}
+      <CompareBar />
     </View>
   );
 };
@@ -0,0 +1,369 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  Pressable,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import LeaderboardRow from '../components/LeaderboardRow';
+import RatingHistoryChart from '../components/RatingHistoryChart';
+import ErrorState from '../components/ErrorState';
+import TierBadge from '../components/TierBadge';
+import { useTiers } from '../context/TierContext';
+import { MAX_COMPARE_PLAYERS, useCompare } from '../context/CompareContext';
+import { HistoryPoint, LeaderboardEntry, PlayerProfile } from '../types';
+import apiService from '../services/api';
+import { isClientError } from '../services/errors';
+import { RootStackParamList } from '../navigation/types';
+import { MessageKey, MessageParams } from '../i18n';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography } from '../theme';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// "+42 rating, up 118 places": the change from the oldest point within the last
+// hour to now. Null until there are two points to compare.
+function describeLastHour(
+  points: HistoryPoint[],
+  profile: PlayerProfile,
+  t: (key: MessageKey, params?: MessageParams) => string
+): string | null {
+  const cutoff = Date.now() - HOUR_MS;
+  const first = points.find((point) => point.timestamp >= cutoff);
+  if (!first || first === points[points.length - 1]) {
+    return null;
+  }
+
+  const ratingDelta = profile.rating - first.rating;
+  const rankDelta = first.rank - profile.global_rank;
+  const rating = t(ratingDelta >= 0 ? 'profile.ratingUp' : 'profile.ratingDown', {
+    count: Math.abs(ratingDelta),
+  });
+  const rank =
+    rankDelta === 0
+      ? t('profile.rankUnchanged')
+      : t(rankDelta > 0 ? 'profile.rankUp' : 'profile.rankDown', { count: Math.abs(rankDelta) });
+  return t('profile.lastHourSummary', { rating, rank });
+}
+
+type PlayerProfileScreenProps = NativeStackScreenProps<
+  RootStackParamList,
+  'PlayerProfile'
+>;
+
+/**
+ * Player Profile Screen
+ *
+ * One player's live standing: global rank, rating, percentile and the total
+ * field size, plus the handful of players ranked directly above and below.
+ * Reachable from both tabs by tapping a row.
+ *
+ * The backend returns the player and their neighbors from a single read, so
+ * the neighbor ranks always line up with the player's own rank. Pull down to
+ * re-fetch; we never patch ranks locally.
+ *
+ * The tier badge and "points to next tier" come from the shared tier config,
+ * the same bands the rows and the leaderboard filter use.
+ *
+ * Below the stats, the player's recorded history answers "climbing or falling
+ * lately?": a summary of the last hour and a chart of everything the backend
+ * has kept. History is fetched alongside the profile but a failure there only
+ * hides the chart.
+ *
+ * "Add to comparison" picks the player for the Compare screen, the same as
+ * long-pressing their row in a list.
+ */
+const PlayerProfileScreen: React.FC<PlayerProfileScreenProps> = ({
+  route,
+  navigation,
+}) => {
+  const { colors } = useTheme();
+  const { t, formatNumber, formatRank } = useLocale();
+  const { username } = route.params;
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [history, setHistory] = useState<HistoryPoint[]>([]);
+  const [error, setError] = useState<unknown>(null);
+  const { tierFor, nextTierFor } = useTiers();
+  const compare = useCompare();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centerContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.background,
+    },
+    emptyText: {
+      fontSize: Typography.fontSize.base,
+      color: colors.textSecondary,
+    },
+    card: {
+      backgroundColor: colors.cardBackground,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      margin: Spacing.md,
+      padding: Spacing.lg,
+    },
+    username: {
+      fontSize: Typography.fontSize.xl,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textPrimary,
+      marginBottom: Spacing.md,
+    },
+    tierRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: -Spacing.sm,
+      marginBottom: Spacing.md,
+    },
+    tierProgress: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+      marginStart: Spacing.sm,
+    },
+    statsRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    stat: {
+      flex: 1,
+    },
+    statValue: {
+      fontSize: Typography.fontSize.lg,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.accentColor,
+    },
+    statLabel: {
+      fontSize: Typography.fontSize.xs,
+      color: colors.textSecondary,
+      marginTop: Spacing.xs,
+    },
+    actionButton: {
+      alignSelf: 'flex-start',
+      marginTop: Spacing.md,
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.sm,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.accentColor,
+    },
+    actionRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    actionButtonSpaced: {
+      marginEnd: Spacing.sm,
+    },
+    actionText: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.accentColor,
+    },
+    sectionTitle: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textSecondary,
+      marginHorizontal: Spacing.md,
+      marginTop: Spacing.md,
+      marginBottom: Spacing.xs,
+    },
+    historyCard: {
+      backgroundColor: colors.cardBackground,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      marginHorizontal: Spacing.md,
+      padding: Spacing.lg,
+    },
+    lastHour: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+      marginBottom: Spacing.md,
+    },
+  });
+
+  const loadProfile = useCallback(async () => {
+    const historyRequest = apiService
+      .getHistory(username)
+      .then((result) => result.points)
+      .catch(() => [] as HistoryPoint[]);
+
+    try {
+      const result = await apiService.getUser(username);
+      setProfile(result);
+      setError(null);
+    } catch (loadError) {
+      console.error('Failed to load player profile:', loadError);
+      setProfile(null);
+      setError(loadError);
+    }
+    setHistory(await historyRequest);
+  }, [username]);
+
+  useEffect(() => {
+    navigation.setOptions({ title: username });
+
+    setIsLoading(true);
+    loadProfile().finally(() => setIsLoading(false));
+  }, [username, navigation, loadProfile]);
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await loadProfile();
+    setIsRefreshing(false);
+  }, [loadProfile]);
+
+  // Tapping a neighbor pushes their profile, so the back button walks back
+  // through the chain of players the user has been browsing.
+  const openPlayer = (name: string) => {
+    if (name !== username) {
+      navigation.push('PlayerProfile', { username: name });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color={colors.accentColor} />
+      </View>
+    );
+  }
+
+  // Only a 404 means the player doesn't exist; anything else is worth a retry
+  if (!profile && error && !isClientError(error, 404)) {
+    return (
+      <ErrorState
+        error={error}
+        onRetry={() => {
+          setIsLoading(true);
+          loadProfile().finally(() => setIsLoading(false));
+        }}
+      />
+    );
+  }
+
+  if (!profile) {
+    return (
+      <View style={styles.centerContainer}>
+        <Text style={styles.emptyText}>{t('profile.notFound')}</Text>
+      </View>
+    );
+  }
+
+  const nearby: LeaderboardEntry[] = [
+    ...profile.above,
+    { rank: profile.global_rank, username: profile.username, rating: profile.rating },
+    ...profile.below,
+  ];
+  const lastHour = describeLastHour(history, profile, t);
+  const tier = tierFor(profile.rating);
+  const nextTier = nextTierFor(profile.rating);
+  const isCompared = compare.indexOf(profile.username) !== -1;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={
+        <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+      }
+    >
+      <View style={styles.card}>
+        <Text style={styles.username}>{profile.username}</Text>
+        {tier && (
+          <View style={styles.tierRow}>
+            <TierBadge tier={tier} variant="full" />
+            <Text style={styles.tierProgress}>
+              {nextTier
+                ? t('profile.pointsToTier', {
+                    count: nextTier.minRating - profile.rating,
+                    tier: nextTier.name,
+                  })
+                : t('profile.topTier')}
+            </Text>
+          </View>
+        )}
+        <View style={styles.statsRow}>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{formatRank(profile.global_rank)}</Text>
+            <Text style={styles.statLabel}>{t('profile.globalRank')}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{formatNumber(profile.rating)}</Text>
+            <Text style={styles.statLabel}>{t('profile.rating')}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>
+              {formatNumber(profile.percentile / 100, {
+                style: 'percent',
+                minimumFractionDigits: 2,
+                maximumFractionDigits: 2,
+              })}
+            </Text>
+            <Text style={styles.statLabel}>{t('profile.percentile')}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{formatNumber(profile.total_users)}</Text>
+            <Text style={styles.statLabel}>{t('profile.players')}</Text>
+          </View>
+        </View>
+        <View style={styles.actionRow}>
+          <Pressable
+            style={[styles.actionButton, styles.actionButtonSpaced]}
+            onPress={() =>
+              navigation.navigate('Main', {
+                screen: 'Leaderboard',
+                params: { around: profile.username },
+              })
+            }
+          >
+            <Text style={styles.actionText}>{t('profile.showOnLeaderboard')}</Text>
+          </Pressable>
+          {(isCompared || compare.usernames.length < MAX_COMPARE_PLAYERS) && (
+            <Pressable
+              style={styles.actionButton}
+              onPress={() => compare.toggle(profile.username)}
+            >
+              <Text style={styles.actionText}>
+                {t(isCompared ? 'compare.remove' : 'compare.add')}
+              </Text>
+            </Pressable>
+          )}
+        </View>
+      </View>
+
+      <Text style={styles.sectionTitle}>{t('profile.history')}</Text>
+      <View style={styles.historyCard}>
+        {lastHour && (
+          <Text style={styles.lastHour}>{t('profile.lastHour', { summary: lastHour })}</Text>
+        )}
+        <RatingHistoryChart points={history} />
+      </View>
+
+      <Text style={styles.sectionTitle}>{t('profile.nearby')}</Text>
+      {nearby.map((entry) => (
+        <LeaderboardRow
+          key={entry.username}
+          rank={entry.rank}
+          username={entry.username}
+          rating={entry.rating}
+          isHighlighted={entry.username === profile.username}
+          onPress={() => openPlayer(entry.username)}
+        />
+      ))}
+    </ScrollView>
+  );
+};
+
+export default PlayerProfileScreen;
@@ -0,0 +1,354 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import MatchGameRow, { GameDraft } from '../components/MatchGameRow';
+import ErrorState from '../components/ErrorState';
+import apiService from '../services/api';
+import { CancelledError, ClientError } from '../services/errors';
+import { useBoard } from '../context/BoardContext';
+import { MatchGame, MatchOutcome, RatingDelta } from '../types';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography, Layout } from '../theme';
+
+const DEFAULT_K_FACTOR = 32;
+const MAX_K_FACTOR = 100;
+
+// Wait for typing to settle before asking the backend for a preview
+const PREVIEW_DEBOUNCE_MS = 400;
+
+let nextGameId = 1;
+const emptyGame = (): GameDraft => ({ id: nextGameId++, first: '', second: '', result: 'first' });
+
+function toMatchGame({ first, second, result }: GameDraft): MatchGame {
+  const a = first.trim();
+  const b = second.trim();
+  if (result === 'second') return { winner: b, loser: a };
+  return { winner: a, loser: b, draw: result === 'draw' || undefined };
+}
+
+/**
+ * Record Match Screen
+ *
+ * Enter one or more games and submit them to /matches, which rates them with
+ * Elo on the current board. While the form is filled in, a dry run against the
+ * live ratings previews every player's change, so the deltas are visible (and
+ * typos in names caught) before anything is written. Submitting applies the
+ * same games atomically and shows the resulting ranks.
+ *
+ * Needs the admin token, so it's reached from the unlocked Admin tab.
+ */
+const RecordMatchScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const { locale, t, formatNumber, formatRank } = useLocale();
+  const { board } = useBoard();
+  const [games, setGames] = useState<GameDraft[]>(() => [emptyGame()]);
+  const [kFactorText, setKFactorText] = useState(String(DEFAULT_K_FACTOR));
+  const [preview, setPreview] = useState<MatchOutcome | null>(null);
+  const [previewError, setPreviewError] = useState<unknown>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<unknown>(null);
+  const [recorded, setRecorded] = useState<MatchOutcome | null>(null);
+
+  const kFactor = Number(kFactorText);
+  const kFactorValid = kFactorText.trim() !== '' && kFactor >= 1 && kFactor <= MAX_K_FACTOR;
+
+  // The report to preview and submit, or null while the form is incomplete
+  const report = useMemo(() => {
+    const complete = games.every(
+      (game) => game.first.trim() && game.second.trim() && game.first.trim() !== game.second.trim()
+    );
+    return complete && kFactorValid ? { games: games.map(toMatchGame), kFactor } : null;
+  }, [games, kFactor, kFactorValid]);
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centerContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: Spacing.xl,
+      backgroundColor: colors.background,
+    },
+    emptyText: {
+      fontSize: Typography.fontSize.base,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+    card: {
+      backgroundColor: colors.cardBackground,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      marginHorizontal: Spacing.md,
+      marginTop: Spacing.md,
+      padding: Spacing.lg,
+    },
+    sectionTitle: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textSecondary,
+      marginBottom: Spacing.sm,
+    },
+    help: {
+      fontSize: Typography.fontSize.xs,
+      color: colors.textSecondary,
+    },
+    kFactorRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: Spacing.xs,
+    },
+    kFactorInput: {
+      width: 72,
+      height: Layout.searchInputHeight - Spacing.sm,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: kFactorValid ? colors.borderLight : colors.negative,
+      paddingHorizontal: Spacing.sm,
+      marginEnd: Spacing.md,
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    link: {
+      marginTop: Spacing.md,
+      fontSize: Typography.fontSize.sm,
+      color: colors.accentColor,
+    },
+    changeRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: Spacing.xs,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    changeName: {
+      flex: 1,
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    changeRatings: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+      marginEnd: Spacing.md,
+    },
+    changeDelta: {
+      width: 48,
+      textAlign: locale.direction === 'rtl' ? 'left' : 'right',
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.bold,
+    },
+    message: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+    },
+    messageError: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.negative,
+    },
+    submit: {
+      alignItems: 'center',
+      marginHorizontal: Spacing.md,
+      marginTop: Spacing.md,
+      paddingVertical: Spacing.md,
+      borderRadius: 8,
+      backgroundColor: colors.accentColor,
+    },
+    submitDisabled: {
+      opacity: 0.4,
+    },
+    submitText: {
+      fontSize: Typography.fontSize.base,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.cardBackground,
+    },
+    footer: {
+      height: Spacing.xl,
+    },
+  });
+
+  // Dry-run the current form; each edit cancels the preview before it
+  useEffect(() => {
+    setPreview(null);
+    setPreviewError(null);
+    if (!report) {
+      setIsPreviewing(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsPreviewing(true);
+    const timer = setTimeout(() => {
+      apiService
+        .recordMatches(report, { dryRun: true, signal: controller.signal })
+        .then((outcome) => {
+          setPreview(outcome);
+          setIsPreviewing(false);
+        })
+        .catch((error) => {
+          if (error instanceof CancelledError) return;
+          setPreviewError(error);
+          setIsPreviewing(false);
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [report]);
+
+  const submit = async () => {
+    if (!report) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      setRecorded(await apiService.recordMatches(report));
+      setGames([emptyGame()]);
+    } catch (error) {
+      setSubmitError(error);
+    }
+    setIsSubmitting(false);
+  };
+
+  const updateGame = (updated: GameDraft) => {
+    setRecorded(null);
+    setGames((current) => current.map((game) => (game.id === updated.id ? updated : game)));
+  };
+
+  const renderChanges = (changes: RatingDelta[]) =>
+    changes.map((change) => (
+      <View key={change.username} style={styles.changeRow}>
+        <Text style={styles.changeName}>
+          {change.username}
+          {change.global_rank !== undefined ? ` · ${formatRank(change.global_rank)}` : ''}
+        </Text>
+        <Text style={styles.changeRatings}>
+          {formatNumber(change.old_rating)} → {formatNumber(change.rating)}
+        </Text>
+        <Text
+          style={[
+            styles.changeDelta,
+            {
+              color:
+                change.delta > 0
+                  ? colors.positive
+                  : change.delta < 0
+                    ? colors.negative
+                    : colors.textSecondary,
+            },
+          ]}
+        >
+          {change.delta > 0 ? '+' : ''}
+          {formatNumber(change.delta)}
+        </Text>
+      </View>
+    ));
+
+  if (!apiService.isAdmin) {
+    return (
+      <View style={styles.centerContainer}>
+        <Text style={styles.emptyText}>
+          {t('match.locked')}
+        </Text>
+      </View>
+    );
+  }
+
+  const canSubmit = !!report && !isSubmitting && !previewError;
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('match.kFactor')}</Text>
+        <View style={styles.kFactorRow}>
+          <TextInput
+            style={styles.kFactorInput}
+            value={kFactorText}
+            onChangeText={setKFactorText}
+            keyboardType="number-pad"
+          />
+          <Text style={[styles.help, { flex: 1 }]}>
+            {t('match.kFactorHelp', { max: MAX_K_FACTOR })}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>
+          {board ? t('match.gamesOnBoard', { board: board.name }) : t('match.games')}
+        </Text>
+        {games.map((game, index) => (
+          <MatchGameRow
+            key={game.id}
+            index={index}
+            game={game}
+            onChange={updateGame}
+            onRemove={
+              games.length > 1
+                ? () => setGames((current) => current.filter((g) => g.id !== game.id))
+                : undefined
+            }
+          />
+        ))}
+        <Pressable onPress={() => setGames((current) => [...current, emptyGame()])}>
+          <Text style={styles.link}>{t('match.addGame')}</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>
+          {recorded ? t('match.recorded') : t('match.changes')}
+        </Text>
+        {recorded ? (
+          renderChanges(recorded.changes)
+        ) : isPreviewing ? (
+          <ActivityIndicator size="small" color={colors.accentColor} />
+        ) : preview ? (
+          renderChanges(preview.changes)
+        ) : previewError instanceof ClientError ? (
+          // e.g. "game 2: unknown player "bobb""
+          <Text style={styles.messageError}>{previewError.message}</Text>
+        ) : previewError ? (
+          <ErrorState error={previewError} compact />
+        ) : (
+          <Text style={styles.message}>
+            {t('match.incomplete')}
+          </Text>
+        )}
+      </View>
+
+      {submitError !== null && <ErrorState error={submitError} onRetry={submit} compact />}
+
+      <Pressable
+        style={[styles.submit, !canSubmit && styles.submitDisabled]}
+        onPress={submit}
+        disabled={!canSubmit}
+      >
+        {isSubmitting ? (
+          <ActivityIndicator size="small" color={colors.cardBackground} />
+        ) : (
+          <Text style={styles.submitText}>
+            {t('match.submit', { count: games.length })}
+          </Text>
+        )}
+      </Pressable>
+
+      <View style={styles.footer} />
+    </ScrollView>
+  );
+};
+
+export default RecordMatchScreen;
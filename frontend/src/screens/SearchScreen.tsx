@@ -1,87 +1,128 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   View,
   StyleSheet,
   KeyboardAvoidingView,
   Platform,
 } from 'react-native';
+import {
+  CompositeNavigationProp,
+  RouteProp,
+  useNavigation,
+  useRoute,
+} from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import SearchInput from '../components/SearchInput';
+import SearchModeToggle from '../components/SearchModeToggle';
 import SearchResultsList from '../components/SearchResultsList';
-import { SearchResult } from '../types';
-import apiService from '../services/api';
-import { Colors } from '../theme';
+import ErrorState from '../components/ErrorState';
+import ExportButton from '../components/ExportButton';
+import CompareBar from '../components/CompareBar';
+import { useSearch } from '../hooks/useSearch';
+import { useAutoRefresh } from '../hooks/useAutoRefresh';
+import { exportSearchResults } from '../services/exporter';
+import { RootStackParamList, RootTabParamList } from '../navigation/types';
+import { SearchMode } from '../types';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+
+type SearchNavigationProp = CompositeNavigationProp<
+  BottomTabNavigationProp<RootTabParamList, 'Search'>,
+  NativeStackNavigationProp<RootStackParamList>
+>;
+
+function searchKey(query: string, mode: SearchMode): string {
+  return `${mode}:${query.trim()}`;
+}
 
 /**
  * Search Screen
  *
- * Users search for players by username prefix. We debounce input (300ms) to
+ * Users search for players by username: prefix by default, or anywhere in the
+ * name, or fuzzily (see SearchModeToggle). We debounce input (300ms) to
  * avoid hammering the backend with every keystroke (user types 'alice' = 5 API
- * calls without debounce, 1 call with debounce).
+ * calls without debounce, 1 call with debounce). useSearch also cancels stale
+ * requests, so results always belong to the text currently in the field.
  *
  * Critical invariant: Each search result shows its live-computed rank, fetched
- * from the server at request time. We never cache or derive ranks locally.
+ * from the server at request time. We never cache or derive ranks locally
+ * (identical queries within a second share one request, nothing longer).
+ *
+ * A failed search shows the error with a retry, never "No results found": an
+ * empty result has to mean the player doesn't exist.
+ *
+ * The query and mode live in the route params (`?q=ali&mode=fuzzy` on web) as
+ * well as in the field: typing updates the params, so the URL can be shared,
+ * and params that change from outside (a deep link, back/forward in the
+ * browser) run that search.
+ *
+ * Ranks in the results age like any others, so the search re-runs (quietly,
+ * keeping the results up) on pull-down, when the tab regains focus, and on
+ * the auto-refresh timer (useAutoRefresh).
+ *
+ * Long-pressing a result picks it for a comparison; the picks collect in the
+ * CompareBar at the bottom, shared with the leaderboard.
  */
 const SearchScreen: React.FC = () => {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [results, setResults] = useState<SearchResult[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [debounceTimer, setDebounceTimer] = useState<NodeJS.Timeout | null>(null);
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const route = useRoute<RouteProp<RootTabParamList, 'Search'>>();
+  const {
+    query,
+    mode,
+    results,
+    isLoading,
+    error,
+    updatedAt,
+    setQuery,
+    setMode,
+    search,
+    retry,
+    refresh,
+  } = useSearch({ query: route.params?.q, mode: route.params?.mode });
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const navigation = useNavigation<SearchNavigationProp>();
+  // The params this screen last wrote, so its own updates aren't taken for links
+  const writtenKey = useRef<string | null>(null);
 
-  const styles = StyleSheet.create({
-    container: {
-      flex: 1,
-      backgroundColor: Colors.background,
-    },
-  });
-
-  // Debounced search: Wait 300ms after user stops typing before making API call.
-  // Why? Avoid unnecessary requests. If user types 'alice' quickly, we send
-  // one request for 'alice', not requests for 'a', 'al', 'ali', 'alic', 'alice'.
-  const handleSearch = useCallback(
-    (query: string) => {
-      setSearchQuery(query);
+  // Params -> search. Runs before the effect below, so when typing outpaces the
+  // params the stale value is still recognized as our own.
+  useEffect(() => {
+    const linkedQuery = route.params?.q ?? '';
+    const linkedMode = route.params?.mode ?? 'prefix';
+    const key = searchKey(linkedQuery, linkedMode);
+    if (key !== writtenKey.current && key !== searchKey(query, mode)) {
+      search(linkedQuery, linkedMode);
+    }
+    // Only a change of params is news; query and mode are compared, not watched
+  }, [route.params]);
 
-      // Clear previous timer
-      if (debounceTimer) {
-        clearTimeout(debounceTimer);
-      }
+  // Search -> params, leaving out the defaults
+  useEffect(() => {
+    writtenKey.current = searchKey(query, mode);
+    navigation.setParams({
+      q: query.trim() || undefined,
+      mode: mode === 'prefix' ? undefined : mode,
+    });
+  }, [query, mode, navigation]);
 
-      // No search if empty
-      if (!query.trim()) {
-        setResults([]);
-        setIsLoading(false);
-        return;
-      }
+  useAutoRefresh(refresh);
 
-      // Set new timer for debounced search. If user types again before 300ms,
-      // we clear this and set a new one (see the if statement above).
-      const timer = setTimeout(async () => {
-        try {
-          setIsLoading(true);
-          const searchResults = await apiService.searchUsers(query);
-          setResults(searchResults);
-        } catch (error) {
-          console.error('Search failed:', error);
-          setResults([]);
-        } finally {
-          setIsLoading(false);
-        }
-      }, 300); // 300ms debounce
+  const handlePullToRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await refresh();
+    setIsRefreshing(false);
+  }, [refresh]);
 
-      setDebounceTimer(timer);
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
     },
-    [debounceTimer]
-  );
+  });
 
-  // Clean up the debounce timer when the component unmounts to prevent
-  // memory leaks and stale requests after screen is closed.
-  useEffect(() => {
-    return () => {
-      if (debounceTimer) {
-        clearTimeout(debounceTimer);
-      }
-    };
-  }, [debounceTimer]);
+  const hasResults = results.length > 0 && !error;
 
   return (
     <KeyboardAvoidingView
@@ -90,15 +131,39 @@ const SearchScreen: React.FC = () => {
     >
       <View style={styles.container}>
         <SearchInput
-          value={searchQuery}
-          onChangeText={handleSearch}
-          isLoading={isLoading}
-        />
-        <SearchResultsList
-          data={results}
+          value={query}
+          onChangeText={setQuery}
           isLoading={isLoading}
-          isEmpty={searchQuery.trim().length === 0}
         />
+        <SearchModeToggle mode={mode} onChange={setMode} />
+        {error && !isLoading ? (
+          <ErrorState error={error} onRetry={retry} />
+        ) : (
+          <SearchResultsList
+            data={results}
+            isLoading={isLoading}
+            isEmpty={query.trim().length === 0}
+            isRefreshing={isRefreshing}
+            onRefresh={handlePullToRefresh}
+            updatedAt={updatedAt}
+            actions={
+              hasResults && (
+                <ExportButton
+                  title={t('export.searchTitle')}
+                  description={t('export.searchDescription', {
+                    count: results.length,
+                    query: query.trim(),
+                  })}
+                  onExport={(format) => exportSearchResults(format, results, { query, mode })}
+                />
+              )
+            }
+            onSelectPlayer={(username) =>
+              navigation.navigate('PlayerProfile', { username })
+            }
+          />
+        )}
+        <CompareBar />
       </View>
     </KeyboardAvoidingView>
   );
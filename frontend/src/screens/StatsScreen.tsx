@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import RatingHistogram from '../components/RatingHistogram';
+import { LeaderboardStats, PlayerProfile } from '../types';
+import apiService from '../services/api';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography, Layout } from '../theme';
+
+const BUCKET_WIDTHS = [50, 100, 250, 500];
+const DEFAULT_PERCENTILES = '10, 25, 50, 75, 90, 99';
+
+// Parse "10, 25, 99.9" into numbers, dropping anything outside (0, 100].
+function parsePercentiles(text: string): number[] {
+  return text
+    .split(',')
+    .map((part) => parseFloat(part.trim()))
+    .filter((p) => !isNaN(p) && p > 0 && p <= 100);
+}
+
+/**
+ * Stats Screen
+ *
+ * Rating distribution analytics: player count, mean and median, a histogram
+ * of the whole field and the rating cutoff for each percentile. Bucket width
+ * and percentile cutoffs are adjustable; the backend computes everything from
+ * its live bucket counts, so a refresh always reflects the current field.
+ *
+ * Looking up a player highlights the histogram bar their rating falls in and
+ * shows their rank and percentile alongside.
+ */
+const StatsScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const { t, formatNumber } = useLocale();
+  const [stats, setStats] = useState<LeaderboardStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [bucketWidth, setBucketWidth] = useState(100);
+  const [percentilesText, setPercentilesText] = useState(DEFAULT_PERCENTILES);
+  const [percentiles, setPercentiles] = useState(parsePercentiles(DEFAULT_PERCENTILES));
+  const [playerQuery, setPlayerQuery] = useState('');
+  const [player, setPlayer] = useState<PlayerProfile | null>(null);
+  const [playerError, setPlayerError] = useState<string | null>(null);
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centerContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.background,
+    },
+    emptyText: {
+      fontSize: Typography.fontSize.base,
+      color: colors.textSecondary,
+    },
+    card: {
+      backgroundColor: colors.cardBackground,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      marginHorizontal: Spacing.md,
+      marginTop: Spacing.md,
+      padding: Spacing.lg,
+    },
+    summaryRow: {
+      flexDirection: 'row',
+    },
+    stat: {
+      flex: 1,
+    },
+    statValue: {
+      fontSize: Typography.fontSize.lg,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.accentColor,
+    },
+    statLabel: {
+      fontSize: Typography.fontSize.xs,
+      color: colors.textSecondary,
+      marginTop: Spacing.xs,
+    },
+    sectionTitle: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textSecondary,
+      marginBottom: Spacing.sm,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      marginBottom: Spacing.md,
+    },
+    chip: {
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.xs,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      marginEnd: Spacing.sm,
+    },
+    chipActive: {
+      backgroundColor: colors.accentColor,
+      borderColor: colors.accentColor,
+    },
+    chipText: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    chipTextActive: {
+      color: colors.cardBackground,
+    },
+    inputRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: Spacing.md,
+    },
+    input: {
+      flex: 1,
+      height: Layout.searchInputHeight - Spacing.sm,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.borderLight,
+      paddingHorizontal: Spacing.sm,
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    button: {
+      marginStart: Spacing.sm,
+      paddingHorizontal: Spacing.md,
+      paddingVertical: Spacing.sm,
+      borderRadius: 8,
+      backgroundColor: colors.accentColor,
+    },
+    buttonText: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.medium,
+      color: colors.cardBackground,
+    },
+    percentileRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: Spacing.xs,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    percentileLabel: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+    },
+    percentileValue: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textPrimary,
+    },
+    playerSummary: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    playerError: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+    },
+  });
+
+  const loadStats = useCallback(async () => {
+    try {
+      const result = await apiService.getStats({ bucketWidth, percentiles });
+      setStats(result);
+    } catch (error) {
+      console.error('Failed to load stats:', error);
+      setStats(null);
+    }
+  }, [bucketWidth, percentiles]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadStats().finally(() => setIsLoading(false));
+  }, [loadStats]);
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await loadStats();
+    setIsRefreshing(false);
+  }, [loadStats]);
+
+  const applyPercentiles = () => {
+    const parsed = parsePercentiles(percentilesText);
+    if (parsed.length > 0) {
+      setPercentiles(parsed);
+    }
+  };
+
+  const findPlayer = async () => {
+    const username = playerQuery.trim();
+    if (!username) {
+      setPlayer(null);
+      setPlayerError(null);
+      return;
+    }
+
+    try {
+      setPlayer(await apiService.getUser(username, 0));
+      setPlayerError(null);
+    } catch (error) {
+      setPlayer(null);
+      setPlayerError(t('stats.playerNotFound', { username }));
+    }
+  };
+
+  if (isLoading && !stats) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color={colors.accentColor} />
+      </View>
+    );
+  }
+
+  if (!stats) {
+    return (
+      <View style={styles.centerContainer}>
+        <Text style={styles.emptyText}>{t('stats.empty')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={
+        <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+      }
+    >
+      <View style={styles.card}>
+        <View style={styles.summaryRow}>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{formatNumber(stats.total_users)}</Text>
+            <Text style={styles.statLabel}>{t('stats.players')}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>
+              {formatNumber(stats.mean, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}
+            </Text>
+            <Text style={styles.statLabel}>{t('stats.mean')}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{formatNumber(stats.median)}</Text>
+            <Text style={styles.statLabel}>{t('stats.median')}</Text>
+          </View>
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('stats.distribution')}</Text>
+        <View style={styles.chipRow}>
+          {BUCKET_WIDTHS.map((width) => {
+            const isActive = width === bucketWidth;
+            return (
+              <Pressable
+                key={width}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => setBucketWidth(width)}
+              >
+                <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                  {t('stats.bucketWidth', { width })}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        <RatingHistogram
+          buckets={stats.distribution}
+          highlightRating={player?.rating}
+        />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('stats.findPlayer')}</Text>
+        <View style={styles.inputRow}>
+          <TextInput
+            style={styles.input}
+            placeholder={t('stats.usernamePlaceholder')}
+            placeholderTextColor={colors.textSecondary}
+            value={playerQuery}
+            onChangeText={setPlayerQuery}
+            onSubmitEditing={findPlayer}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          <Pressable style={styles.button} onPress={findPlayer}>
+            <Text style={styles.buttonText}>{t('stats.find')}</Text>
+          </Pressable>
+        </View>
+        {player && (
+          <Text style={styles.playerSummary}>
+            {t('stats.playerSummary', {
+              username: player.username,
+              rating: player.rating,
+              rank: player.global_rank,
+              percentile: formatNumber(player.percentile, {
+                minimumFractionDigits: 2,
+                maximumFractionDigits: 2,
+              }),
+            })}
+          </Text>
+        )}
+        {playerError && <Text style={styles.playerError}>{playerError}</Text>}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('stats.cutoffs')}</Text>
+        <View style={styles.inputRow}>
+          <TextInput
+            style={styles.input}
+            value={percentilesText}
+            onChangeText={setPercentilesText}
+            onSubmitEditing={applyPercentiles}
+            keyboardType="numbers-and-punctuation"
+            returnKeyType="done"
+          />
+          <Pressable style={styles.button} onPress={applyPercentiles}>
+            <Text style={styles.buttonText}>{t('stats.apply')}</Text>
+          </Pressable>
+        </View>
+        {stats.percentiles.map((cutoff, index) => (
+          <View key={`${cutoff.percentile}-${index}`} style={styles.percentileRow}>
+            <Text style={styles.percentileLabel}>
+              {t('stats.percentile', { percentile: cutoff.percentile })}
+            </Text>
+            <Text style={styles.percentileValue}>{formatNumber(cutoff.rating)}</Text>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+};
+
+export default StatsScreen;
@@ -0,0 +1,210 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  ActivityIndicator,
+  ListRenderItem,
+} from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import LeaderboardRow from '../components/LeaderboardRow';
+import ErrorState from '../components/ErrorState';
+import { HistoryPoint, SearchResult } from '../types';
+import apiService from '../services/api';
+import { MAX_WATCHLIST_SIZE, useWatchlist } from '../context/WatchlistContext';
+import { useLiveRows } from '../hooks/useLiveRows';
+import { RootStackParamList } from '../navigation/types';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { Spacing, Typography } from '../theme';
+
+// Sparklines cover the last hour
+const SPARKLINE_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Watchlist Screen
+ *
+ * Every starred player with their live rank, best rank first. The whole list
+ * refreshes in one batch lookup (GET /users), so all ranks are from the same
+ * moment and we never fire one prefix search per player. Refreshes whenever the
+ * tab gains focus or the list changes, on pull-down, and rows are patched from
+ * the live stream in between. The same request carries each player's last hour
+ * of history for the row sparklines.
+ *
+ * Starred names the backend doesn't know (renamed or removed players) are listed
+ * separately so they can be cleaned up.
+ *
+ * A failed refresh is shown as a failure with a retry, never as an empty or
+ * silently stale list: it replaces the list when nothing has loaded yet, and
+ * is a banner above the last rows otherwise. A full list (MAX_WATCHLIST_SIZE)
+ * says so at the top, since stars elsewhere stop working until one is removed.
+ */
+const WatchlistScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const { usernames, isWatched, isFull, toggle, remove } = useWatchlist();
+  const [players, setPlayers] = useState<SearchResult[]>([]);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [history, setHistory] = useState<Record<string, HistoryPoint[]>>({});
+  const [error, setError] = useState<unknown>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const navigation =
+    useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centerContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: Spacing.xl,
+      backgroundColor: colors.background,
+    },
+    emptyText: {
+      fontSize: Typography.fontSize.base,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+    fullText: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textSecondary,
+      marginHorizontal: Spacing.md,
+      marginTop: Spacing.md,
+    },
+    missingContainer: {
+      marginHorizontal: Spacing.md,
+      marginTop: Spacing.md,
+    },
+    missingTitle: {
+      fontSize: Typography.fontSize.sm,
+      fontWeight: Typography.fontWeight.bold,
+      color: colors.textSecondary,
+      marginBottom: Spacing.xs,
+    },
+    missingRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      paddingVertical: Spacing.xs,
+    },
+    missingName: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    removeText: {
+      fontSize: Typography.fontSize.sm,
+      color: colors.accentColor,
+    },
+  });
+
+  const loadWatchlist = useCallback(async () => {
+    try {
+      const result = await apiService.getUsers(
+        usernames,
+        Date.now() - SPARKLINE_WINDOW_MS
+      );
+      setPlayers([...result.players].sort((a, b) => a.global_rank - b.global_rank));
+      setMissing(result.missing);
+      setHistory(result.history ?? {});
+      setError(null);
+    } catch (loadError) {
+      console.error('Failed to refresh watchlist:', loadError);
+      setError(loadError);
+    }
+  }, [usernames]);
+
+  // Re-fetch on focus (ranks moved while we were on another tab) and whenever
+  // the set of starred players changes.
+  const reload = useCallback(() => {
+    setIsLoading(true);
+    loadWatchlist().finally(() => setIsLoading(false));
+  }, [loadWatchlist]);
+
+  useFocusEffect(reload);
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await loadWatchlist();
+    setIsRefreshing(false);
+  }, [loadWatchlist]);
+
+  // Drop rows that were unstarred since the last fetch without waiting for it
+  const starred = useMemo(
+    () => players.filter((player) => usernames.includes(player.username)),
+    [players, usernames]
+  );
+  const liveData = useLiveRows(starred, 'global_rank');
+
+  const renderItem: ListRenderItem<SearchResult> = ({ item }) => (
+    <LeaderboardRow
+      rank={item.global_rank}
+      username={item.username}
+      rating={item.rating}
+      onPress={() => navigation.navigate('PlayerProfile', { username: item.username })}
+      isStarred={isWatched(item.username)}
+      onToggleStar={() => toggle(item.username)}
+      sparkline={history[item.username]?.map((point) => point.rating)}
+    />
+  );
+
+  if (usernames.length === 0) {
+    return (
+      <View style={styles.centerContainer}>
+        <Text style={styles.emptyText}>
+          {t('watchlist.empty')}
+        </Text>
+      </View>
+    );
+  }
+
+  if (isLoading && players.length === 0) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color={colors.accentColor} />
+      </View>
+    );
+  }
+
+  if (error && players.length === 0 && !isLoading) {
+    return <ErrorState error={error} onRetry={reload} />;
+  }
+
+  return (
+    <View style={styles.container}>
+      {error !== null && <ErrorState error={error} onRetry={reload} compact />}
+      {isFull && (
+        <Text style={styles.fullText}>{t('watchlist.full', { max: MAX_WATCHLIST_SIZE })}</Text>
+      )}
+      {missing.length > 0 && (
+        <View style={styles.missingContainer}>
+          <Text style={styles.missingTitle}>{t('watchlist.notFound')}</Text>
+          {missing.map((name) => (
+            <View key={name} style={styles.missingRow}>
+              <Text style={styles.missingName}>{name}</Text>
+              <Pressable onPress={() => remove(name)} hitSlop={8}>
+                <Text style={styles.removeText}>{t('watchlist.remove')}</Text>
+              </Pressable>
+            </View>
+          ))}
+        </View>
+      )}
+      <FlatList
+        data={liveData}
+        extraData={usernames}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.username}
+        refreshing={isRefreshing}
+        onRefresh={handleRefresh}
+      />
+    </View>
+  );
+};
+
+export default WatchlistScreen;
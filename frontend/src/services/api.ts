@@ -1,71 +1,375 @@
-import axios, { AxiosInstance } from 'axios';
-import { LeaderboardEntry, SearchResult, LeaderboardStats } from '../types';
-
-// This value is injected at build time by build-inject.js
-// For development, defaults to localhost:8080
-const API_BASE_URL = (process.env.REACT_APP_API_BASE_URL as string) || 'http://localhost:8080';
+import {
+  BoardList,
+  ExportFormat,
+  ImportResult,
+  LeaderboardPage,
+  LeaderboardPageRequest,
+  LeaderboardWindow,
+  LeaderboardWindowRequest,
+  MatchOutcome,
+  MatchReport,
+  SearchResult,
+  SearchMode,
+  LeaderboardStats,
+  BatchLookupResult,
+  Comparison,
+  PlayerProfile,
+  RatingFilter,
+  StatsRequest,
+  UserHistory,
+  UserUpdate,
+} from '../types';
+import { CancelledError, isClientError, toApiError } from './errors';
+import { DataSource, LeaderboardExport, StreamConnection, StreamHandlers } from './dataSource';
+import { HttpDataSource } from './httpSource';
+import { DemoDataSource } from './demo';
 
+/**
+ * Typed client for the leaderboard backend. Every server response is validated
+ * before it's returned, and every failure is rethrown as an ApiError (see
+ * errors.ts), so callers can tell an outage from an empty result.
+ *
+ * The data comes from a DataSource: the backend over HTTP, or in demo mode
+ * the in-app demo engine, which answers the same way with no server. Which
+ * one, the backend URL and the timeout come from the runtime config (see
+ * config.ts), applied with configure() at startup before anything is fetched.
+ */
 class ApiService {
-  private client: AxiosInstance;
+  private http = new HttpDataSource();
+  private demo: DemoDataSource | null = null;
+  private currentBoard: string | null = null;
+  private adminToken: string | null = null;
+
+  private get source(): DataSource {
+    return this.demo ?? this.http;
+  }
+
+  /**
+   * Point the client at a backend, or with `demo` at a freshly seeded demo
+   * engine. Takes effect for the next request; App remounts every screen
+   * when the backend changes, so nothing mixes data from two servers. An
+   * admin token belongs to one server, so a new backend signs out.
+   */
+  configure({ baseURL, timeoutMs, demo }: { baseURL: string; timeoutMs: number; demo: boolean }) {
+    if (demo !== (this.demo !== null) || (!demo && baseURL !== this.http.baseURL)) {
+      this.adminToken = null;
+    }
+    this.http.configure({ baseURL, timeoutMs });
 
-  constructor() {
-    this.client = axios.create({
-      baseURL: API_BASE_URL,
-      timeout: 10000,
-    });
-    console.log('[ApiService] Using API URL:', API_BASE_URL);
+    if (demo && !this.demo) {
+      this.demo = new DemoDataSource();
+    } else if (!demo && this.demo) {
+      this.demo.close();
+      this.demo = null;
+    }
+    console.log('[ApiService] Using', demo ? 'demo data' : `API URL: ${baseURL}`);
   }
 
   /**
-   * Fetch leaderboard with optional limit. We never cache this because
-   * ranks change whenever any user updates. Stale cache = stale ranks.
-   * Backend returns pre-computed ranks, frontend displays as-is.
+   * The board (see getBoards) every request is sent to, or null for the
+   * backend's default. Set through BoardContext so screens re-fetch on a switch.
    */
-  async getLeaderboard(limit: number = 100): Promise<LeaderboardEntry[]> {
+  get board(): string | null {
+    return this.currentBoard;
+  }
+
+  setBoard(id: string | null) {
+    this.currentBoard = id;
+  }
+
+  /**
+   * List the boards the backend serves (game modes, seasons), with their sizes
+   * and which one is the default.
+   */
+  async getBoards(): Promise<BoardList> {
     try {
-      const response = await this.client.get<LeaderboardEntry[]>(
-        `/leaderboard?limit=${limit}`
-      );
-      return response.data || [];
+      return await this.source.getBoards();
+    } catch (error) {
+      console.error('Failed to fetch boards:', error);
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Fetch one page of the leaderboard. Omit `snapshot` for the first page; the
+   * backend freezes the current ordering and returns its id. Pass that id and
+   * `next_offset` back for each following page so pages line up exactly (no
+   * gaps or duplicates) even while ratings change underneath.
+   *
+   * Backend returns pre-computed ranks, frontend displays as-is. Snapshots
+   * expire after a few minutes; see isSnapshotExpired.
+   *
+   * `filter` limits the board to a rating band. Ranks stay global; offsets and
+   * `total` count rows within the band, so pass the same filter for every page.
+   */
+  async getLeaderboard({
+    limit = 100,
+    offset = 0,
+    snapshot,
+    filter,
+  }: LeaderboardPageRequest = {}): Promise<LeaderboardPage> {
+    try {
+      return await this.source.getLeaderboard(this.currentBoard, {
+        limit,
+        offset,
+        snapshot,
+        filter,
+      });
     } catch (error) {
       console.error('Failed to fetch leaderboard:', error);
-      throw error;
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Fetch the rows around a rank or a player (ranks N-radius..N+radius) from a
+   * fresh snapshot, or from `snapshot` if given. The result is an ordinary page
+   * of that snapshot, so callers keep paging from it in either direction.
+   * With `filter`, the window is taken from within that rating band.
+   */
+  async getLeaderboardAround({
+    rank,
+    username,
+    radius = 25,
+    snapshot,
+    filter,
+  }: LeaderboardWindowRequest): Promise<LeaderboardWindow> {
+    try {
+      return await this.source.getLeaderboardAround(this.currentBoard, {
+        rank,
+        username,
+        radius,
+        snapshot,
+        filter,
+      });
+    } catch (error) {
+      console.error('Failed to fetch leaderboard window:', error);
+      throw toApiError(error);
     }
   }
 
   /**
-   * Search users by prefix (case-insensitive). Returns top 50 matches with
+   * The export of the current board (or the `filter` band): every row, no
+   * page cap. From the backend it's the URL of a streamed file download,
+   * returned rather than fetched so the file goes straight to disk (see
+   * services/exporter.ts) instead of through memory. The demo engine has no
+   * URL to offer and returns the file's content instead.
+   */
+  leaderboardExport({
+    format,
+    filter,
+  }: {
+    format: ExportFormat;
+    filter?: RatingFilter;
+  }): LeaderboardExport {
+    try {
+      return this.source.exportLeaderboard(this.currentBoard, { format, filter });
+    } catch (error) {
+      console.error('Failed to export leaderboard:', error);
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Search users by username (case-insensitive). Returns top 50 matches with
    * live-computed ranks. Why recompute on each request? Because between searches,
    * the system might have updated user ratings. Stale rank = wrong answer.
    * Frontend trusts the backend rank completely; no guessing or caching.
+   *
+   * `mode` picks how the query matches: 'prefix' (default), 'substring', or
+   * 'fuzzy' (tolerates a typo or two). Results come most relevant first, each
+   * with a `score` and the `matches` ranges to highlight.
+   *
+   * Aborting `signal` cancels the HTTP request and rejects with CancelledError.
    */
-  async searchUsers(query: string): Promise<SearchResult[]> {
+  async searchUsers(
+    query: string,
+    { mode = 'prefix', signal }: { mode?: SearchMode; signal?: AbortSignal } = {}
+  ): Promise<SearchResult[]> {
     if (!query.trim()) {
       return [];
     }
 
     try {
-      const response = await this.client.get<SearchResult[]>(
-        `/search?username=${encodeURIComponent(query)}`
-      );
-      return response.data || [];
+      return await this.source.searchUsers(this.currentBoard, query, { mode, signal });
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (!(apiError instanceof CancelledError)) {
+        console.error('Failed to search users:', error);
+      }
+      throw apiError;
+    }
+  }
+
+  /**
+   * Look up one player by exact username, along with the players ranked
+   * directly above and below them. Unlike searchUsers this never returns
+   * unrelated prefix matches; an unknown username is a 404.
+   */
+  async getUser(username: string, neighbors: number = 3): Promise<PlayerProfile> {
+    try {
+      return await this.source.getUser(this.currentBoard, username, neighbors);
+    } catch (error) {
+      console.error('Failed to fetch user:', error);
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Fetch a player's rating/rank history, oldest first. The backend keeps the
+   * last 120 points per player: every rating change plus a rank sample each
+   * minute. `since` (unix ms) drops older points.
+   */
+  async getHistory(username: string, since?: number): Promise<UserHistory> {
+    try {
+      return await this.source.getHistory(this.currentBoard, username, since);
     } catch (error) {
-      console.error('Failed to search users:', error);
-      throw error;
+      console.error('Failed to fetch history:', error);
+      throw toApiError(error);
     }
   }
 
   /**
-   * Fetch system stats (e.g., total user count). Useful for debugging
-   * and understanding system state during development.
+   * Look up several players by exact username in one request (max 100). All
+   * ranks come from the same server-side read. Names that don't exist come
+   * back in `missing` rather than failing the whole request.
+   *
+   * Pass `historySince` (unix ms) to also get each player's history points
+   * since then, e.g. for sparklines.
    */
-  async getStats(): Promise<LeaderboardStats> {
+  async getUsers(usernames: string[], historySince?: number): Promise<BatchLookupResult> {
+    if (usernames.length === 0) {
+      return { players: [], missing: [], total_users: 0 };
+    }
+
     try {
-      const response = await this.client.get<LeaderboardStats>('/stats');
-      return response.data;
+      return await this.source.getUsers(this.currentBoard, usernames, historySince);
+    } catch (error) {
+      console.error('Failed to look up users:', error);
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Compare two to four distinct players: their ratings and ranks and the
+   * rating gap and number of players between every pair, all from one
+   * server-side read. An unknown player fails the request (a 404 naming them).
+   *
+   * Pass `historySince` (unix ms) to also get each player's history points
+   * since then.
+   */
+  async compareUsers(usernames: string[], historySince?: number): Promise<Comparison> {
+    try {
+      return await this.source.compareUsers(this.currentBoard, usernames, historySince);
+    } catch (error) {
+      console.error('Failed to compare users:', error);
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Fetch system stats: total user count plus the rating distribution
+   * (histogram in `bucketWidth`-point bins, mean, median and the rating
+   * cutoff for each requested percentile). Omitted options use the backend
+   * defaults (100-point bins; 10/25/50/75/90/99th percentiles).
+   */
+  async getStats({ bucketWidth, percentiles }: StatsRequest = {}): Promise<LeaderboardStats> {
+    try {
+      return await this.source.getStats(this.currentBoard, { bucketWidth, percentiles });
     } catch (error) {
       console.error('Failed to fetch stats:', error);
-      throw error;
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Check an admin token against the backend (GET /admin/session) and, if it's
+   * accepted, use it for the admin calls below. The token is only kept in
+   * memory, so a reload locks the admin tools again. A 401 means a wrong token,
+   * a 403 that the server has no ADMIN_TOKEN configured.
+   */
+  async signInAdmin(token: string): Promise<void> {
+    try {
+      await this.source.checkAdminToken(token);
+      this.adminToken = token;
+    } catch (error) {
+      console.error('Admin sign-in failed:', error);
+      throw toApiError(error);
+    }
+  }
+
+  signOutAdmin() {
+    this.adminToken = null;
+  }
+
+  get isAdmin(): boolean {
+    return this.adminToken !== null;
+  }
+
+  /**
+   * Create a player or set their rating on the current board. Returns their
+   * new standing. Requires signInAdmin.
+   */
+  async upsertUser(update: UserUpdate): Promise<SearchResult> {
+    try {
+      return await this.source.upsertUser(this.currentBoard, update, this.adminToken);
+    } catch (error) {
+      console.error('Failed to save user:', error);
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Remove a player (and their history) from the current board. An unknown
+   * username is a 404. Requires signInAdmin.
+   */
+  async deleteUser(username: string): Promise<void> {
+    try {
+      await this.source.deleteUser(this.currentBoard, username, this.adminToken);
+    } catch (error) {
+      console.error('Failed to delete user:', error);
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Write many players at once (max 10,000). The backend applies every valid
+   * row in one atomic update and reports the rest in `errors`, numbered by
+   * position in `updates`. Requires signInAdmin.
+   */
+  async importUsers(updates: UserUpdate[]): Promise<ImportResult> {
+    try {
+      return await this.source.importUsers(this.currentBoard, updates, this.adminToken);
+    } catch (error) {
+      console.error('Failed to import users:', error);
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Rate a batch of games with Elo on the current board. All games are scored
+   * against the ratings from before the batch and applied atomically; new
+   * ratings are clamped to 100..5000. With `dryRun` nothing is written, which
+   * is how the Record Match screen previews deltas. An unknown player or a bad
+   * K-factor is a 400 naming the game. Requires signInAdmin.
+   */
+  async recordMatches(
+    report: MatchReport,
+    { dryRun = false, signal }: { dryRun?: boolean; signal?: AbortSignal } = {}
+  ): Promise<MatchOutcome> {
+    try {
+      return await this.source.recordMatches(
+        this.currentBoard,
+        report,
+        { dryRun, signal },
+        this.adminToken
+      );
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (!(apiError instanceof CancelledError)) {
+        console.error('Failed to record matches:', error);
+      }
+      throw apiError;
     }
   }
 
@@ -75,12 +379,28 @@ class ApiService {
    */
   async healthCheck(): Promise<boolean> {
     try {
-      await this.client.get('/stats');
+      await this.source.ping();
       return true;
     } catch {
       return false;
     }
   }
+
+  /**
+   * Open the live rating-change feed of the current board, for liveUpdates.
+   * Raw events: the backend's /stream, or the demo engine's simulated traffic.
+   */
+  openStream(handlers: StreamHandlers): StreamConnection {
+    return this.source.openStream(this.currentBoard, handlers);
+  }
+}
+
+/**
+ * True when a paged leaderboard request failed because its snapshot expired
+ * (HTTP 410). Callers should drop what they have and start again from page one.
+ */
+export function isSnapshotExpired(error: unknown): boolean {
+  return isClientError(error, 410);
 }
 
 export default new ApiService();
@@ -0,0 +1,269 @@
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { loadJSON, saveJSON } from './storage';
+
+export interface FeatureFlags {
+  // Patch ratings and ranks from the /stream feed between fetches
+  liveUpdates: boolean;
+  // The Admin tab (rating edits, imports, match entry)
+  admin: boolean;
+  // CSV/JSON export buttons on the leaderboard and search
+  export: boolean;
+  // The developer settings screen (backend switcher), behind a header button
+  developerSettings: boolean;
+}
+
+// A backend the developer settings can switch to
+export interface Environment {
+  name: string;
+  apiBaseUrl: string;
+}
+
+export interface RuntimeConfig {
+  apiBaseUrl: string;
+  // Serve everything from the in-app demo engine instead of apiBaseUrl
+  demo: boolean;
+  timeouts: {
+    // Any single API request
+    requestMs: number;
+  };
+  features: FeatureFlags;
+  environments: Environment[];
+}
+
+// Where the backend in effect (API URL or demo mode) came from, for the
+// developer settings screen
+export type ConfigSource = 'default' | 'app' | 'served' | 'override';
+
+// A backend picked in the developer settings, saved on this device. Each field
+// replaces the configured one; an absent field leaves it alone.
+export interface BackendOverride {
+  apiBaseUrl?: string;
+  demo?: boolean;
+}
+
+export interface LoadedConfig {
+  config: RuntimeConfig;
+  source: ConfigSource;
+  // The backend the config sources chose, before any developer override
+  configured: { apiBaseUrl: string; demo: boolean; source: ConfigSource };
+  override: BackendOverride | null;
+}
+
+const OVERRIDE_KEY = 'backendOverride';
+const SERVED_CONFIG_PATH = '/config.json';
+// A slow or missing config.json must not hold up startup for long
+const SERVED_CONFIG_TIMEOUT_MS = 3000;
+
+export const DefaultConfig: RuntimeConfig = {
+  apiBaseUrl: 'http://localhost:8080',
+  demo: false,
+  timeouts: {
+    requestMs: 10000,
+  },
+  features: {
+    liveUpdates: true,
+    admin: true,
+    export: true,
+    developerSettings: __DEV__,
+  },
+  environments: [
+    { name: 'Local', apiBaseUrl: 'http://localhost:8080' },
+    { name: 'Staging', apiBaseUrl: 'https://matiks-assignment-intern-staging.onrender.com' },
+    { name: 'Production', apiBaseUrl: 'https://matiks-assignment-intern.onrender.com' },
+  ],
+};
+
+type PartialConfig = Partial<Omit<RuntimeConfig, 'timeouts' | 'features'>> & {
+  timeouts?: Partial<RuntimeConfig['timeouts']>;
+  features?: Partial<FeatureFlags>;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isApiUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^https?:\/\/\S+$/.test(value);
+}
+
+// Endpoint paths start with '/', so a base URL must not end with one
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Pick the recognized, well-typed fields out of a config file. Anything else
+ * is dropped with a warning rather than failing startup: a typo in
+ * config.json should cost one setting, not the whole app.
+ */
+export function parseConfig(raw: unknown, origin: string): PartialConfig {
+  if (!isRecord(raw)) {
+    console.warn(`[Config] Ignoring ${origin}: not a JSON object`);
+    return {};
+  }
+
+  const parsed: PartialConfig = {};
+  const skip = (field: string) =>
+    console.warn(`[Config] Ignoring invalid "${field}" in ${origin}`);
+
+  if (raw.apiBaseUrl !== undefined) {
+    if (isApiUrl(raw.apiBaseUrl)) parsed.apiBaseUrl = trimSlash(raw.apiBaseUrl);
+    else skip('apiBaseUrl');
+  }
+
+  if (raw.demo !== undefined) {
+    if (typeof raw.demo === 'boolean') parsed.demo = raw.demo;
+    else skip('demo');
+  }
+
+  if (isRecord(raw.timeouts)) {
+    const { requestMs } = raw.timeouts;
+    if (typeof requestMs === 'number' && requestMs > 0) parsed.timeouts = { requestMs };
+    else if (requestMs !== undefined) skip('timeouts.requestMs');
+  }
+
+  if (isRecord(raw.features)) {
+    const features: Partial<FeatureFlags> = {};
+    for (const flag of Object.keys(DefaultConfig.features) as (keyof FeatureFlags)[]) {
+      const value = raw.features[flag];
+      if (typeof value === 'boolean') features[flag] = value;
+      else if (value !== undefined) skip(`features.${flag}`);
+    }
+    parsed.features = features;
+  }
+
+  if (raw.environments !== undefined) {
+    const valid =
+      Array.isArray(raw.environments) &&
+      raw.environments.every(
+        (entry) => isRecord(entry) && typeof entry.name === 'string' && isApiUrl(entry.apiBaseUrl)
+      );
+    if (valid) parsed.environments = raw.environments as Environment[];
+    else skip('environments');
+  }
+
+  return parsed;
+}
+
+function merge(base: RuntimeConfig, layer: PartialConfig): RuntimeConfig {
+  return {
+    apiBaseUrl: layer.apiBaseUrl ?? base.apiBaseUrl,
+    demo: layer.demo ?? base.demo,
+    timeouts: { ...base.timeouts, ...layer.timeouts },
+    features: { ...base.features, ...layer.features },
+    environments: layer.environments ?? base.environments,
+  };
+}
+
+// `expo.extra.config` in app.json, baked into native builds and Expo Go
+function appConfig(): PartialConfig | null {
+  const extra = Constants.expoConfig?.extra?.config;
+  return extra === undefined ? null : parseConfig(extra, 'app.json extra.config');
+}
+
+// config.json next to index.html on web, so a deploy can be repointed by
+// editing one file. Absent in development, which is fine.
+async function servedConfig(): Promise<PartialConfig | null> {
+  if (Platform.OS !== 'web') return null;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), SERVED_CONFIG_TIMEOUT_MS);
+  try {
+    // A fresh query string each start, so no cache serves an old config
+    const response = await fetch(`${SERVED_CONFIG_PATH}?t=${Date.now()}`, {
+      signal: controller.signal,
+    });
+    if (!response.ok) return null;
+    return parseConfig(await response.json(), SERVED_CONFIG_PATH);
+  } catch (error) {
+    // The dev server answers unknown paths with index.html, which isn't JSON
+    console.warn(`[Config] No usable ${SERVED_CONFIG_PATH}, skipping:`, error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Build the runtime config at startup. Later sources win, field by field:
+ *
+ *   1. DefaultConfig (local backend, every feature on)
+ *   2. app.json `expo.extra.config` (native builds)
+ *   3. /config.json served with the web build
+ *   4. A backend picked in the developer settings (API URL and demo mode
+ *      only, saved on this device)
+ */
+export async function loadRuntimeConfig(): Promise<LoadedConfig> {
+  let config = DefaultConfig;
+  let source: ConfigSource = 'default';
+
+  const layers: [PartialConfig | null, ConfigSource][] = [
+    [appConfig(), 'app'],
+    [await servedConfig(), 'served'],
+  ];
+  for (const [layer, layerSource] of layers) {
+    if (!layer) continue;
+    config = merge(config, layer);
+    if (layer.apiBaseUrl || layer.demo !== undefined) source = layerSource;
+  }
+
+  const configured = { apiBaseUrl: config.apiBaseUrl, demo: config.demo, source };
+  const stored = await loadJSON<unknown>(OVERRIDE_KEY, null);
+  return withOverride({ config, source, configured, override: null }, parseOverride(stored));
+}
+
+// A stored override, or null if there is none or it no longer makes sense
+function parseOverride(raw: unknown): BackendOverride | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const override: BackendOverride = {};
+  if (isApiUrl(raw.apiBaseUrl)) override.apiBaseUrl = trimSlash(raw.apiBaseUrl);
+  if (typeof raw.demo === 'boolean') override.demo = raw.demo;
+  return Object.keys(override).length > 0 ? override : null;
+}
+
+// Apply `override` on top of the configured backend. Fields that match the
+// configured values are dropped, so choosing what the config files say
+// amounts to no override at all.
+function withOverride(loaded: LoadedConfig, override: BackendOverride | null): LoadedConfig {
+  const { configured } = loaded;
+  const effective: BackendOverride = {};
+  if (override?.apiBaseUrl !== undefined && override.apiBaseUrl !== configured.apiBaseUrl) {
+    effective.apiBaseUrl = override.apiBaseUrl;
+  }
+  if (override?.demo !== undefined && override.demo !== configured.demo) {
+    effective.demo = override.demo;
+  }
+  const active = Object.keys(effective).length > 0;
+
+  return {
+    config: {
+      ...loaded.config,
+      apiBaseUrl: effective.apiBaseUrl ?? configured.apiBaseUrl,
+      demo: effective.demo ?? configured.demo,
+    },
+    source: active ? 'override' : configured.source,
+    configured,
+    override: active ? effective : null,
+  };
+}
+
+/**
+ * Save (or with null, clear) the developer's backend override and return the
+ * config it produces. Takes effect through ConfigContext, which re-applies it
+ * and reloads every screen.
+ */
+export async function overrideBackend(
+  loaded: LoadedConfig,
+  override: BackendOverride | null
+): Promise<LoadedConfig> {
+  const apiBaseUrl = override?.apiBaseUrl;
+  const next = withOverride(
+    loaded,
+    apiBaseUrl ? { ...override, apiBaseUrl: trimSlash(apiBaseUrl) } : override
+  );
+  await saveJSON(OVERRIDE_KEY, next.override);
+  return next;
+}
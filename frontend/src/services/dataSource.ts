@@ -0,0 +1,99 @@
+import {
+  BatchLookupResult,
+  BoardList,
+  Comparison,
+  ExportFormat,
+  ImportResult,
+  LeaderboardPage,
+  LeaderboardPageRequest,
+  LeaderboardStats,
+  LeaderboardWindow,
+  LeaderboardWindowRequest,
+  MatchOutcome,
+  MatchReport,
+  PlayerProfile,
+  RatingFilter,
+  SearchMode,
+  SearchResult,
+  StatsRequest,
+  UserHistory,
+  UserUpdate,
+} from '../types';
+
+export interface StreamHandlers {
+  onOpen: () => void;
+  // One rating change, as the JSON the backend sends in a `rating` event
+  onMessage: (data: string) => void;
+  onError: () => void;
+}
+
+export interface StreamConnection {
+  close: () => void;
+}
+
+// A leaderboard export: a URL to download, or the file itself when there is
+// no server to download from
+export type LeaderboardExport = { url: string } | { content: string };
+
+/**
+ * Where ApiService gets its data: the backend over HTTP (HttpDataSource) or
+ * the in-app demo engine (services/demo), picked by the runtime config.
+ *
+ * Each method is one backend endpoint. `board` is the board to read or
+ * write, null for the default one. ApiService fills in defaults and turns
+ * whatever a source throws into an ApiError; a source that can fail like the
+ * backend does (a missing player, an expired snapshot) throws the
+ * ClientError the backend's status would have produced.
+ */
+export interface DataSource {
+  getBoards(): Promise<BoardList>;
+  getLeaderboard(board: string | null, request: LeaderboardPageRequest): Promise<LeaderboardPage>;
+  getLeaderboardAround(
+    board: string | null,
+    request: LeaderboardWindowRequest
+  ): Promise<LeaderboardWindow>;
+  exportLeaderboard(
+    board: string | null,
+    request: { format: ExportFormat; filter?: RatingFilter }
+  ): LeaderboardExport;
+  searchUsers(
+    board: string | null,
+    query: string,
+    options: { mode: SearchMode; signal?: AbortSignal }
+  ): Promise<SearchResult[]>;
+  getUser(board: string | null, username: string, neighbors: number): Promise<PlayerProfile>;
+  getHistory(board: string | null, username: string, since?: number): Promise<UserHistory>;
+  getUsers(
+    board: string | null,
+    usernames: string[],
+    historySince?: number
+  ): Promise<BatchLookupResult>;
+  compareUsers(
+    board: string | null,
+    usernames: string[],
+    historySince?: number
+  ): Promise<Comparison>;
+  getStats(board: string | null, request: StatsRequest): Promise<LeaderboardStats>;
+
+  // Admin calls carry the token from signInAdmin
+  checkAdminToken(token: string): Promise<void>;
+  upsertUser(board: string | null, update: UserUpdate, token: string | null): Promise<SearchResult>;
+  deleteUser(board: string | null, username: string, token: string | null): Promise<void>;
+  importUsers(
+    board: string | null,
+    updates: UserUpdate[],
+    token: string | null
+  ): Promise<ImportResult>;
+  recordMatches(
+    board: string | null,
+    report: MatchReport,
+    options: { dryRun: boolean; signal?: AbortSignal },
+    token: string | null
+  ): Promise<MatchOutcome>;
+
+  // Resolves if the source can serve requests at all
+  ping(): Promise<void>;
+
+  // The live rating-change feed of one board (see liveUpdates.ts)
+  openStream(board: string | null, handlers: StreamHandlers): StreamConnection;
+}
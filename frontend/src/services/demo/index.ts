@@ -0,0 +1,356 @@
+import {
+  BatchLookupResult,
+  BoardList,
+  Comparison,
+  ExportFormat,
+  ImportResult,
+  LeaderboardPage,
+  LeaderboardPageRequest,
+  LeaderboardStats,
+  LeaderboardWindow,
+  LeaderboardWindowRequest,
+  MatchOutcome,
+  MatchReport,
+  PlayerProfile,
+  RatingFilter,
+  SearchMode,
+  SearchResult,
+  StatsRequest,
+  UserHistory,
+  UserUpdate,
+} from '../../types';
+import { CancelledError, ClientError } from '../errors';
+import { DataSource, LeaderboardExport, StreamConnection, StreamHandlers } from '../dataSource';
+import { DemoLeaderboard, MAX_RATING, MIN_RATING, clampRating } from './leaderboard';
+
+// The backend's boards, each seeded with its own random ratings for the same
+// players. Fewer players than the backend's 10,000 per board keeps a couple
+// of hours of history for all three comfortably within a phone's memory.
+const BOARDS = [
+  { id: 'classic', name: 'Classic' },
+  { id: 'blitz', name: 'Blitz' },
+  { id: 'season-4', name: 'Season 4' },
+];
+const SEED_USERS = 1000;
+
+// SimulateTraffic and SampleRanks, per board
+const TRAFFIC_INTERVAL_MS = 1000;
+const TRAFFIC_UPDATES = 10;
+const RANK_SAMPLE_INTERVAL_MS = 60 * 1000;
+
+// The backend's request defaults and caps
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+const DEFAULT_WINDOW_RADIUS = 25;
+const MAX_WINDOW_RADIUS = 500;
+const DEFAULT_NEIGHBORS = 3;
+const MAX_NEIGHBORS = 10;
+const MAX_BATCH_LOOKUP = 100;
+const MIN_COMPARE_PLAYERS = 2;
+const MAX_COMPARE_PLAYERS = 4;
+const DEFAULT_STATS_BUCKET_WIDTH = 100;
+const MAX_STATS_BUCKET_WIDTH = 1000;
+const MAX_STATS_PERCENTILES = 20;
+const DEFAULT_STATS_PERCENTILES = [10, 25, 50, 75, 90, 99];
+const MAX_IMPORT_ROWS = 10000;
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
+
+// min_rating/max_rating: open bounds are the whole range, others are clamped
+function ratingRange(filter?: RatingFilter): [number, number] {
+  const minRating = clampRating(filter?.minRating ?? MIN_RATING);
+  const maxRating = clampRating(filter?.maxRating ?? MAX_RATING);
+  if (minRating > maxRating) {
+    throw new ClientError(400, 'min_rating must not exceed max_rating');
+  }
+  return [minRating, maxRating];
+}
+
+// A numeric parameter, or its default when missing or out of range
+function within(value: number | undefined, min: number, max: number, fallback: number): number {
+  return value === undefined || value < min || value > max ? fallback : value;
+}
+
+// Go's encoding/csv quoting
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]|^[ \t]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 3339 in UTC without milliseconds, as the backend writes exported_at
+function exportTimestamp(ms: number): string {
+  return new Date(ms).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * The backend, simulated in the app: three boards of random players whose
+ * ratings keep changing, so every screen works (live updates and admin
+ * tools included) with no server at all. For demos, design work and tests.
+ *
+ * Requests get what the HTTP endpoints would answer, parameter checks and
+ * status codes included (an unknown player is a 404, an expired snapshot a
+ * 410). Any admin token is accepted. Nothing is saved: a new DemoDataSource
+ * starts from a freshly seeded set of boards.
+ */
+export class DemoDataSource implements DataSource {
+  private boards = new Map<string, DemoLeaderboard>();
+  private timers: ReturnType<typeof setInterval>[] = [];
+
+  constructor() {
+    for (const { id } of BOARDS) {
+      const lb = new DemoLeaderboard();
+      lb.seed(SEED_USERS);
+      this.boards.set(id, lb);
+      this.timers.push(
+        setInterval(() => lb.simulateTraffic(TRAFFIC_UPDATES), TRAFFIC_INTERVAL_MS),
+        setInterval(() => lb.recordRankSample(), RANK_SAMPLE_INTERVAL_MS)
+      );
+    }
+  }
+
+  // Stop the simulated traffic. The source can't be used afterwards.
+  close() {
+    this.timers.forEach(clearInterval);
+    this.timers = [];
+  }
+
+  private board(id: string | null): DemoLeaderboard {
+    const lb = this.boards.get(id ?? BOARDS[0].id);
+    if (!lb) {
+      throw new ClientError(404, 'unknown board');
+    }
+    return lb;
+  }
+
+  async getBoards(): Promise<BoardList> {
+    return {
+      boards: BOARDS.map(({ id, name }) => ({ id, name, total_users: this.board(id).size })),
+      default: BOARDS[0].id,
+    };
+  }
+
+  async getLeaderboard(
+    board: string | null,
+    { limit, offset, snapshot, filter }: LeaderboardPageRequest
+  ): Promise<LeaderboardPage> {
+    const lb = this.board(board);
+    const [minRating, maxRating] = ratingRange(filter);
+    return this.snapshot(lb, snapshot)
+      .filter(minRating, maxRating)
+      .page(
+        Math.max(0, offset ?? 0),
+        within(limit, 1, MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE)
+      );
+  }
+
+  async getLeaderboardAround(
+    board: string | null,
+    { rank, username, radius, snapshot, filter }: LeaderboardWindowRequest
+  ): Promise<LeaderboardWindow> {
+    const lb = this.board(board);
+    if (rank === undefined && !username) {
+      throw new ClientError(400, 'rank or username query parameter required');
+    }
+    const [minRating, maxRating] = ratingRange(filter);
+    const snap = this.snapshot(lb, snapshot).filter(minRating, maxRating);
+
+    let index: number;
+    if (username) {
+      index = snap.indexOfUser(username);
+      if (index < 0) {
+        throw new ClientError(404, 'user not found');
+      }
+    } else {
+      if (rank === undefined || rank < 1) {
+        throw new ClientError(400, 'rank must be a positive integer');
+      }
+      index = snap.indexOfRank(rank);
+    }
+    return snap.window(index, within(radius, 0, MAX_WINDOW_RADIUS, DEFAULT_WINDOW_RADIUS));
+  }
+
+  // The file /leaderboard/export would have streamed
+  exportLeaderboard(
+    board: string | null,
+    { format, filter }: { format: ExportFormat; filter?: RatingFilter }
+  ): LeaderboardExport {
+    const [minRating, maxRating] = ratingRange(filter);
+    const snap = this.board(board).takeSnapshot().filter(minRating, maxRating);
+    const exportedAt = exportTimestamp(snap.createdAt);
+
+    if (format === 'csv') {
+      const lines = [['rank', 'username', 'rating', 'exported_at']].concat(
+        snap.rows.map((row) => [String(row.rank), row.username, String(row.rating), exportedAt])
+      );
+      return { content: lines.map((line) => line.map(csvField).join(',') + '\n').join('') };
+    }
+    return {
+      content:
+        JSON.stringify({ exported_at: exportedAt, total: snap.rows.length, entries: snap.rows }) +
+        '\n',
+    };
+  }
+
+  async searchUsers(
+    board: string | null,
+    query: string,
+    { mode, signal }: { mode: SearchMode; signal?: AbortSignal }
+  ): Promise<SearchResult[]> {
+    throwIfAborted(signal);
+    if (!query) {
+      throw new ClientError(400, 'username query parameter required');
+    }
+    return this.board(board).searchUsers(query, mode);
+  }
+
+  async getUser(board: string | null, username: string, neighbors: number): Promise<PlayerProfile> {
+    const profile = this.board(board).getPlayerProfile(
+      username,
+      within(neighbors, 0, MAX_NEIGHBORS, DEFAULT_NEIGHBORS)
+    );
+    if (!profile) {
+      throw new ClientError(404, 'user not found');
+    }
+    return profile;
+  }
+
+  async getHistory(board: string | null, username: string, since?: number): Promise<UserHistory> {
+    const history = this.board(board).getHistory(username, since ?? 0);
+    if (!history) {
+      throw new ClientError(404, 'user not found');
+    }
+    return history;
+  }
+
+  async getUsers(
+    board: string | null,
+    usernames: string[],
+    historySince?: number
+  ): Promise<BatchLookupResult> {
+    const lb = this.board(board);
+    if (usernames.length === 0) {
+      throw new ClientError(400, 'at least one username query parameter required');
+    }
+    if (usernames.length > MAX_BATCH_LOOKUP) {
+      throw new ClientError(400, `at most ${MAX_BATCH_LOOKUP} usernames per request`);
+    }
+    return lb.lookupUsers(usernames, historySince ?? 0);
+  }
+
+  async compareUsers(
+    board: string | null,
+    usernames: string[],
+    historySince?: number
+  ): Promise<Comparison> {
+    const lb = this.board(board);
+    if (usernames.length < MIN_COMPARE_PLAYERS || usernames.length > MAX_COMPARE_PLAYERS) {
+      throw new ClientError(
+        400,
+        `between ${MIN_COMPARE_PLAYERS} and ${MAX_COMPARE_PLAYERS} username query parameters required`
+      );
+    }
+    if (new Set(usernames).size !== usernames.length) {
+      throw new ClientError(400, 'usernames must be distinct');
+    }
+    const result = lb.comparePlayers(usernames, historySince ?? 0);
+    if ('missing' in result) {
+      throw new ClientError(404, `user not found: ${result.missing.join(', ')}`);
+    }
+    return result.comparison;
+  }
+
+  async getStats(
+    board: string | null,
+    { bucketWidth, percentiles = DEFAULT_STATS_PERCENTILES }: StatsRequest
+  ): Promise<LeaderboardStats> {
+    const lb = this.board(board);
+    if (percentiles.length > MAX_STATS_PERCENTILES) {
+      throw new ClientError(400, `at most ${MAX_STATS_PERCENTILES} percentiles allowed`);
+    }
+    if (percentiles.some((p) => !(p > 0 && p <= 100))) {
+      throw new ClientError(400, 'percentiles must be numbers in (0, 100]');
+    }
+    return lb.getStats(
+      within(bucketWidth, 1, MAX_STATS_BUCKET_WIDTH, DEFAULT_STATS_BUCKET_WIDTH),
+      percentiles
+    );
+  }
+
+  async checkAdminToken(): Promise<void> {}
+
+  async upsertUser(board: string | null, update: UserUpdate): Promise<SearchResult> {
+    return this.board(board).setUser(update);
+  }
+
+  async deleteUser(board: string | null, username: string): Promise<void> {
+    const lb = this.board(board);
+    if (!username) {
+      throw new ClientError(400, 'username query parameter required');
+    }
+    if (!lb.removeUser(username)) {
+      throw new ClientError(404, 'user not found');
+    }
+  }
+
+  async importUsers(board: string | null, updates: UserUpdate[]): Promise<ImportResult> {
+    const lb = this.board(board);
+    if (updates.length === 0) {
+      throw new ClientError(400, 'import has no rows');
+    }
+    if (updates.length > MAX_IMPORT_ROWS) {
+      throw new ClientError(400, `import has more than ${MAX_IMPORT_ROWS} rows`);
+    }
+    return lb.importUsers(updates);
+  }
+
+  async recordMatches(
+    board: string | null,
+    report: MatchReport,
+    { dryRun, signal }: { dryRun: boolean; signal?: AbortSignal }
+  ): Promise<MatchOutcome> {
+    throwIfAborted(signal);
+    return this.board(board).recordMatches(report, dryRun);
+  }
+
+  async ping(): Promise<void> {}
+
+  /**
+   * Rating changes from the board's simulated traffic and admin writes, as
+   * the JSON /stream would send. Opens on the next tick, like a connection.
+   */
+  openStream(board: string | null, { onOpen, onMessage, onError }: StreamHandlers): StreamConnection {
+    let unsubscribe = () => {};
+    const timer = setTimeout(() => {
+      try {
+        unsubscribe = this.board(board).subscribe((change) => onMessage(JSON.stringify(change)));
+      } catch {
+        onError();
+        return;
+      }
+      onOpen();
+    }, 0);
+
+    return {
+      close: () => {
+        clearTimeout(timer);
+        unsubscribe();
+      },
+    };
+  }
+
+  // The snapshot a page request names, or a fresh one; a stale id is a 410
+  private snapshot(lb: DemoLeaderboard, id?: string) {
+    if (!id) {
+      return lb.takeSnapshot();
+    }
+    const snap = lb.getSnapshot(id);
+    if (!snap) {
+      throw new ClientError(410, 'snapshot expired');
+    }
+    return snap;
+  }
+}
@@ -0,0 +1,671 @@
+import {
+  BatchLookupResult,
+  Comparison,
+  HistoryPoint,
+  ImportResult,
+  ImportRowError,
+  LeaderboardEntry,
+  LeaderboardPage,
+  LeaderboardStats,
+  LeaderboardWindow,
+  MatchOutcome,
+  MatchReport,
+  PlayerProfile,
+  RatingChangeEvent,
+  SearchMode,
+  SearchResult,
+  UserHistory,
+  UserUpdate,
+} from '../../types';
+import { ClientError } from '../errors';
+import { matchUsername } from './search';
+
+// The backend's limits (backend/main.go), so the demo behaves the same
+export const MIN_RATING = 100;
+export const MAX_RATING = 5000;
+const SEARCH_LIMIT = 50;
+const HISTORY_LIMIT = 120;
+const SNAPSHOT_TTL_MS = 5 * 60 * 1000;
+const MAX_SNAPSHOTS = 32;
+const MAX_USERNAME_LENGTH = 32;
+const DEFAULT_K_FACTOR = 32;
+const MAX_K_FACTOR = 100;
+const MAX_MATCH_GAMES = 100;
+
+// A player's rating is drawn uniformly from the whole range, as the backend seeds
+export function randomRating(): number {
+  return MIN_RATING + Math.floor(Math.random() * (MAX_RATING - MIN_RATING + 1));
+}
+
+export function clampRating(rating: number): number {
+  return Math.min(MAX_RATING, Math.max(MIN_RATING, rating));
+}
+
+// Go's math.Round: halves round away from zero, so -0.5 is -1 (Math.round says -0)
+function roundHalfAway(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value));
+}
+
+function codePoints(text: string): string[] {
+  return Array.from(text.toLowerCase());
+}
+
+/**
+ * A frozen, fully ordered copy of a board that pages are read from. Rows keep
+ * the ranks they had when it was taken. A filtered snapshot shares the id and
+ * global ranks of the one it came from.
+ */
+class DemoSnapshot {
+  constructor(
+    readonly id: string,
+    readonly version: number,
+    readonly createdAt: number,
+    readonly rows: LeaderboardEntry[]
+  ) {}
+
+  page(offset: number, limit: number): LeaderboardPage {
+    const total = this.rows.length;
+    const start = Math.min(offset, total);
+    const end = Math.min(start + limit, total);
+    return {
+      entries: this.rows.slice(start, end),
+      snapshot: this.id,
+      created_at: this.createdAt,
+      offset: start,
+      next_offset: end,
+      has_more: end < total,
+      total,
+    };
+  }
+
+  // Rows are sorted by rating, so the band is one contiguous run
+  filter(minRating: number, maxRating: number): DemoSnapshot {
+    if (minRating <= MIN_RATING && maxRating >= MAX_RATING) {
+      return this;
+    }
+    const start = this.firstIndex((row) => row.rating <= maxRating);
+    const end = Math.max(start, this.firstIndex((row) => row.rating < minRating));
+    return new DemoSnapshot(this.id, this.version, this.createdAt, this.rows.slice(start, end));
+  }
+
+  // The first row ranked at or below `rank`; past the bottom, the last row
+  indexOfRank(rank: number): number {
+    const index = this.firstIndex((row) => row.rank >= rank);
+    return index === this.rows.length && index > 0 ? index - 1 : index;
+  }
+
+  indexOfUser(username: string): number {
+    return this.rows.findIndex((row) => row.username === username);
+  }
+
+  // The rows within `radius` of index, clipped at both ends
+  window(index: number, radius: number): LeaderboardWindow {
+    const start = Math.max(0, index - radius);
+    return { ...this.page(start, index - start + radius + 1), target_index: index - start };
+  }
+
+  // Binary search for the first row where `test` holds; `test` must be
+  // false for a prefix of the rows and true for the rest
+  private firstIndex(test: (row: LeaderboardEntry) => boolean): number {
+    let lo = 0;
+    let hi = this.rows.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (test(this.rows[mid])) hi = mid;
+      else lo = mid + 1;
+    }
+    return lo;
+  }
+}
+
+/**
+ * One board of the demo, a TypeScript port of the backend's Leaderboard: the
+ * same rating buckets, competition ranking, tie order, snapshots, history,
+ * search scoring, Elo and validation messages, in memory and single-threaded.
+ * Anything the app sees from it, it could have seen from the server.
+ */
+export class DemoLeaderboard {
+  private users = new Map<string, number>();
+  // Index = rating, value = players at that rating
+  private buckets = new Int32Array(MAX_RATING + 1);
+  private history = new Map<string, HistoryPoint[]>();
+  private listeners = new Set<(change: RatingChangeEvent) => void>();
+  // Bumped on every write, so a snapshot can tell it's out of date
+  private version = 0;
+  private snapSeq = 0;
+  private snapshots = new Map<string, DemoSnapshot>();
+
+  get size(): number {
+    return this.users.size;
+  }
+
+  /**
+   * Fill an empty board with `count` players at random ratings. Unlike
+   * setRating this neither records history nor publishes: the board starts
+   * with one rank sample per player, as the backend's does after seeding.
+   */
+  seed(count: number) {
+    for (let i = 0; i < count; i++) {
+      const rating = randomRating();
+      this.users.set(`user_${i}`, rating);
+      this.buckets[rating]++;
+    }
+    this.version++;
+    this.recordRankSample();
+  }
+
+  /**
+   * Rank = 1 + players rated higher, so tied players share a rank and the
+   * next one down skips past them (competition ranking). O(K) in the rating
+   * range, not the player count, like the backend's CalculateRank.
+   */
+  calculateRank(rating: number): number {
+    let sum = 0;
+    for (let r = MAX_RATING; r > rating; r--) {
+      sum += this.buckets[r];
+    }
+    return 1 + sum;
+  }
+
+  // above[r] = players rated higher than r: every rank from one O(K) pass, for
+  // reads that rank many players at once
+  private ranksAbove(): Int32Array {
+    const above = new Int32Array(MAX_RATING + 1);
+    for (let r = MAX_RATING - 1; r >= MIN_RATING; r--) {
+      above[r] = above[r + 1] + this.buckets[r + 1];
+    }
+    return above;
+  }
+
+  /**
+   * Move a player (new or existing) to `rating`, record it in their history
+   * and publish it to subscribers. Returns their new rank. `rating` must
+   * already be valid.
+   */
+  setRating(username: string, rating: number, now = Date.now()): number {
+    const oldRating = this.users.get(username);
+    if (oldRating !== undefined) {
+      this.buckets[oldRating]--;
+    }
+    this.buckets[rating]++;
+    this.users.set(username, rating);
+    this.version++;
+
+    const rank = this.calculateRank(rating);
+    this.recordHistory(username, { timestamp: now, rating, rank });
+    this.publish({
+      username,
+      old_rating: oldRating ?? 0,
+      rating,
+      global_rank: rank,
+      timestamp: now,
+    });
+    return rank;
+  }
+
+  // Give up to `count` random players a random new rating (SimulateTraffic)
+  simulateTraffic(count: number) {
+    const usernames = Array.from(this.users.keys());
+    for (let i = 0; i < Math.min(count, usernames.length); i++) {
+      const username = usernames[Math.floor(Math.random() * usernames.length)];
+      this.setRating(username, randomRating());
+    }
+  }
+
+  setUser(update: UserUpdate): SearchResult {
+    const error = validateUserUpdate(update);
+    if (error) {
+      throw new ClientError(400, error);
+    }
+    const rank = this.setRating(update.username, update.rating);
+    return { username: update.username, rating: update.rating, global_rank: rank };
+  }
+
+  // Nothing is published: clients drop the row on their next fetch
+  removeUser(username: string): boolean {
+    const rating = this.users.get(username);
+    if (rating === undefined) {
+      return false;
+    }
+    this.buckets[rating]--;
+    this.users.delete(username);
+    this.history.delete(username);
+    this.version++;
+    return true;
+  }
+
+  /**
+   * Rate a batch of games with Elo, every game against the ratings from
+   * before the batch, so order doesn't matter. Deltas are summed per player,
+   * rounded and clamped. With dryRun nothing is written.
+   */
+  recordMatches(report: MatchReport, dryRun: boolean): MatchOutcome {
+    const kFactor = report.kFactor || DEFAULT_K_FACTOR;
+    if (kFactor < 1 || kFactor > MAX_K_FACTOR) {
+      throw new ClientError(400, `k_factor must be between 1 and ${MAX_K_FACTOR}`);
+    }
+    if (report.games.length === 0) {
+      throw new ClientError(400, 'at least one game required');
+    }
+    if (report.games.length > MAX_MATCH_GAMES) {
+      throw new ClientError(400, `at most ${MAX_MATCH_GAMES} games per request`);
+    }
+
+    const shifts = new Map<string, number>();
+    report.games.forEach((game, i) => {
+      if (game.winner === game.loser) {
+        throw new ClientError(400, `game ${i + 1}: a player can't play themselves`);
+      }
+      for (const username of [game.winner, game.loser]) {
+        if (!this.users.has(username)) {
+          throw new ClientError(400, `game ${i + 1}: unknown player ${JSON.stringify(username)}`);
+        }
+        if (!shifts.has(username)) {
+          shifts.set(username, 0);
+        }
+      }
+
+      // Expected score: the chance the winner had of winning, from the gap
+      const winner = this.users.get(game.winner)!;
+      const loser = this.users.get(game.loser)!;
+      const expected = 1 / (1 + Math.pow(10, (loser - winner) / 400));
+      const shift = kFactor * ((game.draw ? 0.5 : 1) - expected);
+      shifts.set(game.winner, shifts.get(game.winner)! + shift);
+      shifts.set(game.loser, shifts.get(game.loser)! - shift);
+    });
+
+    const changes = Array.from(shifts, ([username, shift]) => {
+      const oldRating = this.users.get(username)!;
+      const rating = clampRating(oldRating + roundHalfAway(shift));
+      return { username, old_rating: oldRating, rating, delta: rating - oldRating };
+    });
+    if (dryRun) {
+      return { k_factor: kFactor, applied: false, changes };
+    }
+
+    const now = Date.now();
+    for (const change of changes) {
+      if (change.delta !== 0) {
+        this.setRating(change.username, change.rating, now);
+      }
+    }
+    // Ranks only after every write, so they reflect the whole batch
+    return {
+      k_factor: kFactor,
+      applied: true,
+      changes: changes.map((change) => ({
+        ...change,
+        global_rank: this.calculateRank(change.rating),
+      })),
+    };
+  }
+
+  // Write every valid row; report the invalid ones and repeats by row number
+  importUsers(updates: UserUpdate[]): ImportResult {
+    const errors: ImportRowError[] = [];
+    const valid: UserUpdate[] = [];
+    const firstRow = new Map<string, number>();
+
+    updates.forEach((update, i) => {
+      const row = i + 1;
+      const error = validateUserUpdate(update);
+      if (error) {
+        errors.push({ row, username: update.username || undefined, error });
+        return;
+      }
+      const first = firstRow.get(update.username);
+      if (first !== undefined) {
+        errors.push({ row, username: update.username, error: `duplicate of row ${first}` });
+        return;
+      }
+      firstRow.set(update.username, row);
+      valid.push(update);
+    });
+
+    const now = Date.now();
+    for (const update of valid) {
+      this.setRating(update.username, update.rating, now);
+    }
+    return { imported: valid.length, errors };
+  }
+
+  private recordHistory(username: string, point: HistoryPoint) {
+    const points = this.history.get(username) ?? [];
+    points.push(point);
+    if (points.length > HISTORY_LIMIT) {
+      points.splice(0, points.length - HISTORY_LIMIT);
+    }
+    this.history.set(username, points);
+  }
+
+  private historySince(username: string, since: number): HistoryPoint[] {
+    return (this.history.get(username) ?? []).filter((point) => point.timestamp >= since);
+  }
+
+  getHistory(username: string, since: number): UserHistory | null {
+    if (!this.users.has(username)) {
+      return null;
+    }
+    return { username, points: this.historySince(username, since) };
+  }
+
+  // A point for every player, since ranks move when *others* change
+  recordRankSample() {
+    const above = this.ranksAbove();
+    const now = Date.now();
+    this.users.forEach((rating, username) => {
+      this.recordHistory(username, { timestamp: now, rating, rank: above[rating] + 1 });
+    });
+  }
+
+  subscribe(listener: (change: RatingChangeEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private publish(change: RatingChangeEvent) {
+    this.listeners.forEach((listener) => listener(change));
+  }
+
+  /**
+   * Case-insensitive search with live ranks: most relevant first, then
+   * highest rated, at most SEARCH_LIMIT results.
+   */
+  searchUsers(query: string, mode: SearchMode): SearchResult[] {
+    const pattern = codePoints(query);
+    const above = this.ranksAbove();
+    const matches: SearchResult[] = [];
+
+    this.users.forEach((rating, username) => {
+      const match = matchUsername(pattern, codePoints(username), mode);
+      if (match) {
+        matches.push({
+          username,
+          rating,
+          global_rank: above[rating] + 1,
+          score: match.score,
+          matches: match.ranges,
+        });
+      }
+    });
+
+    matches.sort((a, b) => b.score! - a.score! || b.rating - a.rating);
+    return matches.slice(0, SEARCH_LIMIT);
+  }
+
+  /**
+   * The rows at positions [offset, offset+count) in leaderboard order (rating
+   * descending, ties alphabetical). Bucket counts say which rating band covers
+   * those positions, so only players inside it are collected and sorted.
+   */
+  private rowsAt(offset: number, count: number): LeaderboardEntry[] {
+    if (offset < 0) {
+      count += offset;
+      offset = 0;
+    }
+    if (count <= 0) {
+      return [];
+    }
+
+    const end = offset + count;
+    let seen = 0;
+    let hi = -1;
+    let lo = MIN_RATING;
+    for (let rating = MAX_RATING; rating >= MIN_RATING; rating--) {
+      const n = this.buckets[rating];
+      if (n === 0) continue;
+      if (hi === -1 && seen + n > offset) hi = rating;
+      seen += n;
+      if (seen >= end) {
+        lo = rating;
+        break;
+      }
+    }
+    if (hi === -1) {
+      return [];
+    }
+
+    const byRating = new Map<number, string[]>();
+    this.users.forEach((rating, username) => {
+      if (rating >= lo && rating <= hi) {
+        const names = byRating.get(rating);
+        if (names) names.push(username);
+        else byRating.set(rating, [username]);
+      }
+    });
+
+    const rows: LeaderboardEntry[] = [];
+    let pos = this.calculateRank(hi) - 1; // players ranked above the band
+    for (let rating = hi; rating >= lo && rows.length < count; rating--) {
+      const names = (byRating.get(rating) ?? []).sort();
+      const rank = pos + 1;
+      for (const username of names) {
+        if (pos >= offset && rows.length < count) {
+          rows.push({ rank, username, rating });
+        }
+        pos++;
+      }
+    }
+    return rows;
+  }
+
+  // Zero-based position in leaderboard order: rank, plus tied players that
+  // sort before this one
+  private position(username: string, rating: number): number {
+    let pos = this.calculateRank(rating) - 1;
+    this.users.forEach((other, name) => {
+      if (other === rating && name < username) pos++;
+    });
+    return pos;
+  }
+
+  getPlayerProfile(username: string, neighbors: number): PlayerProfile | null {
+    const rating = this.users.get(username);
+    if (rating === undefined) {
+      return null;
+    }
+
+    const total = this.users.size;
+    const rank = this.calculateRank(rating);
+    const percentile = ((total - rank + 1) / total) * 100;
+    const pos = this.position(username, rating);
+    const aboveStart = Math.max(0, pos - neighbors);
+
+    return {
+      username,
+      rating,
+      global_rank: rank,
+      percentile: Math.round(percentile * 100) / 100,
+      total_users: total,
+      above: this.rowsAt(aboveStart, pos - aboveStart),
+      below: this.rowsAt(pos + 1, neighbors),
+    };
+  }
+
+  /**
+   * Freeze the current ordering for paging, reusing the newest snapshot if
+   * nothing has changed since. Expired snapshots are dropped, then the
+   * oldest while there are too many.
+   */
+  takeSnapshot(): DemoSnapshot {
+    const now = Date.now();
+    for (const snap of this.snapshots.values()) {
+      if (snap.version === this.version && now - snap.createdAt < SNAPSHOT_TTL_MS) {
+        return snap;
+      }
+    }
+
+    this.snapSeq++;
+    const snap = new DemoSnapshot(
+      `${this.snapSeq}.${this.version}`,
+      this.version,
+      now,
+      this.rowsAt(0, this.users.size)
+    );
+
+    for (const [id, old] of this.snapshots) {
+      if (now - old.createdAt >= SNAPSHOT_TTL_MS) {
+        this.snapshots.delete(id);
+      }
+    }
+    // Map iteration is insertion order, so the first key is the oldest
+    while (this.snapshots.size >= MAX_SNAPSHOTS) {
+      this.snapshots.delete(this.snapshots.keys().next().value!);
+    }
+
+    this.snapshots.set(snap.id, snap);
+    return snap;
+  }
+
+  getSnapshot(id: string): DemoSnapshot | null {
+    const snap = this.snapshots.get(id);
+    if (!snap || Date.now() - snap.createdAt >= SNAPSHOT_TTL_MS) {
+      return null;
+    }
+    return snap;
+  }
+
+  // Exact usernames in request order, all ranked at the same moment
+  lookupUsers(usernames: string[], historySince: number): BatchLookupResult {
+    const result: BatchLookupResult = { players: [], missing: [], total_users: this.users.size };
+    const seen = new Set<string>();
+
+    for (const username of usernames) {
+      if (seen.has(username)) continue;
+      seen.add(username);
+
+      const rating = this.users.get(username);
+      if (rating === undefined) {
+        result.missing.push(username);
+        continue;
+      }
+      result.players.push({ username, rating, global_rank: this.calculateRank(rating) });
+
+      if (historySince > 0) {
+        result.history = result.history ?? {};
+        result.history[username] = this.historySince(username, historySince);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Distinct players and the gap between every pair, read at one moment, or
+   * the usernames that don't exist. players_between counts players rated
+   * strictly between the two, with the same O(K) bucket walk as a rank.
+   */
+  comparePlayers(
+    usernames: string[],
+    historySince: number
+  ): { comparison: Comparison } | { missing: string[] } {
+    const missing = usernames.filter((username) => !this.users.has(username));
+    if (missing.length > 0) {
+      return { missing };
+    }
+
+    const players = usernames.map((username) => {
+      const rating = this.users.get(username) as number;
+      return { username, rating, global_rank: this.calculateRank(rating) };
+    });
+    const comparison: Comparison = { players, gaps: [], total_users: this.users.size };
+
+    players.forEach((player, i) => {
+      for (const other of players.slice(i + 1)) {
+        const [higher, lower] = other.rating > player.rating ? [other, player] : [player, other];
+        let between = 0;
+        for (let r = lower.rating + 1; r < higher.rating; r++) {
+          between += this.buckets[r];
+        }
+        comparison.gaps.push({
+          higher: higher.username,
+          lower: lower.username,
+          rating_gap: higher.rating - lower.rating,
+          players_between: between,
+        });
+      }
+
+      if (historySince > 0) {
+        comparison.history = comparison.history ?? {};
+        comparison.history[player.username] = this.historySince(player.username, historySince);
+      }
+    });
+    return { comparison };
+  }
+
+  /**
+   * Rating histogram in bucketWidth-point bins, mean, median and
+   * nearest-rank percentile cutoffs (the rating of the player at position
+   * ceil(p/100 * N), counting from the lowest rating up).
+   */
+  getStats(bucketWidth: number, percentiles: number[]): LeaderboardStats {
+    const total = this.users.size;
+    const stats: LeaderboardStats = {
+      total_users: total,
+      mean: 0,
+      median: 0,
+      bucket_width: bucketWidth,
+      distribution: [],
+      percentiles: [],
+    };
+
+    let sum = 0;
+    for (let start = MIN_RATING; start <= MAX_RATING; start += bucketWidth) {
+      const end = Math.min(start + bucketWidth - 1, MAX_RATING);
+      let count = 0;
+      for (let rating = start; rating <= end; rating++) {
+        count += this.buckets[rating];
+        sum += rating * this.buckets[rating];
+      }
+      stats.distribution.push({ min_rating: start, max_rating: end, count });
+    }
+
+    if (total === 0) {
+      return stats;
+    }
+
+    stats.mean = Math.round((sum / total) * 100) / 100;
+
+    // Rating of the player at 1-based position `pos`, lowest rating first
+    const ratingAt = (pos: number) => {
+      let seen = 0;
+      for (let rating = MIN_RATING; rating <= MAX_RATING; rating++) {
+        seen += this.buckets[rating];
+        if (seen >= pos) return rating;
+      }
+      return MAX_RATING;
+    };
+
+    const half = Math.floor(total / 2);
+    stats.median =
+      total % 2 === 1 ? ratingAt(half + 1) : (ratingAt(half) + ratingAt(half + 1)) / 2;
+
+    stats.percentiles = percentiles.map((percentile) => ({
+      percentile,
+      rating: ratingAt(Math.max(1, Math.ceil((percentile / 100) * total))),
+    }));
+    return stats;
+  }
+}
+
+// Same checks and messages as the backend's validateUserUpdate, plus the
+// whole-number rating its JSON decoding enforces; null if valid
+function validateUserUpdate({ username, rating }: UserUpdate): string | null {
+  if (username === '') {
+    return 'username is required';
+  }
+  if (username.trim() !== username) {
+    return 'username has leading or trailing whitespace';
+  }
+  if (Array.from(username).length > MAX_USERNAME_LENGTH) {
+    return `username is longer than ${MAX_USERNAME_LENGTH} characters`;
+  }
+  if (!Number.isInteger(rating)) {
+    return 'rating must be a whole number';
+  }
+  if (rating < MIN_RATING || rating > MAX_RATING) {
+    return `rating must be between ${MIN_RATING} and ${MAX_RATING}`;
+  }
+  return null;
+}
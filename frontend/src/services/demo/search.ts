@@ -0,0 +1,146 @@
+import { SearchMode } from '../../types';
+
+// Fuzzy search allows up to this many edits (fewer for short queries)
+const MAX_FUZZY_DISTANCE = 2;
+
+export interface UsernameMatch {
+  score: number;
+  // [start, end) in code points, for highlighting
+  ranges: [number, number][];
+}
+
+/**
+ * Score one lowercased username (as code points) against the lowercased
+ * query, exactly like the backend's matchUsername. Every mode accepts the
+ * matches of the stricter modes, with their higher scores:
+ *
+ *   exact      1.0
+ *   prefix     0.9
+ *   substring  0.7
+ *   fuzzy      0.5 * (1 - distance/(maxDistance+1))
+ *
+ * Returns null when the name doesn't match in this mode.
+ */
+export function matchUsername(
+  pattern: string[],
+  name: string[],
+  mode: SearchMode
+): UsernameMatch | null {
+  if (pattern.length <= name.length && startsWith(name, pattern)) {
+    if (pattern.length === name.length) {
+      return { score: 1, ranges: [[0, name.length]] };
+    }
+    return { score: 0.9, ranges: [[0, pattern.length]] };
+  }
+  if (mode === 'prefix') {
+    return null;
+  }
+
+  const start = indexOf(name, pattern);
+  if (start >= 0) {
+    return { score: 0.7, ranges: [[start, start + pattern.length]] };
+  }
+  if (mode === 'substring') {
+    return null;
+  }
+
+  const maxDistance = fuzzyDistanceFor(pattern.length);
+  const { distance, ranges } = fuzzySubstringMatch(pattern, name, maxDistance);
+  if (distance > maxDistance) {
+    return null;
+  }
+  const score = 0.5 * (1 - distance / (maxDistance + 1));
+  return { score: Math.round(score * 100) / 100, ranges };
+}
+
+function startsWith(name: string[], pattern: string[]): boolean {
+  return pattern.every((char, i) => name[i] === char);
+}
+
+function indexOf(name: string[], pattern: string[]): number {
+  for (let start = 0; start + pattern.length <= name.length; start++) {
+    if (pattern.every((char, i) => name[start + i] === char)) {
+      return start;
+    }
+  }
+  return -1;
+}
+
+// One typo in a two-letter query would match nearly every username
+function fuzzyDistanceFor(n: number): number {
+  if (n <= 2) return 0;
+  if (n <= 5) return 1;
+  return MAX_FUZZY_DISTANCE;
+}
+
+/**
+ * Find the part of name closest to pattern by Levenshtein distance (Sellers'
+ * algorithm: the match may start and end anywhere in name), with the ranges
+ * of name the alignment matched exactly. Gives up early, returning
+ * maxDistance+1, once no alignment can stay within maxDistance.
+ */
+function fuzzySubstringMatch(
+  pattern: string[],
+  name: string[],
+  maxDistance: number
+): { distance: number; ranges: [number, number][] } {
+  const m = pattern.length;
+  const n = name.length;
+  // dist[i][j]: edits to turn pattern[:i] into some substring of name ending at j
+  const dist: number[][] = [];
+  for (let i = 0; i <= m; i++) {
+    dist.push(new Array(n + 1).fill(0));
+    dist[i][0] = i;
+  }
+
+  for (let i = 1; i <= m; i++) {
+    let rowMin = dist[i][0];
+    for (let j = 1; j <= n; j++) {
+      const cost = pattern[i - 1] === name[j - 1] ? 0 : 1;
+      const best = Math.min(dist[i - 1][j - 1] + cost, dist[i - 1][j] + 1, dist[i][j - 1] + 1);
+      dist[i][j] = best;
+      rowMin = Math.min(rowMin, best);
+    }
+    if (rowMin > maxDistance) {
+      return { distance: maxDistance + 1, ranges: [] };
+    }
+  }
+
+  let end = 0;
+  for (let j = 1; j <= n; j++) {
+    if (dist[m][j] < dist[m][end]) {
+      end = j;
+    }
+  }
+
+  // Walk the alignment back, collecting positions where characters matched
+  const matched: number[] = [];
+  let i = m;
+  let j = end;
+  while (i > 0 && j > 0) {
+    if (pattern[i - 1] === name[j - 1] && dist[i][j] === dist[i - 1][j - 1]) {
+      matched.push(j - 1);
+      i--;
+      j--;
+    } else if (dist[i][j] === dist[i - 1][j - 1] + 1) {
+      i--;
+      j--;
+    } else if (dist[i][j] === dist[i - 1][j] + 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  // matched is in reverse order; merge adjacent positions into ranges
+  const ranges: [number, number][] = [];
+  for (const pos of matched.reverse()) {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === pos) {
+      last[1] = pos + 1;
+    } else {
+      ranges.push([pos, pos + 1]);
+    }
+  }
+  return { distance: dist[m][end], ranges };
+}
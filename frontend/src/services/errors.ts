@@ -0,0 +1,113 @@
+import axios from 'axios';
+
+/**
+ * Errors thrown by ApiService. Every failure is one of these, never a raw axios
+ * error, so screens can tell "the backend is down" from "the backend said no"
+ * from "there are no players" and show the right thing.
+ *
+ *   NetworkError            no response at all (server down, DNS, CORS, offline)
+ *   TimeoutError            no response within the client timeout
+ *   ClientError             4xx; `message` is the server's explanation
+ *   ServerError             5xx
+ *   MalformedResponseError  2xx, but the body isn't the shape we expect
+ *   CancelledError          the caller aborted the request; not a failure to show
+ *
+ * `retryable` says whether trying the same request again could succeed.
+ */
+export abstract class ApiError extends Error {
+  abstract readonly retryable: boolean;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+    // Keep instanceof working when compiled down to ES5 classes
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class NetworkError extends ApiError {
+  readonly retryable = true;
+}
+
+export class TimeoutError extends ApiError {
+  readonly retryable = true;
+}
+
+export class ClientError extends ApiError {
+  readonly retryable = false;
+
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export class ServerError extends ApiError {
+  readonly retryable = true;
+
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export class MalformedResponseError extends ApiError {
+  readonly retryable = false;
+
+  // path points at the offending field, e.g. "entries[3].rating"
+  constructor(readonly path: string, message: string) {
+    super(`Unexpected response at ${path}: ${message}`);
+  }
+}
+
+export class CancelledError extends ApiError {
+  readonly retryable = false;
+
+  constructor() {
+    super('Request cancelled');
+  }
+}
+
+/**
+ * Convert anything thrown while making a request into an ApiError. ApiErrors
+ * (from validation) pass through unchanged.
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (axios.isCancel(error)) {
+    return new CancelledError();
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return new NetworkError(error instanceof Error ? error.message : String(error));
+  }
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new TimeoutError('The server took too long to respond');
+  }
+
+  if (!error.response) {
+    return new NetworkError("Couldn't reach the server");
+  }
+
+  // The backend answers errors with http.Error, i.e. a plain-text body
+  const { status, data } = error.response;
+  const serverMessage =
+    typeof data === 'string' && data.trim() ? data.trim() : `HTTP ${status}`;
+
+  if (status >= 500) {
+    return new ServerError(status, serverMessage);
+  }
+  return new ClientError(status, serverMessage);
+}
+
+/**
+ * True for a 4xx with the given status, e.g. isClientError(error, 404) for
+ * "no such player".
+ */
+export function isClientError(error: unknown, status?: number): error is ClientError {
+  return (
+    error instanceof ClientError && (status === undefined || error.status === status)
+  );
+}
@@ -0,0 +1,102 @@
+import { StreamConnection, StreamHandlers } from './dataSource';
+
+/**
+ * Server-Sent Events client for the backend's /stream endpoint, on every
+ * platform: EventSource where the browser has it, XMLHttpRequest progress
+ * events on React Native.
+ */
+
+// XMLHttpRequest keeps the whole response body in responseText, so a stream
+// left open all night would grow without bound. Past this size we drop the
+// connection and open a fresh one.
+const MAX_XHR_BUFFER = 1024 * 1024;
+
+/**
+ * Parse complete Server-Sent Events out of `text`, calling onMessage with the
+ * data of each `rating` event. Returns the trailing partial event (if any) so
+ * the caller can prepend it to the next chunk.
+ */
+function parseEventStream(text: string, onMessage: (data: string) => void): string {
+  const blocks = text.split(/\r?\n\r?\n/);
+  const remainder = blocks.pop() ?? '';
+
+  for (const block of blocks) {
+    let eventName = 'message';
+    const data: string[] = [];
+
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith(':')) continue; // comment / heartbeat
+      if (line.startsWith('event:')) eventName = line.slice(6).trim();
+      if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    }
+
+    if (eventName === 'rating' && data.length > 0) {
+      onMessage(data.join('\n'));
+    }
+  }
+
+  return remainder;
+}
+
+// Browsers ship EventSource, which handles parsing and keeps memory flat.
+function openEventSource(url: string, handlers: StreamHandlers): StreamConnection {
+  const source = new (globalThis as any).EventSource(url);
+  source.onopen = handlers.onOpen;
+  source.onerror = handlers.onError;
+  source.addEventListener('rating', (event: { data: string }) =>
+    handlers.onMessage(event.data)
+  );
+  return { close: () => source.close() };
+}
+
+// React Native has no EventSource, but its XMLHttpRequest reports incremental
+// progress, which is enough to read an SSE stream chunk by chunk.
+function openXhrStream(url: string, handlers: StreamHandlers): StreamConnection {
+  const xhr = new XMLHttpRequest();
+  let closed = false;
+  let cursor = 0;
+  let pending = '';
+
+  const close = () => {
+    closed = true;
+    xhr.abort();
+  };
+
+  xhr.onreadystatechange = () => {
+    if (xhr.readyState === xhr.HEADERS_RECEIVED && xhr.status === 200) {
+      handlers.onOpen();
+    }
+  };
+
+  xhr.onprogress = () => {
+    const text = xhr.responseText;
+    pending = parseEventStream(pending + text.slice(cursor), handlers.onMessage);
+    cursor = text.length;
+
+    if (cursor > MAX_XHR_BUFFER) {
+      close();
+      handlers.onError();
+    }
+  };
+
+  // Fires on network errors and when the server ends the stream; either way
+  // we want to reconnect unless we closed it ourselves.
+  xhr.onloadend = () => {
+    if (!closed) {
+      closed = true;
+      handlers.onError();
+    }
+  };
+
+  xhr.open('GET', url);
+  xhr.setRequestHeader('Accept', 'text/event-stream');
+  xhr.send();
+
+  return { close };
+}
+
+export function openEventStream(url: string, handlers: StreamHandlers): StreamConnection {
+  return typeof (globalThis as any).EventSource === 'function'
+    ? openEventSource(url, handlers)
+    : openXhrStream(url, handlers);
+}
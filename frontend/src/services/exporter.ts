@@ -0,0 +1,139 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import apiService from './api';
+import { ClientError, ServerError } from './errors';
+import { ExportFormat, RatingFilter, SearchMode, SearchResult } from '../types';
+
+/**
+ * Getting data out of the app as files. On web an export is a browser
+ * download; on native it's written to the cache directory and handed to the
+ * share sheet (Files, Mail, Drive, ...).
+ *
+ * Leaderboard exports can be the whole board, so they stream from the
+ * backend's /leaderboard/export straight to disk instead of being paged
+ * through the 1000-row /leaderboard cap. Search results are at most 50 rows
+ * and already on screen, so they're written locally.
+ */
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+// 2026-10-18T21:04:05.123Z -> 20261018-210405, for file names
+function fileStamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace(/-|:/g, '').replace('T', '-');
+}
+
+// Text starting with one of these opens as a formula in a spreadsheet
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quotes fields that need it. Text (usernames, queries) that a spreadsheet would
+// run as a formula gets a leading ' so it opens as plain text; numbers are ours
+// and can't, so a negative one is left alone.
+function csvField(value: string | number): string {
+  const text =
+    typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: (string | number)[][]): string {
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+// Web: click a temporary link. The browser streams a URL to disk itself.
+function downloadOnWeb(href: string, fileName: string) {
+  const document = (globalThis as any).document;
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
+
+async function share(uri: string, format: ExportFormat) {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, { mimeType: MIME_TYPES[format], dialogTitle: 'Export' });
+}
+
+async function saveFile(fileName: string, content: string, format: ExportFormat) {
+  if (Platform.OS === 'web') {
+    // Local exports are small (search results, a demo board), so a data: URI will do
+    downloadOnWeb(
+      `data:${MIME_TYPES[format]};charset=utf-8,${encodeURIComponent(content)}`,
+      fileName
+    );
+    return;
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, content);
+  await share(uri, format);
+}
+
+/**
+ * Export every row of the current board (within `filter`, if given) with
+ * rank, username, rating and exported_at, the moment the backend froze the
+ * rows.
+ */
+export async function exportLeaderboard(format: ExportFormat, filter?: RatingFilter) {
+  const file = apiService.leaderboardExport({ format, filter });
+  const fileName = `leaderboard-${fileStamp(new Date())}.${format}`;
+
+  // Demo mode: the demo engine built the file in memory
+  if ('content' in file) {
+    await saveFile(fileName, file.content, format);
+    return;
+  }
+
+  const { url } = file;
+  if (Platform.OS === 'web') {
+    // The server names the file (Content-Disposition) for cross-origin links
+    downloadOnWeb(url, fileName);
+    return;
+  }
+
+  const download = await FileSystem.downloadAsync(url, `${FileSystem.cacheDirectory}${fileName}`);
+  if (download.status >= 500) {
+    throw new ServerError(download.status, 'The export failed on the server');
+  }
+  if (download.status >= 400) {
+    throw new ClientError(download.status, 'The server refused the export');
+  }
+  await share(download.uri, format);
+}
+
+/**
+ * Export search results as shown: username, rating, global rank and match
+ * score, plus exported_at. JSON also keeps the query, the mode and each
+ * result's matched ranges.
+ */
+export async function exportSearchResults(
+  format: ExportFormat,
+  results: SearchResult[],
+  { query, mode }: { query: string; mode: SearchMode }
+) {
+  const now = new Date();
+  const exportedAt = now.toISOString();
+  const fileName = `search-${fileStamp(now)}.${format}`;
+
+  const content =
+    format === 'csv'
+      ? toCsv(
+          ['username', 'rating', 'global_rank', 'score', 'exported_at'],
+          results.map((result) => [
+            result.username,
+            result.rating,
+            result.global_rank,
+            result.score ?? '',
+            exportedAt,
+          ])
+        )
+      : JSON.stringify({ exported_at: exportedAt, query, mode, results }, null, 2) + '\n';
+
+  await saveFile(fileName, content, format);
+}
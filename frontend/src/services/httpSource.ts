@@ -0,0 +1,249 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  BatchLookupResult,
+  BoardList,
+  Comparison,
+  ExportFormat,
+  ImportResult,
+  LeaderboardPage,
+  LeaderboardPageRequest,
+  LeaderboardStats,
+  LeaderboardWindow,
+  LeaderboardWindowRequest,
+  MatchOutcome,
+  MatchReport,
+  PlayerProfile,
+  RatingFilter,
+  SearchMode,
+  SearchResult,
+  StatsRequest,
+  UserHistory,
+  UserUpdate,
+} from '../types';
+import {
+  validateBatchLookup,
+  validateBoardList,
+  validateComparison,
+  validateImportResult,
+  validateLeaderboardPage,
+  validateLeaderboardWindow,
+  validateMatchOutcome,
+  validatePlayerProfile,
+  validateSearchResult,
+  validateSearchResults,
+  validateStats,
+  validateUserHistory,
+} from './validation';
+import { DataSource, LeaderboardExport, StreamConnection, StreamHandlers } from './dataSource';
+import { openEventStream } from './eventStream';
+import { DefaultConfig } from './config';
+
+/**
+ * The leaderboard backend over HTTP. Every response is validated against the
+ * shape ApiService promises before it's returned; errors are left for
+ * ApiService to convert.
+ */
+export class HttpDataSource implements DataSource {
+  private client: AxiosInstance;
+
+  constructor() {
+    this.client = axios.create({
+      baseURL: DefaultConfig.apiBaseUrl,
+      timeout: DefaultConfig.timeouts.requestMs,
+    });
+  }
+
+  configure({ baseURL, timeoutMs }: { baseURL: string; timeoutMs: number }) {
+    this.client.defaults.baseURL = baseURL;
+    this.client.defaults.timeout = timeoutMs;
+  }
+
+  get baseURL(): string {
+    return this.client.defaults.baseURL ?? DefaultConfig.apiBaseUrl;
+  }
+
+  async getBoards(): Promise<BoardList> {
+    const response = await this.client.get('/boards');
+    return validateBoardList(response.data);
+  }
+
+  async getLeaderboard(
+    board: string | null,
+    { limit, offset, snapshot, filter }: LeaderboardPageRequest
+  ): Promise<LeaderboardPage> {
+    // axios drops undefined params, so the first page goes out without one
+    const response = await this.client.get('/leaderboard', {
+      params: { limit, offset, snapshot, ...boardParams(board), ...filterParams(filter) },
+    });
+    return validateLeaderboardPage(response.data);
+  }
+
+  async getLeaderboardAround(
+    board: string | null,
+    { rank, username, radius, snapshot, filter }: LeaderboardWindowRequest
+  ): Promise<LeaderboardWindow> {
+    const response = await this.client.get('/leaderboard/around', {
+      params: {
+        rank,
+        username,
+        radius,
+        snapshot,
+        ...boardParams(board),
+        ...filterParams(filter),
+      },
+    });
+    return validateLeaderboardWindow(response.data);
+  }
+
+  // The streamed /leaderboard/export, downloaded straight to disk
+  exportLeaderboard(
+    board: string | null,
+    { format, filter }: { format: ExportFormat; filter?: RatingFilter }
+  ): LeaderboardExport {
+    const url = this.client.getUri({
+      url: '/leaderboard/export',
+      params: { format, ...boardParams(board), ...filterParams(filter) },
+    });
+    return { url };
+  }
+
+  async searchUsers(
+    board: string | null,
+    query: string,
+    { mode, signal }: { mode: SearchMode; signal?: AbortSignal }
+  ): Promise<SearchResult[]> {
+    const response = await this.client.get('/search', {
+      params: { username: query, mode, ...boardParams(board) },
+      signal,
+    });
+    return validateSearchResults(response.data);
+  }
+
+  async getUser(board: string | null, username: string, neighbors: number): Promise<PlayerProfile> {
+    const response = await this.client.get('/user', {
+      params: { username, neighbors, ...boardParams(board) },
+    });
+    return validatePlayerProfile(response.data);
+  }
+
+  async getHistory(board: string | null, username: string, since?: number): Promise<UserHistory> {
+    const response = await this.client.get('/history', {
+      params: { username, since, ...boardParams(board) },
+    });
+    return validateUserHistory(response.data);
+  }
+
+  async getUsers(
+    board: string | null,
+    usernames: string[],
+    historySince?: number
+  ): Promise<BatchLookupResult> {
+    const response = await this.client.get('/users', {
+      params: { username: usernames, history_since: historySince, ...boardParams(board) },
+      // username=a&username=b, not axios' default username[]=a&username[]=b
+      paramsSerializer: { indexes: null },
+    });
+    return validateBatchLookup(response.data);
+  }
+
+  async compareUsers(
+    board: string | null,
+    usernames: string[],
+    historySince?: number
+  ): Promise<Comparison> {
+    const response = await this.client.get('/compare', {
+      params: { username: usernames, history_since: historySince, ...boardParams(board) },
+      paramsSerializer: { indexes: null },
+    });
+    return validateComparison(response.data);
+  }
+
+  async getStats(
+    board: string | null,
+    { bucketWidth, percentiles }: StatsRequest
+  ): Promise<LeaderboardStats> {
+    const response = await this.client.get('/stats', {
+      params: {
+        bucket_width: bucketWidth,
+        percentiles: percentiles?.join(','),
+        ...boardParams(board),
+      },
+    });
+    return validateStats(response.data);
+  }
+
+  async checkAdminToken(token: string): Promise<void> {
+    await this.client.get('/admin/session', { headers: adminHeaders(token) });
+  }
+
+  async upsertUser(
+    board: string | null,
+    update: UserUpdate,
+    token: string | null
+  ): Promise<SearchResult> {
+    const response = await this.client.post('/admin/user', update, {
+      params: boardParams(board),
+      headers: adminHeaders(token),
+    });
+    return validateSearchResult(response.data);
+  }
+
+  async deleteUser(board: string | null, username: string, token: string | null): Promise<void> {
+    await this.client.delete('/admin/user', {
+      params: { username, ...boardParams(board) },
+      headers: adminHeaders(token),
+    });
+  }
+
+  async importUsers(
+    board: string | null,
+    updates: UserUpdate[],
+    token: string | null
+  ): Promise<ImportResult> {
+    const response = await this.client.post('/admin/import', updates, {
+      params: boardParams(board),
+      headers: adminHeaders(token),
+    });
+    return validateImportResult(response.data);
+  }
+
+  async recordMatches(
+    board: string | null,
+    { games, kFactor }: MatchReport,
+    { dryRun, signal }: { dryRun: boolean; signal?: AbortSignal },
+    token: string | null
+  ): Promise<MatchOutcome> {
+    const response = await this.client.post(
+      '/matches',
+      { games, k_factor: kFactor },
+      {
+        params: { dry_run: dryRun || undefined, ...boardParams(board) },
+        headers: adminHeaders(token),
+        signal,
+      }
+    );
+    return validateMatchOutcome(response.data);
+  }
+
+  async ping(): Promise<void> {
+    await this.client.get('/stats');
+  }
+
+  openStream(board: string | null, handlers: StreamHandlers): StreamConnection {
+    const query = board ? `?board=${encodeURIComponent(board)}` : '';
+    return openEventStream(`${this.baseURL}/stream${query}`, handlers);
+  }
+}
+
+// Without a board the backend serves its default one
+function boardParams(board: string | null) {
+  return { board: board ?? undefined };
+}
+
+function adminHeaders(token: string | null) {
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+function filterParams(filter?: RatingFilter) {
+  return { min_rating: filter?.minRating, max_rating: filter?.maxRating };
+}
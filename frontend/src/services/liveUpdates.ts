@@ -0,0 +1,110 @@
+import { RatingChangeEvent } from '../types';
+import apiService from './api';
+import { StreamConnection, StreamHandlers } from './dataSource';
+import { validateRatingChangeEvent } from './validation';
+
+type RatingChangeListener = (event: RatingChangeEvent) => void;
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+
+/**
+ * Live rating-change feed from the backend's /stream endpoint, or from the
+ * demo engine's simulated traffic in demo mode (see ApiService.openStream).
+ *
+ * One shared connection, opened when the first listener subscribes and closed
+ * when the last one leaves, so screens can subscribe freely without stacking
+ * up sockets. Dropped connections reconnect with exponential backoff (1s → 30s,
+ * jittered) so a backend restart doesn't get every client back at once.
+ *
+ * The runtime config can turn the feed off (features.liveUpdates). Listeners
+ * still subscribe as usual but never hear anything, and no connection opens.
+ */
+class LiveUpdatesService {
+  private listeners = new Set<RatingChangeListener>();
+  private connection: StreamConnection | null = null;
+  private retryDelay = INITIAL_RETRY_MS;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private enabled = true;
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    if (!enabled) {
+      this.disconnect();
+    } else if (this.listeners.size > 0 && !this.connection && !this.retryTimer) {
+      this.connect();
+    }
+  }
+
+  subscribe(listener: RatingChangeListener): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1 && this.enabled) {
+      this.connect();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  private connect() {
+    const handlers: StreamHandlers = {
+      onOpen: () => {
+        this.retryDelay = INITIAL_RETRY_MS;
+      },
+      onMessage: (data) => this.dispatch(data),
+      onError: () => this.scheduleReconnect(),
+    };
+
+    // Subscribers remount on a board switch, so the board is fixed per connection
+    this.connection = apiService.openStream(handlers);
+  }
+
+  private scheduleReconnect() {
+    this.connection?.close();
+    this.connection = null;
+
+    if (this.retryTimer || this.listeners.size === 0 || !this.enabled) {
+      return;
+    }
+
+    const delay = this.retryDelay / 2 + (Math.random() * this.retryDelay) / 2;
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_MS);
+
+    console.warn(`[LiveUpdates] Stream dropped, reconnecting in ${Math.round(delay)}ms`);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.listeners.size > 0) {
+        this.connect();
+      }
+    }, delay);
+  }
+
+  private disconnect() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.connection?.close();
+    this.connection = null;
+    this.retryDelay = INITIAL_RETRY_MS;
+  }
+
+  private dispatch(data: string) {
+    let event: RatingChangeEvent;
+    try {
+      event = validateRatingChangeEvent(JSON.parse(data));
+    } catch (error) {
+      // Bad JSON or a missing/mistyped field; one bad event shouldn't reach the lists
+      console.warn('[LiveUpdates] Ignoring malformed event:', data, error);
+      return;
+    }
+
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+export default new LiveUpdatesService();
@@ -0,0 +1,47 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Small persistent key-value store for user preferences (watchlist, etc.).
+ *
+ * Web uses localStorage directly so values survive reloads and are visible in
+ * devtools; native uses AsyncStorage. Everything is stored as JSON, and a
+ * missing or corrupt value falls back to the caller's default instead of
+ * throwing: losing a preference is better than crashing on startup.
+ */
+const webStorage = (globalThis as any).localStorage as
+  | { getItem(key: string): string | null; setItem(key: string, value: string): void }
+  | undefined;
+
+async function getRaw(key: string): Promise<string | null> {
+  if (Platform.OS === 'web') {
+    return webStorage?.getItem(key) ?? null;
+  }
+  return AsyncStorage.getItem(key);
+}
+
+async function setRaw(key: string, value: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    webStorage?.setItem(key, value);
+    return;
+  }
+  await AsyncStorage.setItem(key, value);
+}
+
+export async function loadJSON<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const raw = await getRaw(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.warn(`[Storage] Could not read "${key}", using default:`, error);
+    return fallback;
+  }
+}
+
+export async function saveJSON<T>(key: string, value: T): Promise<void> {
+  try {
+    await setRaw(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`[Storage] Could not save "${key}":`, error);
+  }
+}
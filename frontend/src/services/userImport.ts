@@ -0,0 +1,195 @@
+import { RatingScale } from '../theme';
+import { UserUpdate } from '../types';
+
+// Mirror the backend's admin limits (MaxUsernameLength, MaxImportRows), so a
+// file is rejected here, row by row, before anything is sent.
+export const MAX_USERNAME_LENGTH = 32;
+export const MAX_IMPORT_ROWS = 10000;
+
+/**
+ * Why a row can't be imported, as a code plus the values the message needs.
+ * The panel turns it into text in the user's language. `rejected` carries the
+ * backend's own reason, which stays untranslated like other server messages.
+ */
+export type ImportIssue =
+  | { code: 'usernameRequired' }
+  | { code: 'usernameSpaces' }
+  | { code: 'usernameTooLong'; max: number }
+  | { code: 'ratingNotInteger' }
+  | { code: 'ratingOutOfRange'; min: number; max: number }
+  | { code: 'duplicate'; first: number }
+  | { code: 'notObject' }
+  | { code: 'columnCount'; found: number }
+  | { code: 'rejected'; reason: string };
+
+/** Why a whole file can't be imported; see ImportIssue. */
+export type ImportFileIssue =
+  | { code: 'noRows' }
+  | { code: 'tooManyRows'; count: number; max: number }
+  | { code: 'invalidJson' }
+  | { code: 'notArray' };
+
+export class ImportFileError extends Error {
+  constructor(readonly issue: ImportFileIssue) {
+    super(`Import file rejected: ${issue.code}`);
+    this.name = 'ImportFileError';
+    // Keep instanceof working when compiled down to ES5 classes
+    Object.setPrototypeOf(this, ImportFileError.prototype);
+  }
+}
+
+/**
+ * One row of an import file. `row` is where to find it in the file: the line
+ * number for CSV, the 1-based array position for JSON. Rows with an `error`
+ * are shown in the preview but never sent.
+ */
+export interface ImportRow {
+  row: number;
+  username: string;
+  rating: number | null;
+  error?: ImportIssue;
+}
+
+/**
+ * Parse an import file into rows and validate each one against the same rules
+ * the backend applies (rating within RatingScale, i.e. MinRating..MaxRating).
+ *
+ * Accepts CSV with `username,rating` columns (a header row is optional) or a
+ * JSON array of `{ "username", "rating" }` objects; a `.json` name or a leading
+ * `[` picks JSON. Throws ImportFileError if the file as a whole can't be read.
+ */
+export function parseUserImport(text: string, fileName: string): ImportRow[] {
+  const isJson = fileName.toLowerCase().endsWith('.json') || text.trimStart().startsWith('[');
+  const rows = isJson ? parseJson(text) : parseCsv(text);
+
+  if (rows.length === 0) {
+    throw new ImportFileError({ code: 'noRows' });
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError({ code: 'tooManyRows', count: rows.length, max: MAX_IMPORT_ROWS });
+  }
+
+  const firstRow = new Map<string, number>();
+  return rows.map((row) => {
+    const error = row.error ?? validate(row) ?? duplicateOf(row, firstRow);
+    return error ? { ...row, error } : row;
+  });
+}
+
+/** The rows that passed validation, in file order, ready for importUsers. */
+export function validUpdates(rows: ImportRow[]): { rows: ImportRow[]; updates: UserUpdate[] } {
+  const valid = rows.filter((row) => !row.error);
+  return {
+    rows: valid,
+    updates: valid.map((row) => ({ username: row.username, rating: row.rating as number })),
+  };
+}
+
+function validate({ username, rating }: ImportRow): ImportIssue | undefined {
+  if (!username) return { code: 'usernameRequired' };
+  if (username.trim() !== username) return { code: 'usernameSpaces' };
+  if ([...username].length > MAX_USERNAME_LENGTH) {
+    return { code: 'usernameTooLong', max: MAX_USERNAME_LENGTH };
+  }
+  if (rating === null || !Number.isInteger(rating)) return { code: 'ratingNotInteger' };
+  if (rating < RatingScale.min || rating > RatingScale.max) {
+    return { code: 'ratingOutOfRange', min: RatingScale.min, max: RatingScale.max };
+  }
+  return undefined;
+}
+
+function duplicateOf(row: ImportRow, firstRow: Map<string, number>): ImportIssue | undefined {
+  const first = firstRow.get(row.username);
+  if (first !== undefined) return { code: 'duplicate', first };
+  firstRow.set(row.username, row.row);
+  return undefined;
+}
+
+function parseJson(text: string): ImportRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportFileError({ code: 'invalidJson' });
+  }
+  if (!Array.isArray(data)) {
+    throw new ImportFileError({ code: 'notArray' });
+  }
+
+  return data.map((item, index) => {
+    const row = index + 1;
+    if (typeof item !== 'object' || item === null) {
+      return { row, username: '', rating: null, error: { code: 'notObject' } };
+    }
+    const { username, rating } = item as Record<string, unknown>;
+    return {
+      row,
+      username: typeof username === 'string' ? username : '',
+      rating: typeof rating === 'number' ? rating : null,
+    };
+  });
+}
+
+function parseCsv(text: string): ImportRow[] {
+  const rows: ImportRow[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    const fields = splitCsvLine(line);
+    const row = index + 1;
+    if (rows.length === 0 && fields[1]?.trim().toLowerCase() === 'rating') {
+      return; // header
+    }
+    if (fields.length !== 2) {
+      rows.push({
+        row,
+        username: fields[0] ?? '',
+        rating: null,
+        error: { code: 'columnCount', found: fields.length },
+      });
+      return;
+    }
+
+    const ratingText = fields[1].trim();
+    rows.push({
+      row,
+      username: fields[0],
+      rating: /^-?\d+$/.test(ratingText) ? Number(ratingText) : null,
+    });
+  });
+
+  return rows;
+}
+
+// Split one CSV line, honouring double-quoted fields ("a,b" and "say ""hi""").
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  // Like the backend, ignore spaces before a field (but not within or after it)
+  return fields.map((value) => value.trimStart());
+}
@@ -0,0 +1,263 @@
+import { MalformedResponseError } from './errors';
+import {
+  BatchLookupResult,
+  BoardInfo,
+  BoardList,
+  Comparison,
+  ComparisonGap,
+  DistributionBucket,
+  HistoryPoint,
+  ImportResult,
+  ImportRowError,
+  LeaderboardEntry,
+  LeaderboardPage,
+  LeaderboardStats,
+  LeaderboardWindow,
+  MatchOutcome,
+  PercentileCutoff,
+  PlayerProfile,
+  RatingChangeEvent,
+  RatingDelta,
+  SearchResult,
+  UserHistory,
+} from '../types';
+
+/**
+ * Runtime checks for backend responses. TypeScript types vanish at runtime, so
+ * without these a proxy error page or a renamed field would flow into the UI as
+ * `undefined` ranks instead of failing loudly. Each validator returns its input,
+ * typed, or throws MalformedResponseError naming the first bad field.
+ *
+ * Hand-written rather than schema-driven: the payloads are small and flat, and
+ * this keeps the bundle free of a validation library.
+ */
+
+type Validator<T> = (value: unknown, path: string) => T;
+
+function fail(path: string, expected: string, value: unknown): never {
+  const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  throw new MalformedResponseError(path, `expected ${expected}, got ${actual}`);
+}
+
+function object(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(path, 'object', value);
+  }
+  return value as Record<string, unknown>;
+}
+
+function number(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !isFinite(value)) {
+    fail(path, 'number', value);
+  }
+  return value;
+}
+
+function string(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    fail(path, 'string', value);
+  }
+  return value;
+}
+
+function boolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    fail(path, 'boolean', value);
+  }
+  return value;
+}
+
+function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined ? undefined : validator(value, path));
+}
+
+function matchRange(value: unknown, path: string): [number, number] {
+  if (!Array.isArray(value) || value.length !== 2) {
+    fail(path, '[start, end] pair', value);
+  }
+  number(value[0], `${path}[0]`);
+  number(value[1], `${path}[1]`);
+  return value as [number, number];
+}
+
+function arrayOf<T>(item: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      fail(path, 'array', value);
+    }
+    value.forEach((element, index) => item(element, `${path}[${index}]`));
+    return value as T[];
+  };
+}
+
+// Checks the listed fields and returns the object as T. Fields not listed are
+// allowed through untouched, so additive backend changes don't break old clients.
+function shape<T>(fields: { [K in keyof T]?: Validator<unknown> }): Validator<T> {
+  return (value, path) => {
+    const record = object(value, path);
+    for (const key of Object.keys(fields) as (keyof T & string)[]) {
+      fields[key]!(record[key], `${path}.${key}`);
+    }
+    return record as T;
+  };
+}
+
+const leaderboardEntry = shape<LeaderboardEntry>({
+  rank: number,
+  username: string,
+  rating: number,
+});
+
+const searchResult = shape<SearchResult>({
+  username: string,
+  rating: number,
+  global_rank: number,
+  score: optional(number),
+  matches: optional(arrayOf(matchRange)),
+});
+
+const leaderboardPageFields = {
+  entries: arrayOf(leaderboardEntry),
+  snapshot: string,
+  created_at: number,
+  offset: number,
+  next_offset: number,
+  has_more: boolean,
+  total: number,
+};
+
+const historyPoint = shape<HistoryPoint>({
+  timestamp: number,
+  rating: number,
+  rank: number,
+});
+
+// Optional map of username -> history points
+function historyByUser(value: unknown, path: string) {
+  if (value === undefined) return value;
+  const byUser = object(value, path);
+  for (const username of Object.keys(byUser)) {
+    arrayOf(historyPoint)(byUser[username], `${path}.${username}`);
+  }
+  return byUser;
+}
+
+// Exported validators take the whole response body; errors read "response.entries[3].rank"
+function root<T>(validator: Validator<T>): (data: unknown) => T {
+  return (data) => validator(data, 'response');
+}
+
+export const validateLeaderboardPage = root(shape<LeaderboardPage>(leaderboardPageFields));
+
+export const validateLeaderboardWindow = root(
+  shape<LeaderboardWindow>({
+    ...leaderboardPageFields,
+    target_index: number,
+  })
+);
+
+export const validateSearchResult = root(searchResult);
+
+// The backend encodes "no matches" as null (a nil Go slice) rather than []
+export const validateSearchResults = root<SearchResult[]>((value, path) =>
+  value === null ? [] : arrayOf(searchResult)(value, path)
+);
+
+export const validatePlayerProfile = root(
+  shape<PlayerProfile>({
+    username: string,
+    rating: number,
+    global_rank: number,
+    percentile: number,
+    total_users: number,
+    above: arrayOf(leaderboardEntry),
+    below: arrayOf(leaderboardEntry),
+  })
+);
+
+export const validateBatchLookup = root(
+  shape<BatchLookupResult>({
+    players: arrayOf(searchResult),
+    missing: arrayOf(string),
+    total_users: number,
+    history: historyByUser,
+  })
+);
+
+export const validateComparison = root(
+  shape<Comparison>({
+    players: arrayOf(searchResult),
+    gaps: arrayOf(
+      shape<ComparisonGap>({
+        higher: string,
+        lower: string,
+        rating_gap: number,
+        players_between: number,
+      })
+    ),
+    total_users: number,
+    history: historyByUser,
+  })
+);
+
+export const validateUserHistory = root(
+  shape<UserHistory>({
+    username: string,
+    points: arrayOf(historyPoint),
+  })
+);
+
+export const validateStats = root(
+  shape<LeaderboardStats>({
+    total_users: number,
+    mean: number,
+    median: number,
+    bucket_width: number,
+    distribution: arrayOf(
+      shape<DistributionBucket>({ min_rating: number, max_rating: number, count: number })
+    ),
+    percentiles: arrayOf(shape<PercentileCutoff>({ percentile: number, rating: number })),
+  })
+);
+
+export const validateBoardList = root(
+  shape<BoardList>({
+    boards: arrayOf(shape<BoardInfo>({ id: string, name: string, total_users: number })),
+    default: string,
+  })
+);
+
+export const validateImportResult = root(
+  shape<ImportResult>({
+    imported: number,
+    errors: arrayOf(
+      shape<ImportRowError>({ row: number, username: optional(string), error: string })
+    ),
+  })
+);
+
+export const validateMatchOutcome = root(
+  shape<MatchOutcome>({
+    k_factor: number,
+    applied: boolean,
+    changes: arrayOf(
+      shape<RatingDelta>({
+        username: string,
+        old_rating: number,
+        rating: number,
+        delta: number,
+        global_rank: optional(number),
+      })
+    ),
+  })
+);
+
+// Stream messages rather than responses, so errors read "event.rating"
+export const validateRatingChangeEvent = (data: unknown): RatingChangeEvent =>
+  shape<RatingChangeEvent>({
+    username: string,
+    old_rating: number,
+    rating: number,
+    global_rank: number,
+    timestamp: number,
+  })(data, 'event');
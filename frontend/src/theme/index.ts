@@ -1,4 +1,22 @@
-export const Colors = {
+export interface Palette {
+  background: string;
+  cardBackground: string;
+  textPrimary: string;
+  textSecondary: string;
+  accentColor: string;
+  borderLight: string;
+  topThreeGold: string;
+  positive: string;
+  negative: string;
+  // Marker and line colors for compared players, in the order they were picked
+  comparison: string[];
+}
+
+export type ColorScheme = 'light' | 'dark';
+
+// Components read the active palette from ThemeContext (useTheme), never these
+// directly, so the app can switch between them at runtime.
+export const LightColors: Palette = {
   background: '#F7F7F7',
   cardBackground: '#FFFFFF',
   textPrimary: '#1F2937',
@@ -6,7 +24,30 @@ export const Colors = {
   accentColor: '#2563EB',
   borderLight: '#E5E7EB',
   topThreeGold: '#F59E0B',
-} as const;
+  positive: '#16A34A',
+  negative: '#DC2626',
+  comparison: ['#2563EB', '#D97706', '#9333EA', '#0D9488'],
+};
+
+// Low-glare palette for dim rooms: no pure white, and accents lightened to
+// keep their contrast on dark cards.
+export const DarkColors: Palette = {
+  background: '#0B0F17',
+  cardBackground: '#151B26',
+  textPrimary: '#E5E7EB',
+  textSecondary: '#9CA3AF',
+  accentColor: '#60A5FA',
+  borderLight: '#273142',
+  topThreeGold: '#FBBF24',
+  positive: '#4ADE80',
+  negative: '#F87171',
+  comparison: ['#60A5FA', '#FBBF24', '#C084FC', '#2DD4BF'],
+};
+
+export const Palettes: Record<ColorScheme, Palette> = {
+  light: LightColors,
+  dark: DarkColors,
+};
 
 export const Spacing = {
   xs: 4,
@@ -36,3 +77,10 @@ export const Layout = {
   searchInputHeight: 44,
   headerHeight: 56,
 } as const;
+
+export const RatingScale = {
+  min: 100,
+  max: 5000,
+} as const;
+
+export * from './tiers';
@@ -0,0 +1,57 @@
+// Tier (division) configuration. Edit this file to rename, recolor, add or
+// remove tiers, or to switch how their boundaries are defined:
+//
+//   basis 'rating'      `from` is the lowest rating in the tier. Boundaries
+//                       never move.
+//   basis 'percentile'  `from` is the share of players (0-100) rated below the
+//                       tier. Boundaries follow the live rating distribution
+//                       (resolved from /stats), so e.g. Grandmaster is always
+//                       the top 1%.
+//
+// Tiers are listed lowest first, and the first one must start at 0 / the
+// bottom of the rating scale. A tier's name is a message key: add it to every
+// catalog in src/i18n/locales.
+
+import { MessageKey } from '../i18n';
+
+export type TierBasis = 'rating' | 'percentile';
+
+export interface TierDefinition {
+  name: MessageKey;
+  // Short label for badges in tight spaces (rows)
+  abbreviation: string;
+  color: string;
+  from: number;
+}
+
+export interface TierConfiguration {
+  basis: TierBasis;
+  tiers: TierDefinition[];
+}
+
+export const TierConfig: TierConfiguration = {
+  basis: 'rating',
+  tiers: [
+    { name: 'tiers.bronze', abbreviation: 'B', color: '#B45309', from: 100 },
+    { name: 'tiers.silver', abbreviation: 'S', color: '#6B7280', from: 1500 },
+    { name: 'tiers.gold', abbreviation: 'G', color: '#F59E0B', from: 2300 },
+    { name: 'tiers.platinum', abbreviation: 'P', color: '#0D9488', from: 3000 },
+    { name: 'tiers.diamond', abbreviation: 'D', color: '#2563EB', from: 3600 },
+    { name: 'tiers.master', abbreviation: 'M', color: '#7C3AED', from: 4200 },
+    { name: 'tiers.grandmaster', abbreviation: 'GM', color: '#DC2626', from: 4700 },
+  ],
+};
+
+// The same ladder by distribution instead: swap this in as TierConfig.
+export const PercentileTierConfig: TierConfiguration = {
+  basis: 'percentile',
+  tiers: [
+    { name: 'tiers.bronze', abbreviation: 'B', color: '#B45309', from: 0 },
+    { name: 'tiers.silver', abbreviation: 'S', color: '#6B7280', from: 30 },
+    { name: 'tiers.gold', abbreviation: 'G', color: '#F59E0B', from: 55 },
+    { name: 'tiers.platinum', abbreviation: 'P', color: '#0D9488', from: 75 },
+    { name: 'tiers.diamond', abbreviation: 'D', color: '#2563EB', from: 88 },
+    { name: 'tiers.master', abbreviation: 'M', color: '#7C3AED', from: 96 },
+    { name: 'tiers.grandmaster', abbreviation: 'GM', color: '#DC2626', from: 99 },
+  ],
+};
@@ -4,12 +4,199 @@ export interface LeaderboardEntry {
   rating: number;
 }
 
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  snapshot: string;
+  created_at: number;
+  offset: number;
+  next_offset: number;
+  has_more: boolean;
+  total: number;
+}
+
+// Inclusive rating band. Either bound may be left open.
+export interface RatingFilter {
+  minRating?: number;
+  maxRating?: number;
+}
+
+export interface LeaderboardPageRequest {
+  limit?: number;
+  offset?: number;
+  snapshot?: string;
+  filter?: RatingFilter;
+}
+
+// A page centered on one row; target_index is that row's index in entries.
+export interface LeaderboardWindow extends LeaderboardPage {
+  target_index: number;
+}
+
+export interface LeaderboardWindowRequest {
+  rank?: number;
+  username?: string;
+  radius?: number;
+  snapshot?: string;
+  filter?: RatingFilter;
+}
+
+// How a leaderboard row moved between two snapshots, worked out on the client.
+// rankChange is positive for a climb (#12 to #9 is +3); a new entry wasn't on
+// the rows shown before. `at` is when the newer snapshot arrived.
+export type RankMovement =
+  | { kind: 'moved'; rankChange: number; ratingChange: number; at: number }
+  | { kind: 'new'; at: number };
+
+// score and matches are only set on /search hits. matches are [start, end)
+// offsets into the username, counted in code points.
 export interface SearchResult {
   username: string;
   rating: number;
   global_rank: number;
+  score?: number;
+  matches?: [number, number][];
+}
+
+export type SearchMode = 'prefix' | 'substring' | 'fuzzy';
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface DistributionBucket {
+  min_rating: number;
+  max_rating: number;
+  count: number;
+}
+
+export interface PercentileCutoff {
+  percentile: number;
+  rating: number;
+}
+
+// Batch lookup by exact username. Players keep request order; unknown names
+// are listed in missing.
+export interface BatchLookupResult {
+  players: SearchResult[];
+  missing: string[];
+  total_users: number;
+  history?: Record<string, HistoryPoint[]>;
+}
+
+// Two compared players: higher is the better rated one. players_between
+// counts players rated strictly between them.
+export interface ComparisonGap {
+  higher: string;
+  lower: string;
+  rating_gap: number;
+  players_between: number;
+}
+
+// Two to four players read at one moment, in request order, with the gap
+// between every pair
+export interface Comparison {
+  players: SearchResult[];
+  gaps: ComparisonGap[];
+  total_users: number;
+  history?: Record<string, HistoryPoint[]>;
+}
+
+export interface HistoryPoint {
+  timestamp: number;
+  rating: number;
+  rank: number;
+}
+
+export interface UserHistory {
+  username: string;
+  points: HistoryPoint[];
 }
 
 export interface LeaderboardStats {
   total_users: number;
+  mean: number;
+  median: number;
+  bucket_width: number;
+  distribution: DistributionBucket[];
+  percentiles: PercentileCutoff[];
+}
+
+export interface StatsRequest {
+  bucketWidth?: number;
+  percentiles?: number[];
+}
+
+// One named leaderboard (game mode or season) from /boards
+export interface BoardInfo {
+  id: string;
+  name: string;
+  total_users: number;
+}
+
+export interface BoardList {
+  boards: BoardInfo[];
+  // Board used by requests that don't name one
+  default: string;
+}
+
+export interface PlayerProfile {
+  username: string;
+  rating: number;
+  global_rank: number;
+  percentile: number;
+  total_users: number;
+  above: LeaderboardEntry[];
+  below: LeaderboardEntry[];
+}
+
+export interface RatingChangeEvent {
+  username: string;
+  old_rating: number;
+  rating: number;
+  global_rank: number;
+  timestamp: number;
+}
+
+// One player's rating as written through the admin API
+export interface UserUpdate {
+  username: string;
+  rating: number;
+}
+
+// Why one row of an import was skipped; `row` is 1-based within the request
+export interface ImportRowError {
+  row: number;
+  username?: string;
+  error: string;
+}
+
+export interface ImportResult {
+  imported: number;
+  errors: ImportRowError[];
+}
+
+// One game for POST /matches. With `draw`, winner and loser are just the two players.
+export interface MatchGame {
+  winner: string;
+  loser: string;
+  draw?: boolean;
+}
+
+export interface MatchReport {
+  games: MatchGame[];
+  // Max rating swing per game; the backend default (32) when omitted
+  kFactor?: number;
+}
+
+// One player's change from a match report; global_rank only once applied
+export interface RatingDelta {
+  username: string;
+  old_rating: number;
+  rating: number;
+  delta: number;
+  global_rank?: number;
+}
+
+export interface MatchOutcome {
+  k_factor: number;
+  applied: boolean;
+  changes: RatingDelta[];
 }